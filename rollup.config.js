@@ -5,21 +5,34 @@ import del from "rollup-plugin-delete";
 
 export default [
 	{
-		input: "src/puremvc/standard/index.ts",
+		input: {
+			index: "src/puremvc/standard/index.ts",
+			testing: "src/puremvc/standard/testing/index.ts"
+		},
+		external: [
+			"node:fs/promises"
+		],
 		output: [
 			{
-				file: "dist/index.esm.js",
-				format: "es"
+				dir: "dist",
+				format: "es",
+				entryFileNames: "[name].esm.js",
+				chunkFileNames: "puremvc-[hash].esm.js"
 			},
 			{
-				file: "dist/index.cjs.js",
+				dir: "dist",
 				format: "cjs",
-				name: "puremvc"
+				entryFileNames: "[name].cjs.js",
+				chunkFileNames: "puremvc-[hash].cjs.js",
+				dynamicImportInCjs: false
 			}
 		],
 		plugins: [
 			typescript({
-				sourceMap: false
+				sourceMap: false,
+				rootDir: "src/puremvc/standard",
+				outDir: "dist",
+				declarationDir: "dist/dts"
 			}),
 			//terser(), terser currently has a bug with modules: https://github.com/rollup/plugins/issues/1366
 			del({
@@ -31,10 +44,14 @@ export default [
 		]
 	},
 	{
-		input: "dist/dts/index.d.ts",
+		input: {
+			index: "dist/dts/index.d.ts",
+			testing: "dist/dts/testing/index.d.ts"
+		},
 		output: {
-			file: "dist/index.d.ts",
-			format: "es"
+			dir: "dist",
+			format: "es",
+			chunkFileNames: "puremvc-[hash].d.ts"
 		},
 		plugins: [
 			dts({
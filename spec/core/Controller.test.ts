@@ -1,4 +1,5 @@
-import { Controller, IController, SimpleCommand, Notification, INotification } from "puremvc";
+import { Controller, IController, SimpleCommand, Notification, INotification, ICommandFailure, ICommandInterceptor, View, Observer } from "puremvc";
+import { FakeClock } from "puremvc/testing";
 
 describe("Controller Test", () =>
 {
@@ -74,6 +75,24 @@ describe("Controller Test", () =>
 		expect(controller.hasCommand("hasCommandTest")).toBe(false);
 	});
 
+	it("List Commands", () =>
+	{
+		controller.registerCommand("listCommandsTest", ControllerTestCommand);
+		controller.registerCommand(/^listCommands\//, ControllerTestCommand2);
+
+		const mappings = controller.listCommands().filter(({ interest }) => String(interest).includes("listCommands"));
+
+		expect(mappings).toEqual([
+			{ interest: "listCommandsTest", commandClass: ControllerTestCommand },
+			{ interest: /^listCommands\//, commandClass: ControllerTestCommand2 }
+		]);
+
+		controller.removeCommand("listCommandsTest");
+		controller.removeCommand(/^listCommands\//);
+
+		expect(controller.listCommands().some(({ interest }) => interest === "listCommandsTest")).toBe(false);
+	});
+
 	it("Reregister and Execute", async () =>
 	{
 		controller.registerCommand("ControllerTest2", ControllerTestCommand2);
@@ -103,6 +122,295 @@ describe("Controller Test", () =>
 		// test assertions
 		expect(vo.result).toBe(48);
 	});
+
+	it("Command Priority", async () =>
+	{
+		const seen: number[] = [];
+		const view = View.getInstance();
+		const vo = new ControllerTestVO(2);
+
+		// Registered before the command, with the default priority
+		view.registerObserver("PriorityTest", new Observer(() => seen.push(vo.result), "observer"));
+		controller.registerCommand("PriorityTest", ControllerTestCommand, 1);
+
+		await view.notifyObservers(new Notification("PriorityTest", vo));
+
+		view.removeObserver("PriorityTest", "observer");
+		controller.removeCommand("PriorityTest");
+
+		// The command ran first, so the observer saw its result
+		expect(seen).toEqual([4]);
+	});
+
+	it("Pattern Commands", async () =>
+	{
+		const view = View.getInstance();
+
+		controller.registerCommand("math/*", ControllerTestCommand);
+		controller.registerCommand(/^sum\//, ControllerTestCommand2);
+
+		expect(controller.hasCommand("math/*")).toBe(true);
+		expect(controller.hasCommand(/^sum\//)).toBe(true);
+
+		const doubled = new ControllerTestVO(4);
+		await view.notifyObservers(new Notification("math/double", doubled));
+
+		const summed = new ControllerTestVO(4);
+		summed.result = 1;
+		await view.notifyObservers(new Notification("sum/add", summed));
+
+		controller.removeCommand("math/*");
+		controller.removeCommand(/^sum\//);
+
+		expect(controller.hasCommand("math/*")).toBe(false);
+		expect(doubled.result).toBe(8);
+		expect(summed.result).toBe(9);
+
+		const unhandled = new ControllerTestVO(4);
+		await view.notifyObservers(new Notification("math/double", unhandled));
+
+		expect(unhandled.result).toBe(0);
+	});
+
+	it("Interceptors Run In Order", async () =>
+	{
+		const calls: string[] = [];
+
+		const outer: ICommandInterceptor = {
+			intercept: async (notification, next) =>
+			{
+				calls.push("outer before");
+				await next();
+				calls.push("outer after");
+			}
+		};
+
+		const inner: ICommandInterceptor = {
+			intercept: async (notification, next, commandClass) =>
+			{
+				calls.push("inner " + (commandClass === ControllerTestCommand));
+				await next();
+			}
+		};
+
+		controller.registerCommand("InterceptorTest", ControllerTestCommand);
+		controller.addCommandInterceptor(outer);
+		controller.addCommandInterceptor(inner);
+
+		const vo = new ControllerTestVO(3);
+		await controller.executeCommand(new Notification("InterceptorTest", vo));
+
+		controller.removeCommandInterceptor(outer);
+		controller.removeCommandInterceptor(inner);
+		controller.removeCommand("InterceptorTest");
+
+		expect(vo.result).toBe(6);
+		expect(calls).toEqual(["outer before", "inner true", "outer after"]);
+	});
+
+	it("Interceptor Veto and Rewrite", async () =>
+	{
+		const veto: ICommandInterceptor = {
+			intercept: async (notification, next) =>
+			{
+				if (notification.getType() !== "denied")
+					await next();
+			}
+		};
+
+		const rewrite: ICommandInterceptor = {
+			intercept: async (notification, next) =>
+				next(new Notification(notification.getName(), new ControllerTestVO(100)))
+		};
+
+		controller.registerCommand("InterceptorTest", ControllerTestCommand);
+		controller.addCommandInterceptor(veto);
+
+		const denied = new ControllerTestVO(1);
+		await controller.executeCommand(new Notification("InterceptorTest", denied, "denied"));
+
+		expect(denied.result).toBe(0);
+
+		controller.addCommandInterceptor(rewrite);
+
+		const original = new ControllerTestVO(1);
+		await controller.executeCommand(new Notification("InterceptorTest", original));
+
+		controller.removeCommandInterceptor(veto);
+		controller.removeCommandInterceptor(rewrite);
+		controller.removeCommand("InterceptorTest");
+
+		// The command received the replacement notification
+		expect(original.result).toBe(0);
+	});
+
+	it("Interceptor Catches Errors", async () =>
+	{
+		const errors: unknown[] = [];
+
+		const guard: ICommandInterceptor = {
+			intercept: async (notification, next) =>
+			{
+				try
+				{
+					await next();
+				}
+				catch (error)
+				{
+					errors.push(error);
+				}
+			}
+		};
+
+		controller.registerCommand("InterceptorTest", ControllerTestFailingCommand);
+		controller.addCommandInterceptor(guard);
+
+		await controller.executeCommand(new Notification("InterceptorTest"));
+
+		controller.removeCommandInterceptor(guard);
+		controller.removeCommand("InterceptorTest");
+
+		expect(errors.length).toBe(1);
+		expect((errors[0] as Error).message).toBe("failed");
+	});
+
+	it("Retries With Exponential Backoff", async () =>
+	{
+		const clock = new FakeClock();
+		const retries: ICommandFailure[] = [];
+		const observer = new Observer((notification: INotification<ICommandFailure>) => { retries.push(notification.getBody()); }, retries);
+
+		controller.setClock(clock);
+		controller.registerCommand("PolicyTest", ControllerTestFlakyCommand, 0, { maxAttempts: 3, backoff: 100 });
+		View.getInstance().registerObserver(Controller.COMMAND_RETRY, observer);
+
+		ControllerTestFlakyCommand.failures = 2;
+		const notification = new Notification("PolicyTest");
+		const executed = controller.executeCommand(notification);
+
+		await clock.tick(100);
+
+		expect(retries.map(({ attempt, delay }) => [attempt, delay])).toEqual([[1, 100], [2, 200]]);
+		expect(notification.hasReply()).toBe(false);
+
+		await clock.tick(200);
+		await executed;
+
+		View.getInstance().removeObserver(Controller.COMMAND_RETRY, retries);
+		controller.removeCommand("PolicyTest");
+
+		expect(retries[0].commandClass).toBe(ControllerTestFlakyCommand);
+		expect(retries[0].notification).toBe(notification);
+		expect(notification.getReply()).toBe("loaded");
+		expect(clock.now()).toBe(300);
+	});
+
+	it("Times Out Attempts and Reports the Final Failure", async () =>
+	{
+		const clock = new FakeClock();
+		const failures: ICommandFailure[] = [];
+		const observer = new Observer((notification: INotification<ICommandFailure>) => { failures.push(notification.getBody()); }, failures);
+
+		controller.setClock(clock);
+		controller.registerCommand("PolicyTest", ControllerTestEndlessCommand, 0, { timeout: 50 });
+		View.getInstance().registerObserver(Controller.COMMAND_FAILED, observer);
+
+		const executed = expect(controller.executeCommand(new Notification("PolicyTest"))).rejects.toThrow(Controller.TIMEOUT_MSG + "ControllerTestEndlessCommand");
+
+		await clock.tick(50);
+		await executed;
+
+		View.getInstance().removeObserver(Controller.COMMAND_FAILED, failures);
+		controller.removeCommand("PolicyTest");
+
+		expect(failures.length).toBe(1);
+		expect(failures[0].attempt).toBe(1);
+		expect(clock.getPendingTimers()).toBe(0);
+	});
+
+	it("Retry If, Maximum Backoff and Jitter", async () =>
+	{
+		const clock = new FakeClock(1);
+		const retries: number[] = [];
+		const observer = new Observer((notification: INotification<ICommandFailure>) => { retries.push(notification.getBody().delay); }, retries);
+
+		controller.setClock(clock);
+		controller.registerCommand("PolicyTest", ControllerTestFlakyCommand, 0, {
+			maxAttempts: 5,
+			backoff: 100,
+			backoffFactor: 10,
+			maxBackoff: 500,
+			jitter: 0.5,
+			retryIf: (error, attempt) => attempt < 3
+		});
+		View.getInstance().registerObserver(Controller.COMMAND_RETRY, observer);
+
+		ControllerTestFlakyCommand.failures = 5;
+		const executed = expect(controller.executeCommand(new Notification("PolicyTest"))).rejects.toThrow("unavailable");
+
+		await clock.tick(1000);
+		await executed;
+
+		View.getInstance().removeObserver(Controller.COMMAND_RETRY, retries);
+		controller.removeCommand("PolicyTest");
+
+		expect(retries).toEqual([150, 750]);
+		expect(ControllerTestFlakyCommand.failures).toBe(2);
+	});
+
+	it("Aborts the Signal of Timed Out Attempts", async () =>
+	{
+		const clock = new FakeClock();
+		const notification = new Notification("PolicyTest");
+
+		controller.setClock(clock);
+		controller.registerCommand("PolicyTest", ControllerTestCancellableCommand, 0, { maxAttempts: 2, timeout: 50 });
+
+		ControllerTestCancellableCommand.signals = [];
+		const executed = expect(controller.executeCommand(notification)).rejects.toThrow(Controller.TIMEOUT_MSG + "ControllerTestCancellableCommand");
+
+		await clock.tick(50);
+
+		expect(ControllerTestCancellableCommand.signals.length).toBe(2);
+		expect(ControllerTestCancellableCommand.signals[0].aborted).toBe(true);
+		expect(ControllerTestCancellableCommand.signals[1].aborted).toBe(false);
+
+		await clock.tick(50);
+		await executed;
+
+		controller.removeCommand("PolicyTest");
+
+		expect(ControllerTestCancellableCommand.signals[1].aborted).toBe(true);
+		expect(notification.getSignal().aborted).toBe(false);
+		expect(clock.getPendingTimers()).toBe(0);
+	});
+
+	it("Stops Retrying When Aborted During the Backoff", async () =>
+	{
+		const clock = new FakeClock();
+		const failures: ICommandFailure[] = [];
+		const observer = new Observer((notification: INotification<ICommandFailure>) => { failures.push(notification.getBody()); }, failures);
+
+		controller.setClock(clock);
+		controller.registerCommand("PolicyTest", ControllerTestFlakyCommand, 0, { maxAttempts: 3, backoff: 100 });
+		View.getInstance().registerObserver(Controller.COMMAND_FAILED, observer);
+
+		ControllerTestFlakyCommand.failures = 3;
+		const notification = new Notification("PolicyTest");
+		const executed = expect(controller.executeCommand(notification)).rejects.toThrow("unavailable");
+
+		await clock.tick(50);
+		notification.abort();
+		await executed;
+
+		View.getInstance().removeObserver(Controller.COMMAND_FAILED, failures);
+		controller.removeCommand("PolicyTest");
+
+		expect(ControllerTestFlakyCommand.failures).toBe(2);
+		expect(failures.map(({ attempt }) => attempt)).toEqual([1]);
+		expect(clock.getPendingTimers()).toBe(0);
+		expect(clock.now()).toBe(50);
+	});
 });
 
 
@@ -128,6 +436,47 @@ class ControllerTestCommand2 extends SimpleCommand
 	}
 }
 
+class ControllerTestFailingCommand extends SimpleCommand
+{
+	public async execute(notification: INotification): Promise<void>
+	{
+		throw new Error("failed");
+	}
+}
+
+class ControllerTestFlakyCommand extends SimpleCommand
+{
+	public static failures: number;
+
+	public async execute(notification: INotification): Promise<string>
+	{
+		if (ControllerTestFlakyCommand.failures-- > 0)
+			throw new Error("unavailable");
+
+		return "loaded";
+	}
+}
+
+class ControllerTestEndlessCommand extends SimpleCommand
+{
+	public execute(notification: INotification): Promise<void>
+	{
+		return new Promise(() => {});
+	}
+}
+
+class ControllerTestCancellableCommand extends SimpleCommand
+{
+	public static signals: AbortSignal[];
+
+	public execute(notification: INotification): Promise<void>
+	{
+		ControllerTestCancellableCommand.signals.push(this.getSignal());
+
+		return new Promise(() => {});
+	}
+}
+
 class ControllerTestVO
 {
 	#input: number;
@@ -0,0 +1,101 @@
+import { Facade, IFacade, INotification, ISpan, Instrumentation, Mediator, Notification, SimpleCommand, View } from "puremvc";
+
+describe("Instrumentation Test", () =>
+{
+	let facade: IFacade;
+	let started: ISpan[];
+	let ended: ISpan[];
+
+	const listener = {
+		spanStarted: (span: ISpan) => started.push(span),
+		spanEnded: (span: ISpan) => ended.push(span)
+	};
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("InstrumentationTest");
+		started = [];
+		ended = [];
+
+		facade.registerMediator(new InstrumentationTestMediator());
+		facade.registerCommand("save", InstrumentationTestCommand, 1);
+		facade.addSpanListener(listener);
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("InstrumentationTest");
+	});
+
+	it("Emits a Span per Observer and Command", async () =>
+	{
+		const notification = await notify("save", 10);
+
+		expect(started.map((span) => [span.category, span.name])).toEqual([
+			[Instrumentation.OBSERVER, "Controller"],
+			[Instrumentation.COMMAND, "InstrumentationTestCommand"],
+			[Instrumentation.OBSERVER, "InstrumentationTestMediator"]
+		]);
+		expect(ended.map((span) => span.name)).toEqual(["InstrumentationTestCommand", "Controller", "InstrumentationTestMediator"]);
+
+		const command = ended[0];
+
+		expect(command.notification).toBe(notification);
+		expect(command.multitonKey).toBe("InstrumentationTest");
+		expect(command.duration).toBeGreaterThanOrEqual(5);
+		expect(command.end).toBe(command.start + command.duration);
+		expect(command.error).toBeUndefined();
+	});
+
+	it("Records Errors", async () =>
+	{
+		await expect(notify("save", -1)).rejects.toThrow("negative delay");
+
+		expect(ended.map((span) => [span.name, (span.error as Error)?.message])).toEqual([
+			["InstrumentationTestCommand", "negative delay"],
+			["Controller", "negative delay"]
+		]);
+	});
+
+	it("Stops Emitting Once Removed", async () =>
+	{
+		facade.removeSpanListener(listener);
+
+		await notify("save", 0);
+
+		expect(started).toEqual([]);
+		expect(ended).toEqual([]);
+	});
+
+	async function notify(name: string, delay: number): Promise<INotification>
+	{
+		const notification = new Notification(name, delay);
+		await View.getInstance("InstrumentationTest").notifyObservers(notification);
+
+		return notification;
+	}
+});
+
+class InstrumentationTestCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification<number>): Promise<void>
+	{
+		if (notification.getBody() < 0)
+			throw new Error("negative delay");
+
+		await new Promise((resolve) => setTimeout(resolve, notification.getBody()));
+	}
+}
+
+class InstrumentationTestMediator extends Mediator
+{
+	constructor()
+	{
+		super("InstrumentationTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["save"];
+	}
+}
@@ -1,4 +1,4 @@
-import { Model, IModel, Proxy, IProxy } from "puremvc";
+import { Model, IModel, Proxy, IProxy, INotification, Observer, View } from "puremvc";
 
 describe("Model Test", () =>
 {
@@ -58,6 +58,21 @@ describe("Model Test", () =>
 		expect(model.hasProxy("aces")).toBe(false);
 	});
 
+	it("List Proxy Names", () =>
+	{
+		model.registerProxy(new Proxy("kings"));
+		model.registerProxy(new Proxy("queens"));
+
+		expect(model.listProxyNames()).toEqual(expect.arrayContaining(["kings", "queens"]));
+
+		model.removeProxy("kings");
+
+		expect(model.listProxyNames()).toContain("queens");
+		expect(model.listProxyNames()).not.toContain("kings");
+
+		model.removeProxy("queens");
+	});
+
 	it ("OnRegister and OnRemove", () =>
 	{
 		const proxy = new ModelTestProxy();
@@ -70,6 +85,96 @@ describe("Model Test", () =>
 		expect(proxy.getData()).toBe(ModelTestProxy.ON_REMOVE_CALLED);
 	});
 
+	it("Async OnRegister and OnRemove", async () =>
+	{
+		const calls: string[] = [];
+		const proxy = new ModelTestAsyncProxy(calls);
+
+		await model.registerProxyAsync(proxy);
+
+		expect(calls).toEqual(["registered"]);
+
+		expect(await model.removeProxyAsync(ModelTestAsyncProxy.NAME)).toBe(proxy);
+		expect(calls).toEqual(["registered", "removed"]);
+	});
+
+	it("Dispose Awaits OnRemove", async () =>
+	{
+		const calls: string[] = [];
+		const disposable = Model.getInstance("ModelTestDispose");
+
+		disposable.registerProxy(new ModelTestAsyncProxy(calls));
+		disposable.registerProxy(new ModelTestAsyncProxy(calls, "failing", true));
+
+		await expect(disposable.dispose()).rejects.toBeInstanceOf(AggregateError);
+
+		expect(calls).toEqual(["registered", "registered", "removed"]);
+		expect(Model.getInstance("ModelTestDispose")).not.toBe(disposable);
+
+		await Model.removeModel("ModelTestDispose");
+	});
+
+	it("Snapshot and Restore", async () =>
+	{
+		const user = new Proxy("snapshotUser", { name: "ada", tags: ["admin"] });
+		const cart = new Proxy("snapshotCart", [1, 2]);
+
+		model.registerProxy(user);
+		model.registerProxy(cart);
+
+		const snapshot = model.snapshot(["snapshotUser", "snapshotCart"]);
+
+		user.getData().tags.push("owner");
+		user.setData({ name: "grace", tags: [] });
+		cart.setData([]);
+
+		expect(snapshot).toEqual({ snapshotUser: { name: "ada", tags: ["admin"] }, snapshotCart: [1, 2] });
+
+		await model.restore(snapshot);
+
+		expect(user.getData()).toEqual({ name: "ada", tags: ["admin"] });
+		expect(cart.getData()).toEqual([1, 2]);
+
+		// The snapshot is copied, so it can be restored again
+		user.getData().tags.push("owner");
+		await model.restore(snapshot);
+
+		expect(user.getData().tags).toEqual(["admin"]);
+
+		model.removeProxy("snapshotUser");
+		model.removeProxy("snapshotCart");
+	});
+
+	it("Snapshot Selected Proxies", async () =>
+	{
+		model.registerProxy(new Proxy("snapshotA", "a"));
+		model.registerProxy(new Proxy("snapshotB", "b"));
+
+		expect(model.snapshot(["snapshotB", "unknown"])).toEqual({ snapshotB: "b" });
+
+		// Restoring proxies no longer registered is ignored
+		await expect(model.restore({ snapshotA: "A", removed: 1 })).resolves.toBeUndefined();
+		expect(model.retrieveProxy("snapshotA").getData()).toBe("A");
+
+		model.removeProxy("snapshotA");
+		model.removeProxy("snapshotB");
+	});
+
+	it("Reports Rejected Hooks", async () =>
+	{
+		const failures: INotification[] = [];
+		View.getInstance().registerObserver(Model.HOOK_FAILED, new Observer((notification: INotification) => { failures.push(notification); }, failures));
+
+		model.registerProxy(new ModelTestAsyncProxy([], "failingProxy", true));
+		model.removeProxy("failingProxy");
+
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		View.getInstance().removeObserver(Model.HOOK_FAILED, failures);
+
+		expect(failures.length).toBe(1);
+		expect(failures[0].getType()).toBe("failingProxy");
+		expect((failures[0].getBody() as Error).message).toBe("cannot close");
+	});
 });
 
 
@@ -115,4 +220,30 @@ class ModelTestProxy extends Proxy
 	 * @constant
 	 */
 	public static ON_REMOVE_CALLED:string = 'onRemove Called';
+}
+
+class ModelTestAsyncProxy extends Proxy<string[]>
+{
+	constructor(calls: string[], name: string = ModelTestAsyncProxy.NAME, private failing: boolean = false)
+	{
+		super(name, calls);
+	}
+
+	public override async onRegister(): Promise<void>
+	{
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		this.getData().push("registered");
+	}
+
+	public override async onRemove(): Promise<void>
+	{
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		if (this.failing)
+			throw new Error("cannot close");
+
+		this.getData().push("removed");
+	}
+
+	public static NAME: string = "ModelTestAsyncProxy";
 }
\ No newline at end of file
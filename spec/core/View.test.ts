@@ -1,4 +1,4 @@
-import { View, IView, Observer, Notification, INotification, Mediator, IMediator } from "puremvc";
+import { View, IView, Observer, Notification, INotification, Mediator, IMediator, IObserver, IObserverError, NotificationInterest } from "puremvc";
 
 describe("Model Test", () =>
 {
@@ -53,6 +53,25 @@ describe("Model Test", () =>
 		expect(view.hasMediator("hasMediatorTest")).toBe(false);
 	});
 
+	it("List Mediators and Observers", async () =>
+	{
+		const listed = View.getInstance("ViewTestList");
+		listed.registerMediator(new ViewTestMediator(undefined));
+		listed.registerObserver("ABC", new Observer(() => {}, { name: "context" }, 5));
+		listed.registerObserver("view/*", new Observer(() => {}, new ViewTestNote("", undefined)));
+
+		expect(listed.listMediatorNames()).toEqual([ViewTestMediator.NAME]);
+		expect(listed.listMediators()).toEqual([{ mediatorName: ViewTestMediator.NAME, interests: ["ABC", "DEF", "GHI"] }]);
+		expect(listed.listObservers()).toEqual([
+			{ interest: "ABC", observers: [{ name: "Object", priority: 5 }, { name: ViewTestMediator.NAME, priority: 0 }] },
+			{ interest: "DEF", observers: [{ name: ViewTestMediator.NAME, priority: 0 }] },
+			{ interest: "GHI", observers: [{ name: ViewTestMediator.NAME, priority: 0 }] },
+			{ interest: "view/*", observers: [{ name: "ViewTestNote", priority: 0 }] }
+		]);
+
+		await View.removeView("ViewTestList");
+	});
+
 	it("Register and Remove Mediator", () =>
 	{
 		const mediator = new Mediator("testing", {});
@@ -83,6 +102,222 @@ describe("Model Test", () =>
 
 		expect(viewable.onRemoveCalled).toBe(true);
 	});
+
+	it("Observer Priority", async () =>
+	{
+		const calls: string[] = [];
+
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("default"), "default"));
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("low"), "low", -1));
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("high"), "high", 10));
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("default 2"), "default 2"));
+
+		await view.notifyObservers(new Notification("PriorityTest"));
+
+		["default", "low", "high", "default 2"].forEach((context) => view.removeObserver("PriorityTest", context));
+
+		expect(calls).toEqual(["high", "default", "default 2", "low"]);
+	});
+
+	it("Mediator Priority", async () =>
+	{
+		const calls: string[] = [];
+
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("observer"), "observer"));
+		view.registerMediator(new ViewTestPriorityMediator(calls));
+
+		await view.notifyObservers(new Notification("PriorityTest"));
+
+		view.removeObserver("PriorityTest", "observer");
+		view.removeMediator(ViewTestPriorityMediator.NAME);
+
+		expect(calls).toEqual([ViewTestPriorityMediator.NAME, "observer"]);
+	});
+
+	it("Observers Without a Priority", async () =>
+	{
+		const calls: string[] = [];
+		const custom: IObserver = {
+			setNotifyMethod: () => {},
+			setNotifyContext: () => {},
+			notifyObserver: async () => { calls.push("custom"); },
+			compareNotifyContext: (object) => object === "custom"
+		};
+
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("low"), "low", -1));
+		view.registerObserver("PriorityTest", custom);
+		view.registerObserver("PriorityTest", new Observer(() => calls.push("high"), "high", 1));
+
+		await view.notifyObservers(new Notification("PriorityTest"));
+
+		["low", "custom", "high"].forEach((context) => view.removeObserver("PriorityTest", context));
+
+		expect(calls).toEqual(["high", "custom", "low"]);
+	});
+
+	it("Pattern Observers", async () =>
+	{
+		const calls: string[] = [];
+
+		view.registerObserver("user/*", new Observer((note: INotification) => calls.push("glob " + note.getName()), "glob"));
+		view.registerObserver(/^user\/.+\/failure$/, new Observer((note: INotification) => calls.push("regexp " + note.getName()), "regexp"));
+		view.registerObserver("user/login/success", new Observer(() => calls.push("exact"), "exact"));
+
+		await view.notifyObservers(new Notification("user/login/success"));
+		await view.notifyObservers(new Notification("user/login/failure"));
+		await view.notifyObservers(new Notification("admin/login/success"));
+
+		view.removeObserver("user/*", "glob");
+		view.removeObserver(/^user\/.+\/failure$/, "regexp");
+		view.removeObserver("user/login/success", "exact");
+
+		await view.notifyObservers(new Notification("user/login/failure"));
+
+		expect(calls).toEqual([
+			"exact",
+			"glob user/login/success",
+			"glob user/login/failure",
+			"regexp user/login/failure"
+		]);
+	});
+
+	it("Pattern Mediator", async () =>
+	{
+		const calls: string[] = [];
+
+		view.registerMediator(new ViewTestPatternMediator(calls));
+
+		await view.notifyObservers(new Notification("cart/add"));
+		await view.notifyObservers(new Notification("cart/remove"));
+
+		view.removeMediator(ViewTestPatternMediator.NAME);
+
+		await view.notifyObservers(new Notification("cart/add"));
+
+		expect(calls).toEqual(["cart/add", "cart/remove"]);
+	});
+
+	it("Error Policy Stop", async () =>
+	{
+		const calls: string[] = [];
+
+		view.registerObserver("ErrorTest", new Observer(() => { throw new Error("broken"); }, "first"));
+		view.registerObserver("ErrorTest", new Observer(() => calls.push("second"), "second"));
+
+		await expect(view.notifyObservers(new Notification("ErrorTest"))).rejects.toThrow("broken");
+
+		view.removeObserver("ErrorTest", "first");
+		view.removeObserver("ErrorTest", "second");
+
+		expect(view.getErrorPolicy()).toBe(View.ERROR_POLICY_STOP);
+		expect(calls).toEqual([]);
+	});
+
+	it("Error Policy Collect", async () =>
+	{
+		const calls: string[] = [];
+
+		view.setErrorPolicy(View.ERROR_POLICY_COLLECT);
+		view.registerObserver("ErrorTest", new Observer(() => { throw new Error("first"); }, "first"));
+		view.registerObserver("ErrorTest", new Observer(() => calls.push("second"), "second"));
+		view.registerObserver("ErrorTest", new Observer(() => { throw new Error("third"); }, "third"));
+
+		let caught: AggregateError;
+
+		try
+		{
+			await view.notifyObservers(new Notification("ErrorTest"));
+		}
+		catch (error)
+		{
+			caught = error as AggregateError;
+		}
+
+		view.setErrorPolicy(View.ERROR_POLICY_STOP);
+		["first", "second", "third"].forEach((context) => view.removeObserver("ErrorTest", context));
+
+		expect(calls).toEqual(["second"]);
+		expect(caught).toBeInstanceOf(AggregateError);
+		expect(caught.errors.map((error: Error) => error.message)).toEqual(["first", "third"]);
+	});
+
+	it("Error Policy Report", async () =>
+	{
+		const calls: string[] = [];
+		const reports: IObserverError[] = [];
+
+		const failing = new Observer(() => { throw new Error("broken"); }, "first");
+
+		view.setErrorPolicy(View.ERROR_POLICY_REPORT);
+		view.registerObserver("ErrorTest", failing);
+		view.registerObserver("ErrorTest", new Observer(() => calls.push("second"), "second"));
+		view.registerObserver(View.OBSERVER_ERROR, new Observer((notification: INotification<IObserverError>) =>
+			reports.push(notification.getBody()), "reporter"));
+
+		const notification = new Notification("ErrorTest");
+		await view.notifyObservers(notification);
+
+		view.setErrorPolicy(View.ERROR_POLICY_STOP);
+		view.removeObserver("ErrorTest", "first");
+		view.removeObserver("ErrorTest", "second");
+		view.removeObserver(View.OBSERVER_ERROR, "reporter");
+
+		expect(calls).toEqual(["second"]);
+		expect(reports.length).toBe(1);
+		expect(reports[0].observer).toBe(failing);
+		expect(reports[0].notification).toBe(notification);
+		expect((reports[0].error as Error).message).toBe("broken");
+	});
+
+	it("Rejects Unknown Error Policies", () =>
+	{
+		expect(() => view.setErrorPolicy("ignore")).toThrow(View.ERROR_POLICY_MSG + "ignore");
+		expect(view.getErrorPolicy()).toBe(View.ERROR_POLICY_STOP);
+	});
+
+	it("Async OnRegister and OnRemove", async () =>
+	{
+		const calls: string[] = [];
+		const mediator = new ViewTestAsyncMediator(calls);
+
+		await view.registerMediatorAsync(mediator);
+
+		expect(calls).toEqual(["registered"]);
+
+		await view.removeMediatorAsync(ViewTestAsyncMediator.NAME);
+
+		expect(calls).toEqual(["registered", "removed"]);
+		expect(view.hasMediator(ViewTestAsyncMediator.NAME)).toBe(false);
+	});
+
+	it("Dispose Awaits OnRemove", async () =>
+	{
+		const calls: string[] = [];
+		const disposable = View.getInstance("ViewTestDispose");
+
+		disposable.registerMediator(new ViewTestAsyncMediator(calls));
+		await disposable.dispose();
+
+		expect(calls).toEqual(["registered", "removed"]);
+		expect(View.getInstance("ViewTestDispose")).not.toBe(disposable);
+
+		await View.removeView("ViewTestDispose");
+	});
+
+	it("Reports Rejected Hooks", async () =>
+	{
+		const failures: INotification[] = [];
+		view.registerObserver(View.HOOK_FAILED, new Observer((notification: INotification) => { failures.push(notification); }, failures));
+
+		view.registerMediator(new ViewTestFailingMediator());
+		view.removeMediator(ViewTestFailingMediator.NAME);
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		view.removeObserver(View.HOOK_FAILED, failures);
+
+		expect(failures.map((notification) => notification.getType())).toEqual([ViewTestFailingMediator.NAME, ViewTestFailingMediator.NAME]);
+		expect(failures.map((notification) => (notification.getBody() as Error).message)).toEqual(["cannot open", "cannot close"]);
+	});
 });
 
 class ViewTestNote
@@ -209,4 +444,91 @@ class ViewTestMediator4 extends Mediator
 	 * @constant
 	 */
 	public static NAME:string = 'ViewTestMediator4';
+}
+
+class ViewTestPriorityMediator extends Mediator
+{
+	constructor( calls:string[] )
+	{
+		super( ViewTestPriorityMediator.NAME, calls );
+	}
+
+	public override listNotificationInterests():string[]
+	{
+		return [ 'PriorityTest' ];
+	}
+
+	public override getNotificationPriority():number
+	{
+		return 5;
+	}
+
+	public override async handleNotification( notification:INotification ):Promise<void>
+	{
+		( this.viewComponent as string[] ).push( ViewTestPriorityMediator.NAME );
+	}
+
+	public static NAME:string = 'ViewTestPriorityMediator';
+}
+
+class ViewTestPatternMediator extends Mediator
+{
+	constructor( calls:string[] )
+	{
+		super( ViewTestPatternMediator.NAME, calls );
+	}
+
+	public override listNotificationInterests():NotificationInterest[]
+	{
+		return [ 'cart/*' ];
+	}
+
+	public override async handleNotification( notification:INotification ):Promise<void>
+	{
+		( this.viewComponent as string[] ).push( notification.getName() );
+	}
+
+	public static NAME:string = 'ViewTestPatternMediator';
+}
+
+class ViewTestFailingMediator extends Mediator
+{
+	constructor()
+	{
+		super( ViewTestFailingMediator.NAME );
+	}
+
+	public override async onRegister():Promise<void>
+	{
+		throw new Error( 'cannot open' );
+	}
+
+	public override async onRemove():Promise<void>
+	{
+		throw new Error( 'cannot close' );
+	}
+
+	public static NAME:string = 'ViewTestFailingMediator';
+}
+
+class ViewTestAsyncMediator extends Mediator
+{
+	constructor( calls:string[] )
+	{
+		super( ViewTestAsyncMediator.NAME, calls );
+	}
+
+	public override async onRegister():Promise<void>
+	{
+		await new Promise( ( resolve ) => setTimeout( resolve, 5 ) );
+		( this.viewComponent as string[] ).push( 'registered' );
+	}
+
+	public override async onRemove():Promise<void>
+	{
+		await new Promise( ( resolve ) => setTimeout( resolve, 5 ) );
+		( this.viewComponent as string[] ).push( 'removed' );
+	}
+
+	public static NAME:string = 'ViewTestAsyncMediator';
 }
\ No newline at end of file
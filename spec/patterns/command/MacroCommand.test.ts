@@ -0,0 +1,475 @@
+import { ContextKey, Facade, IFacade, IMacroCommandContext, IMacroCommandResult, MacroCommand, MacroCommandContext, MacroCommandError, SimpleCommand, Notification, INotification } from "puremvc";
+
+describe("MacroCommand Test", () =>
+{
+	let facade: IFacade;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("MacroCommandTest");
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("MacroCommandTest");
+	});
+
+	it("Execute", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+
+		const command = new MacroCommandTestCommand();
+		await command.execute(new Notification("MacroCommandTest", vo));
+
+		expect(vo.result1).toBe(10);
+		expect(vo.result2).toBe(25);
+	});
+
+	it("Execute Sequentially", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+
+		const command = new MacroCommandTestCommand(true);
+		await command.execute(new Notification("MacroCommandTest", vo));
+
+		expect(vo.result1).toBe(10);
+		expect(vo.result2).toBe(25);
+	});
+
+	it("Stops Launching SubCommands Once Aborted", async () =>
+	{
+		facade.registerCommand("MacroCommandAbortTest", MacroCommandAbortTestCommand);
+
+		const vo = new MacroCommandTestVO(5);
+		const notification = new Notification("MacroCommandAbortTest", vo);
+
+		MacroCommandAbortSubCommand.onExecute = () => facade.abortCommands(notification, "cancelled");
+
+		await facade.notifyObservers(notification);
+
+		expect(notification.getSignal().aborted).toBe(true);
+		expect(notification.getSignal().reason).toBe("cancelled");
+		expect(vo.result1).toBe(0);
+		expect(vo.result2).toBe(0);
+	});
+
+	it("Aborted Notifications Do Not Start Commands", async () =>
+	{
+		facade.registerCommand("MacroCommandTest", MacroCommandTestCommand);
+
+		const vo = new MacroCommandTestVO(5);
+		const notification = new Notification("MacroCommandTest", vo);
+
+		notification.abort();
+		await facade.notifyObservers(notification);
+
+		expect(vo.result1).toBe(0);
+	});
+
+	it("Reports SubCommand Outcomes", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+
+		const result = await new MacroCommandTestCommand().execute(new Notification("MacroCommandTest", vo));
+
+		expect(result).toEqual({
+			outcomes: [
+				{ commandClass: MacroCommandTestSub1Command, status: "fulfilled" },
+				{ commandClass: MacroCommandTestSub2Command, status: "fulfilled", value: 25 }
+			],
+			failed: false
+		});
+	});
+
+	it("Fails Fast by Default When Sequential", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+		const command = new MacroCommandFailureTestCommand(true);
+
+		expect(command.getFailurePolicy()).toBe(MacroCommand.FAIL_FAST);
+
+		const error: MacroCommandError = await command.execute(new Notification("MacroCommandTest", vo)).catch((error) => error);
+
+		expect(error).toBeInstanceOf(MacroCommandError);
+		expect(error.message).toBe(MacroCommand.FAILED_MSG + "MacroCommandFailureTestCommand");
+		expect(error.errors).toEqual([new Error("failed")]);
+		expect(error.getResult().outcomes.map(({ status }) => status)).toEqual(["fulfilled", "rejected", "skipped"]);
+		expect(vo.result2).toBe(0);
+	});
+
+	it("Continues on Error by Default When Parallel", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+		const command = new MacroCommandFailureTestCommand();
+
+		expect(command.getFailurePolicy()).toBe(MacroCommand.CONTINUE_ON_ERROR);
+
+		const result = await command.execute(new Notification("MacroCommandTest", vo));
+
+		expect(result.failed).toBe(true);
+		expect(result.outcomes[1]).toEqual({ commandClass: MacroCommandFailingSubCommand, status: "rejected", error: new Error("failed") });
+		expect(vo.result2).toBe(25);
+	});
+
+	it("Collects All Failures", async () =>
+	{
+		const vo = new MacroCommandTestVO(5);
+		const command = new MacroCommandFailureTestCommand(true, MacroCommand.COLLECT_ALL);
+
+		const error: MacroCommandError = await command.execute(new Notification("MacroCommandTest", vo)).catch((error) => error);
+
+		expect(error.getResult().outcomes.map(({ status }) => status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+		expect(vo.result2).toBe(25);
+
+		command.setFailurePolicy(MacroCommand.CONTINUE_ON_ERROR);
+
+		await expect(command.execute(new Notification("MacroCommandTest", vo))).resolves.toHaveProperty("failed", true);
+	});
+
+	it("Rejects Unknown Failure Policies", () =>
+	{
+		expect(() => new MacroCommandFailureTestCommand(true, "failfast")).toThrow(MacroCommand.FAILURE_POLICY_MSG + "failfast");
+
+		const command = new MacroCommandFailureTestCommand(true);
+
+		expect(() => command.setFailurePolicy("ignore")).toThrow(MacroCommand.FAILURE_POLICY_MSG + "ignore");
+		expect(command.getFailurePolicy()).toBe(MacroCommand.FAIL_FAST);
+	});
+
+	it("Replies With the Result and Rejects Partial Failures", async () =>
+	{
+		facade.registerCommand("MacroCommandTest", MacroCommandTestCommand);
+		facade.registerCommand("MacroCommandFailureTest", MacroCommandFailureTestCommand);
+		facade.registerCommand("MacroCommandSequentialFailureTest", MacroCommandSequentialFailureTestCommand);
+
+		const result = await facade.request<IMacroCommandResult>("MacroCommandTest", new MacroCommandTestVO(5));
+
+		expect(result.failed).toBe(false);
+		expect(result.outcomes).toHaveLength(2);
+
+		await expect(facade.request("MacroCommandFailureTest", new MacroCommandTestVO(5))).resolves.toHaveProperty("failed", true);
+		await expect(facade.sendNotification("MacroCommandSequentialFailureTest", new MacroCommandTestVO(5))).rejects.toBeInstanceOf(MacroCommandError);
+	});
+
+	it("Runs Conditional SubCommands and Branches", async () =>
+	{
+		const command = new MacroCommandConditionTestCommand();
+
+		const large = new MacroCommandTestVO(5);
+		const largeResult = await command.execute(new Notification("MacroCommandTest", large));
+
+		expect(largeResult.outcomes.map(({ commandClass, status }) => [commandClass, status])).toEqual([
+			[MacroCommandTestSub1Command, "fulfilled"],
+			[MacroCommandTestSub2Command, "fulfilled"],
+			[MacroCommandDoubleCommand, "skipped"],
+			[MacroCommandFailingSubCommand, "skipped"]
+		]);
+		expect(large.result2).toBe(25);
+
+		const small = new MacroCommandTestVO(1);
+		const smallResult = await command.execute(new Notification("MacroCommandTest", small));
+
+		expect(smallResult.outcomes.map(({ status }) => status)).toEqual(["fulfilled", "skipped", "fulfilled", "skipped"]);
+		expect(small.result1).toBe(4);
+		expect(small.result2).toBe(0);
+		expect(command.getSubCommands()).toEqual([MacroCommandTestSub1Command, MacroCommandTestSub2Command, MacroCommandDoubleCommand, MacroCommandFailingSubCommand]);
+	});
+
+	it("Runs Groups in Parallel Within a Sequential MacroCommand", async () =>
+	{
+		const order: string[] = [];
+		MacroCommandOrderSubCommand.order = order;
+
+		const result = await new MacroCommandGroupTestCommand().execute(new Notification("MacroCommandTest", new MacroCommandTestVO(5)));
+
+		expect(result.failed).toBe(false);
+		expect(order).toEqual(["start", "slow:start", "fast:start", "fast:end", "slow:end", "end"]);
+	});
+
+	it("Reports Failing Conditions", async () =>
+	{
+		const command = new MacroCommandFailingConditionTestCommand();
+
+		const error: MacroCommandError = await command.execute(new Notification("MacroCommandTest", new MacroCommandTestVO(5))).catch((error) => error);
+
+		expect(error.getResult().outcomes.map(({ status }) => status)).toEqual(["rejected", "skipped"]);
+		expect(error.errors).toEqual([new Error("no condition")]);
+	});
+
+	it("Context Stores Values Under Typed Keys", () =>
+	{
+		const context = new MacroCommandContext();
+		const count = new ContextKey<number>("count", 0);
+		const sameName = new ContextKey<number>("count");
+
+		expect(count.getName()).toBe("count");
+		expect(context.get(count)).toBe(0);
+		expect(context.has(count)).toBe(false);
+
+		context.set(count, 3);
+
+		expect(context.get(count)).toBe(3);
+		expect(context.has(sameName)).toBe(false);
+		expect(context.delete(count)).toBe(true);
+		expect(context.get(count)).toBe(0);
+	});
+
+	it("Passes Data Between Sequential SubCommands", async () =>
+	{
+		facade.registerCommand("MacroCommandContextTest", MacroCommandContextTestCommand);
+
+		const first = await facade.request<IMacroCommandResult>("MacroCommandContextTest", 5);
+		const second = await facade.request<IMacroCommandResult>("MacroCommandContextTest", 2);
+
+		expect(first.value).toBe(100);
+		expect(first.outcomes.map(({ status }) => status)).toEqual(["fulfilled", "fulfilled", "fulfilled", "skipped"]);
+		expect(second.value).toBe(24);
+		expect(second.outcomes.map(({ status }) => status)).toEqual(["fulfilled", "fulfilled", "skipped", "fulfilled"]);
+	});
+});
+
+class MacroCommandTestVO
+{
+	public result1: number = 0;
+
+	public result2: number = 0;
+
+	constructor(public input: number)
+	{
+
+	}
+}
+
+class MacroCommandTestSub1Command extends SimpleCommand
+{
+	public override async execute(notification: INotification<MacroCommandTestVO>): Promise<void>
+	{
+		const vo = notification.getBody();
+		vo.result1 = 2 * vo.input;
+	}
+}
+
+class MacroCommandTestSub2Command extends SimpleCommand
+{
+	public override async execute(notification: INotification<MacroCommandTestVO>): Promise<number>
+	{
+		const vo = notification.getBody();
+		vo.result2 = vo.input * vo.input;
+
+		return vo.result2;
+	}
+}
+
+class MacroCommandFailingSubCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		throw new Error("failed");
+	}
+}
+
+class MacroCommandFailureTestCommand extends MacroCommand
+{
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandTestSub1Command);
+		this.addSubCommand(MacroCommandFailingSubCommand);
+		this.addSubCommand(MacroCommandTestSub2Command);
+	}
+}
+
+class MacroCommandDoubleCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification<MacroCommandTestVO>): Promise<void>
+	{
+		const vo = notification.getBody();
+		vo.result1 *= 2;
+	}
+}
+
+class MacroCommandConditionTestCommand extends MacroCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandTestSub1Command);
+		this.addSubCommandBranch((notification: INotification<MacroCommandTestVO>) => notification.getBody().result1 > 5, MacroCommandTestSub2Command, MacroCommandDoubleCommand);
+		this.addSubCommand(MacroCommandFailingSubCommand, async () => false);
+	}
+}
+
+class MacroCommandOrderSubCommand extends SimpleCommand
+{
+	public static order: string[];
+
+	protected async record(name: string, milliseconds: number): Promise<void>
+	{
+		MacroCommandOrderSubCommand.order.push(name + ":start");
+		await new Promise((resolve) => setTimeout(resolve, milliseconds));
+		MacroCommandOrderSubCommand.order.push(name + ":end");
+	}
+}
+
+class MacroCommandSlowSubCommand extends MacroCommandOrderSubCommand
+{
+	public override execute(notification: INotification): Promise<void>
+	{
+		return this.record("slow", 20);
+	}
+}
+
+class MacroCommandFastSubCommand extends MacroCommandOrderSubCommand
+{
+	public override execute(notification: INotification): Promise<void>
+	{
+		return this.record("fast", 5);
+	}
+}
+
+class MacroCommandStartSubCommand extends MacroCommandOrderSubCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		MacroCommandOrderSubCommand.order.push("start");
+	}
+}
+
+class MacroCommandEndSubCommand extends MacroCommandOrderSubCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		MacroCommandOrderSubCommand.order.push("end");
+	}
+}
+
+class MacroCommandGroupTestCommand extends MacroCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandStartSubCommand);
+		this.addSubCommandGroup([MacroCommandSlowSubCommand, MacroCommandFastSubCommand]);
+		this.addSubCommand(MacroCommandEndSubCommand);
+	}
+}
+
+class MacroCommandFailingConditionTestCommand extends MacroCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandTestSub1Command, () => { throw new Error("no condition"); });
+		this.addSubCommand(MacroCommandTestSub2Command);
+	}
+}
+
+const INPUT = new ContextKey<number>("input");
+const TOTAL = new ContextKey<number>("total", 0);
+
+class MacroCommandReadInputCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification<number>): Promise<void>
+	{
+		this.getContext().set(INPUT, notification.getBody());
+	}
+}
+
+class MacroCommandTotalCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		const context = this.getContext();
+		context.set(TOTAL, context.get(TOTAL) + context.get(INPUT) * 10);
+	}
+}
+
+class MacroCommandBonusCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		const context = this.getContext();
+		context.set(TOTAL, context.get(TOTAL) + 4);
+	}
+}
+
+class MacroCommandNestedTotalCommand extends MacroCommand
+{
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandTotalCommand);
+	}
+}
+
+class MacroCommandContextTestCommand extends MacroCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandReadInputCommand);
+		this.addSubCommand(MacroCommandNestedTotalCommand);
+		this.addSubCommandBranch((notification: INotification, context: IMacroCommandContext) => context.get(TOTAL) > 20, MacroCommandTotalCommand, MacroCommandBonusCommand);
+	}
+
+	protected override deriveResult(context: IMacroCommandContext): number
+	{
+		return context.get(TOTAL);
+	}
+}
+
+class MacroCommandSequentialFailureTestCommand extends MacroCommandFailureTestCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+}
+
+class MacroCommandTestCommand extends MacroCommand
+{
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandTestSub1Command);
+		this.addSubCommand(MacroCommandTestSub2Command);
+	}
+}
+
+class MacroCommandAbortSubCommand extends SimpleCommand
+{
+	public static onExecute: () => void;
+
+	public override async execute(notification: INotification): Promise<void>
+	{
+		MacroCommandAbortSubCommand.onExecute();
+	}
+}
+
+class MacroCommandAbortTestCommand extends MacroCommand
+{
+	constructor()
+	{
+		super(true);
+	}
+
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(MacroCommandAbortSubCommand);
+		this.addSubCommand(MacroCommandTestSub1Command);
+		this.addSubCommand(MacroCommandTestSub2Command);
+	}
+}
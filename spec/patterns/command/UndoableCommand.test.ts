@@ -0,0 +1,209 @@
+import { Facade, IFacade, UndoableCommand, CommandHistory, ICommandHistory, INotification, IObserverError, Mediator, Observer, View } from "puremvc";
+
+describe("UndoableCommand Test", () =>
+{
+	let facade: IFacade;
+	let history: ICommandHistory;
+	let counter: { value: number };
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("UndoableCommandTest");
+		facade.registerCommand("increment", IncrementCommand);
+
+		history = facade.getCommandHistory();
+		counter = { value: 0 };
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("UndoableCommandTest");
+	});
+
+	it("Records, Undoes and Redoes", async () =>
+	{
+		await facade.sendNotification("increment", { counter, amount: 2 });
+		await facade.sendNotification("increment", { counter, amount: 3 });
+
+		expect(counter.value).toBe(5);
+		expect(history.getUndoCount()).toBe(2);
+
+		await history.undo();
+
+		expect(counter.value).toBe(2);
+		expect(history.canRedo()).toBe(true);
+
+		await history.redo();
+
+		expect(counter.value).toBe(5);
+		expect(history.getRedoCount()).toBe(0);
+	});
+
+	it("Recording Clears Redo", async () =>
+	{
+		await facade.sendNotification("increment", { counter, amount: 1 });
+		await history.undo();
+
+		expect(history.canRedo()).toBe(true);
+
+		await facade.sendNotification("increment", { counter, amount: 4 });
+
+		expect(history.canRedo()).toBe(false);
+		expect(counter.value).toBe(4);
+	});
+
+	it("Non Recordable", async () =>
+	{
+		await facade.sendNotification("increment", { counter, amount: 1 }, UndoableCommand.NON_RECORDABLE);
+
+		expect(counter.value).toBe(1);
+		expect(history.canUndo()).toBe(false);
+	});
+
+	it("Max Depth", async () =>
+	{
+		history.setMaxDepth(2);
+
+		for (let i = 0; i < 4; i++)
+			await facade.sendNotification("increment", { counter, amount: 1 });
+
+		expect(history.getUndoCount()).toBe(2);
+
+		await history.undo();
+		await history.undo();
+		await history.undo();
+
+		expect(counter.value).toBe(2);
+	});
+
+	it("Groups", async () =>
+	{
+		history.beginGroup();
+		await facade.sendNotification("increment", { counter, amount: 1 });
+		await facade.sendNotification("increment", { counter, amount: 10 });
+		history.endGroup();
+
+		expect(history.getUndoCount()).toBe(1);
+
+		await history.undo();
+
+		expect(counter.value).toBe(0);
+
+		await history.redo();
+
+		expect(counter.value).toBe(11);
+	});
+
+	it("Notifies Changes", async () =>
+	{
+		const mediator = new HistoryTestMediator();
+		facade.registerMediator(mediator);
+
+		await facade.sendNotification("increment", { counter, amount: 1 });
+		await history.undo();
+		await history.redo();
+		history.clear();
+
+		expect(mediator.types).toEqual([CommandHistory.RECORD, CommandHistory.UNDO, CommandHistory.REDO, CommandHistory.CLEAR]);
+	});
+
+	it("Keeps Steps That Fail to Replay", async () =>
+	{
+		const body: IncrementBody = { counter, amount: 2, failUndo: true };
+		await facade.sendNotification("increment", body);
+
+		await expect(history.undo()).rejects.toThrow("undo failed");
+
+		expect(history.getUndoCount()).toBe(1);
+
+		body.failUndo = false;
+		await history.undo();
+
+		expect(counter.value).toBe(0);
+		expect(history.getRedoCount()).toBe(1);
+	});
+
+	it("Restores a Group That Fails to Undo", async () =>
+	{
+		history.beginGroup();
+		await facade.sendNotification("increment", { counter, amount: 1, failUndo: true });
+		await facade.sendNotification("increment", { counter, amount: 10 });
+		history.endGroup();
+
+		await expect(history.undo()).rejects.toThrow("undo failed");
+
+		expect(counter.value).toBe(11);
+		expect(history.getUndoCount()).toBe(1);
+		expect(history.getRedoCount()).toBe(0);
+	});
+
+	it("Reports Failing Observers of Synchronous Changes", async () =>
+	{
+		const unhandled = jest.fn();
+		process.on("unhandledRejection", unhandled);
+
+		const errors: IObserverError[] = [];
+		View.getInstance("UndoableCommandTest").registerObserver(View.OBSERVER_ERROR, new Observer((notification: INotification<IObserverError>) => { errors.push(notification.getBody()); }, errors));
+
+		const mediator = new HistoryTestMediator();
+		mediator.fail = true;
+		facade.registerMediator(mediator);
+
+		history.record(new IncrementCommand());
+		history.clear();
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		process.off("unhandledRejection", unhandled);
+
+		expect(mediator.types).toEqual([CommandHistory.RECORD, CommandHistory.CLEAR]);
+		expect(errors.map(({ notification }) => notification.getType())).toEqual([CommandHistory.RECORD, CommandHistory.CLEAR]);
+		expect((errors[0].error as Error).message).toBe("history observer failed");
+		expect(unhandled).not.toHaveBeenCalled();
+	});
+});
+
+type IncrementBody = { counter: { value: number }, amount: number, failUndo?: boolean };
+
+class IncrementCommand extends UndoableCommand
+{
+	protected override async executeCommand(notification: INotification<IncrementBody>): Promise<void>
+	{
+		const { counter, amount } = notification.getBody();
+		counter.value += amount;
+	}
+
+	protected override async undoCommand(notification: INotification<IncrementBody>): Promise<void>
+	{
+		const { counter, amount, failUndo } = notification.getBody();
+
+		if (failUndo)
+			throw new Error("undo failed");
+
+		counter.value -= amount;
+	}
+}
+
+class HistoryTestMediator extends Mediator
+{
+	public types: string[] = [];
+
+	public fail: boolean = false;
+
+	constructor()
+	{
+		super("HistoryTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return [CommandHistory.CHANGED];
+	}
+
+	public override async handleNotification(notification: INotification): Promise<void>
+	{
+		this.types.push(notification.getType());
+
+		if (this.fail)
+			throw new Error("history observer failed");
+	}
+}
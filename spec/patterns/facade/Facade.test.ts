@@ -0,0 +1,227 @@
+import { Facade, IFacade, Mediator, Proxy, INotification, Model, View, Controller, Multiton, SimpleCommand } from "puremvc";
+import { FakeClock } from "puremvc/testing";
+
+describe("Facade Test", () =>
+{
+	afterEach(async () =>
+	{
+		await Facade.removeCore(Multiton.DEFAULT_KEY);
+		await Facade.removeCore("FacadeTestKeyA");
+		await Facade.removeCore("FacadeTestKeyB");
+	});
+
+	it("Get Instance", () =>
+	{
+		const facade: IFacade = Facade.getInstance();
+
+		expect(facade).toBeInstanceOf(Facade);
+		expect(facade.getMultitonKey()).toBe(Multiton.DEFAULT_KEY);
+		expect(Facade.getInstance(Multiton.DEFAULT_KEY)).toBe(facade);
+	});
+
+	it("Multiton Instances", () =>
+	{
+		const facadeA = Facade.getInstance("FacadeTestKeyA");
+		const facadeB = Facade.getInstance("FacadeTestKeyB");
+
+		expect(facadeA).not.toBe(facadeB);
+		expect(Facade.getInstance("FacadeTestKeyA")).toBe(facadeA);
+		expect(Model.getInstance("FacadeTestKeyA")).not.toBe(Model.getInstance("FacadeTestKeyB"));
+		expect(() => new Facade("FacadeTestKeyA")).toThrow();
+	});
+
+	it("Isolated Cores", () =>
+	{
+		const facadeA = Facade.getInstance("FacadeTestKeyA");
+		const facadeB = Facade.getInstance("FacadeTestKeyB");
+
+		facadeA.registerProxy(new Proxy("colors", ["red"]));
+
+		expect(facadeA.hasProxy("colors")).toBe(true);
+		expect(facadeB.hasProxy("colors")).toBe(false);
+	});
+
+	it("Notifier Resolves Its Core", async () =>
+	{
+		const facadeA = Facade.getInstance("FacadeTestKeyA");
+		const facadeB = Facade.getInstance("FacadeTestKeyB");
+
+		const mediatorA = new FacadeTestMediator();
+		const mediatorB = new FacadeTestMediator();
+
+		facadeA.registerMediator(mediatorA);
+		facadeB.registerMediator(mediatorB);
+
+		const proxy = new Proxy("sender");
+		facadeB.registerProxy(proxy);
+
+		expect(proxy.facade).toBe(facadeB);
+
+		await proxy.sendNotification(FacadeTestMediator.NOTE, 5);
+
+		expect(mediatorA.received).toEqual([]);
+		expect(mediatorB.received).toEqual([5]);
+	});
+
+	it("Has Core and Remove Core", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerProxy(new Proxy("sizes", [7, 13]));
+		facade.registerMediator(new FacadeTestMediator());
+
+		expect(Facade.hasCore("FacadeTestKeyA")).toBe(true);
+
+		const model = Model.getInstance("FacadeTestKeyA");
+		const view = View.getInstance("FacadeTestKeyA");
+		const controller = Controller.getInstance("FacadeTestKeyA");
+
+		await Facade.removeCore("FacadeTestKeyA");
+
+		expect(Facade.hasCore("FacadeTestKeyA")).toBe(false);
+		expect(model.hasProxy("sizes")).toBe(false);
+		expect(view.hasMediator(FacadeTestMediator.NAME)).toBe(false);
+
+		// A fresh Core is built on the next request for the key
+		expect(Model.getInstance("FacadeTestKeyA")).not.toBe(model);
+		expect(View.getInstance("FacadeTestKeyA")).not.toBe(view);
+		expect(Controller.getInstance("FacadeTestKeyA")).not.toBe(controller);
+	});
+
+	it("Remove Core Releases It When Disposing Fails", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerProxy(new Proxy("sizes", [7, 13]));
+		facade.registerMediator(new FacadeTestFailingMediator());
+
+		const model = Model.getInstance("FacadeTestKeyA");
+
+		await expect(Facade.removeCore("FacadeTestKeyA")).rejects.toThrow("1 mediators failed to be removed");
+
+		expect(Facade.hasCore("FacadeTestKeyA")).toBe(false);
+		expect(model.hasProxy("sizes")).toBe(false);
+	});
+
+	it("Lists Registered Actors", () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerProxy(new Proxy("requester"));
+		facade.registerMediator(new FacadeTestMediator());
+		facade.registerCommand("square", FacadeTestSquareCommand);
+
+		expect(facade.listProxyNames()).toEqual(["requester"]);
+		expect(facade.listMediatorNames()).toEqual([FacadeTestMediator.NAME]);
+		expect(facade.listMediators()).toEqual([{ mediatorName: FacadeTestMediator.NAME, interests: [FacadeTestMediator.NOTE] }]);
+		expect(facade.listCommands()).toEqual([{ interest: "square", commandClass: FacadeTestSquareCommand }]);
+		expect(facade.listObservers()).toEqual([
+			{ interest: FacadeTestMediator.NOTE, observers: [{ name: FacadeTestMediator.NAME, priority: 0 }] },
+			{ interest: "square", observers: [{ name: "Controller", priority: 0 }] }
+		]);
+	});
+
+	it("Request Resolves With the Command Result", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerCommand("square", FacadeTestSquareCommand);
+
+		await expect(facade.request("square", 7)).resolves.toBe(49);
+	});
+
+	it("Request Resolves With a Reply", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerMediator(new FacadeTestMediator());
+
+		const proxy = new Proxy("requester");
+		facade.registerProxy(proxy);
+
+		await expect(proxy.request<string>(FacadeTestMediator.NOTE, 3)).resolves.toBe("received 3");
+	});
+
+	it("Request Without Handler", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+
+		await expect(facade.request("nobody")).rejects.toThrow(Facade.NO_HANDLER_MSG + "nobody");
+	});
+
+	it("Request Timeout Aborts the Notification", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		facade.registerCommand("slow", FacadeTestSlowCommand);
+
+		await expect(facade.request("slow", undefined, 10)).rejects.toThrow(Facade.REQUEST_TIMEOUT_MSG + "slow");
+		expect(FacadeTestSlowCommand.signal.aborted).toBe(true);
+	});
+
+	it("Registers Commands With a Policy", async () =>
+	{
+		const facade = Facade.getInstance("FacadeTestKeyA");
+		const clock = new FakeClock();
+
+		facade.setCommandClock(clock);
+		facade.registerCommand("slow", FacadeTestSlowCommand, 0, { timeout: 10 });
+
+		const requested = expect(facade.request("slow")).rejects.toThrow(Controller.TIMEOUT_MSG + "FacadeTestSlowCommand");
+
+		await clock.tick(10);
+		await requested;
+	});
+});
+
+class FacadeTestMediator extends Mediator
+{
+	public received: number[] = [];
+
+	constructor()
+	{
+		super(FacadeTestMediator.NAME);
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return [FacadeTestMediator.NOTE];
+	}
+
+	public override async handleNotification(notification: INotification<number>): Promise<void>
+	{
+		this.received.push(notification.getBody());
+		notification.reply("received " + notification.getBody());
+	}
+
+	public static NAME: string = "FacadeTestMediator";
+
+	public static NOTE: string = "FacadeTestNote";
+}
+
+class FacadeTestFailingMediator extends Mediator
+{
+	constructor()
+	{
+		super("FacadeTestFailingMediator");
+	}
+
+	public override async onRemove(): Promise<void>
+	{
+		throw new Error("cannot close");
+	}
+}
+
+class FacadeTestSquareCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification<number>): Promise<number>
+	{
+		return notification.getBody() * notification.getBody();
+	}
+}
+
+class FacadeTestSlowCommand extends SimpleCommand
+{
+	public static signal: AbortSignal;
+
+	public override async execute(notification: INotification): Promise<void>
+	{
+		FacadeTestSlowCommand.signal = notification.getSignal();
+
+		await new Promise<void>(resolve => setTimeout(resolve, 50));
+	}
+}
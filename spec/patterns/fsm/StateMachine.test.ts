@@ -0,0 +1,154 @@
+import { Facade, FSMInjector, IFacade, IFSMConfig, INotification, Mediator, State, StateMachine, StateMachineProxy } from "puremvc";
+
+describe("StateMachine Test", () =>
+{
+	const config: IFSMConfig = {
+		initial: "closed",
+		states: [
+			{ name: "closed", entering: "door/entering/closed", exited: "door/exited/closed", transitions: { open: "opened", lock: "locked" } },
+			{ name: "opened", entering: "door/entering/opened", exiting: "door/exiting/opened", changed: "door/changed/opened", transitions: { close: "closed" } },
+			{ name: "locked", exiting: "door/exiting/locked", transitions: { unlock: "closed" } }
+		]
+	};
+
+	let facade: IFacade;
+	let mediator: StateMachineTestMediator;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("StateMachineTest");
+
+		mediator = new StateMachineTestMediator();
+		facade.registerMediator(mediator);
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("StateMachineTest");
+	});
+
+	async function inject(machineConfig: IFSMConfig | string = config): Promise<StateMachine>
+	{
+		const injector = new FSMInjector(machineConfig);
+		injector.initializeNotifier("StateMachineTest");
+
+		return injector.inject();
+	}
+
+	it("Enters the Initial State", async () =>
+	{
+		const machine = await inject();
+
+		expect(machine.getCurrentState().getName()).toBe("closed");
+		expect(facade.retrieveProxy<StateMachineProxy>(StateMachineProxy.NAME).getData()).toBe("closed");
+		expect(mediator.received).toEqual([
+			["door/entering/closed", undefined],
+			[StateMachine.CHANGED, "closed"]
+		]);
+	});
+
+	it("Transitions on Actions", async () =>
+	{
+		const machine = await inject();
+		mediator.received = [];
+
+		await facade.sendNotification(StateMachine.ACTION, "by hand", "open");
+
+		expect(machine.getCurrentState().getName()).toBe("opened");
+		expect(mediator.received).toEqual([
+			["door/entering/opened", undefined],
+			["door/exited/closed", "opened"],
+			["door/changed/opened", undefined],
+			[StateMachine.CHANGED, "opened"]
+		]);
+		expect(mediator.bodies).toContain("by hand");
+
+		mediator.received = [];
+		await facade.sendNotification(StateMachine.ACTION, undefined, "lock");
+
+		expect(machine.getCurrentState().getName()).toBe("opened");
+		expect(mediator.received).toEqual([]);
+	});
+
+	it("Cancels Transitions from Guards", async () =>
+	{
+		const machine = await inject();
+		await facade.sendNotification(StateMachine.ACTION, undefined, "lock");
+
+		mediator.cancel = "door/exiting/locked";
+		mediator.received = [];
+
+		await facade.sendNotification(StateMachine.ACTION, undefined, "unlock");
+
+		expect(machine.getCurrentState().getName()).toBe("locked");
+		expect(mediator.received).toEqual([["door/exiting/locked", "closed"]]);
+
+		mediator.cancel = undefined;
+		await facade.sendNotification(StateMachine.ACTION, undefined, "unlock");
+
+		expect(machine.getCurrentState().getName()).toBe("closed");
+	});
+
+	it("Cancels Transitions When Entering", async () =>
+	{
+		const machine = await inject();
+
+		mediator.cancel = "door/entering/opened";
+		mediator.received = [];
+
+		expect(await machine.transitionTo(facade.retrieveProxy<StateMachineProxy>(StateMachineProxy.NAME).retrieveState("opened"))).toBe(false);
+		expect(machine.getCurrentState().getName()).toBe("closed");
+		expect(mediator.received).toEqual([["door/entering/opened", undefined]]);
+	});
+
+	it("Reads JSON Configurations", async () =>
+	{
+		const machine = await inject(JSON.stringify(config));
+
+		expect(machine.getCurrentState()).toBeInstanceOf(State);
+		expect(machine.getCurrentState().getTarget("open")).toBe("opened");
+		expect(machine.getCurrentState().getActions()).toEqual(["open", "lock"]);
+	});
+
+	it("Rejects Invalid Configurations", () =>
+	{
+		const unknownTarget = new FSMInjector({ states: [{ name: "idle", transitions: { start: "running" } }] });
+		const unknownInitial = new FSMInjector({ initial: "running", states: [{ name: "idle" }] });
+		const duplicate = new FSMInjector({ states: [{ name: "idle" }, { name: "idle" }] });
+
+		expect(() => unknownTarget.createStateMachineProxy()).toThrow(FSMInjector.UNKNOWN_STATE_MSG + "running");
+		expect(() => unknownInitial.createStateMachineProxy()).toThrow(FSMInjector.UNKNOWN_STATE_MSG + "running");
+		expect(() => duplicate.createStateMachineProxy()).toThrow(FSMInjector.DUPLICATE_STATE_MSG + "idle");
+	});
+});
+
+class StateMachineTestMediator extends Mediator
+{
+	public received: [string, string | undefined][] = [];
+	public bodies: unknown[] = [];
+	public cancel?: string;
+
+	constructor()
+	{
+		super("StateMachineTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return [
+			"door/entering/closed", "door/exited/closed",
+			"door/entering/opened", "door/exiting/opened", "door/changed/opened",
+			"door/exiting/locked",
+			StateMachine.CHANGED
+		];
+	}
+
+	public override async handleNotification(notification: INotification): Promise<void>
+	{
+		this.received.push([notification.getName(), notification.getType()]);
+		this.bodies.push(notification.getBody());
+
+		if (notification.getName() === this.cancel)
+			await this.sendNotification(StateMachine.CANCEL);
+	}
+}
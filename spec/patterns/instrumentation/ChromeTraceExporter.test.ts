@@ -0,0 +1,120 @@
+import { ChromeTraceExporter, Facade, INotification, Mediator, Notification } from "puremvc";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+describe("ChromeTraceExporter Test", () =>
+{
+	let exporter: ChromeTraceExporter;
+
+	beforeEach(() =>
+	{
+		exporter = new ChromeTraceExporter();
+
+		for (const key of ["ChromeTraceExporterShell", "ChromeTraceExporterModule"])
+		{
+			const facade = Facade.getInstance(key);
+			facade.registerMediator(new ChromeTraceExporterTestMediator());
+			facade.addSpanListener(exporter);
+		}
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("ChromeTraceExporterShell");
+		await Facade.removeCore("ChromeTraceExporterModule");
+	});
+
+	it("Exports Complete Events per Core", async () =>
+	{
+		const notification = new Notification("ping", undefined, "test");
+
+		await Facade.getInstance("ChromeTraceExporterShell").notifyObservers(notification);
+		await expect(Facade.getInstance("ChromeTraceExporterModule").sendNotification("fail")).rejects.toThrow("failed");
+
+		const [shellThread, moduleThread, ping, fail] = exporter.getTraceEvents();
+
+		expect(shellThread).toEqual({ name: "thread_name", ph: "M", ts: 0, pid: 1, tid: 1, args: { name: "ChromeTraceExporterShell" } });
+		expect(moduleThread.args).toEqual({ name: "ChromeTraceExporterModule" });
+
+		expect(ping).toMatchObject({ name: "ChromeTraceExporterTestMediator", cat: "observer", ph: "X", pid: 1, tid: 1 });
+		expect(ping.args).toEqual({
+			notification: "ping",
+			type: "test",
+			id: notification.getId(),
+			correlationId: notification.getCorrelationId(),
+			causationId: undefined
+		});
+		expect(Number.isInteger(ping.ts) && Number.isInteger(ping.dur)).toBe(true);
+		expect(ping.dur).toBeGreaterThanOrEqual(2000);
+
+		expect(fail.tid).toBe(2);
+		expect(fail.ts).toBeGreaterThanOrEqual(ping.ts + ping.dur);
+		expect(fail.args.error).toBe("failed");
+
+		exporter.clear();
+
+		expect(exporter.getSpans()).toEqual([]);
+	});
+
+	it("Puts Overlapping Spans on Separate Threads", async () =>
+	{
+		const facade = Facade.getInstance("ChromeTraceExporterShell");
+
+		const first = facade.sendNotification("ping");
+		await new Promise((resolve) => setTimeout(resolve, 1));
+		const second = facade.sendNotification("ping");
+		await Promise.all([first, second]);
+
+		const events = exporter.getTraceEvents();
+		const threads = events.filter((event) => event.ph === "M").map((event) => [event.tid, event.args.name]);
+		const pings = events.filter((event) => event.ph === "X");
+
+		expect(threads).toEqual([[1, "ChromeTraceExporterShell"], [2, "ChromeTraceExporterShell #2"]]);
+		expect(pings.map((event) => event.tid)).toEqual([1, 2]);
+		expect(pings[1].ts).toBeLessThan(pings[0].ts + pings[0].dur);
+	});
+
+	it("Writes Trace Files", async () =>
+	{
+		await Facade.getInstance("ChromeTraceExporterShell").sendNotification("ping");
+
+		const directory = await mkdtemp(join(tmpdir(), "puremvc-"));
+
+		try
+		{
+			const path = join(directory, "trace.json");
+			await exporter.writeFile(path);
+
+			const trace = JSON.parse(await readFile(path, "utf8"));
+
+			expect(trace.displayTimeUnit).toBe("ms");
+			expect(trace.traceEvents.map((event: { ph: string }) => event.ph)).toEqual(["M", "X"]);
+		}
+		finally
+		{
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+});
+
+class ChromeTraceExporterTestMediator extends Mediator
+{
+	constructor()
+	{
+		super("ChromeTraceExporterTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["ping", "fail"];
+	}
+
+	public override async handleNotification(notification: INotification): Promise<void>
+	{
+		if (notification.getName() === "fail")
+			throw new Error("failed");
+
+		await new Promise((resolve) => setTimeout(resolve, 3));
+	}
+}
@@ -0,0 +1,103 @@
+import { Facade, IFacade, MacroCommand, Mediator, SimpleCommand, WiringGraph } from "puremvc";
+
+describe("WiringGraph Test", () =>
+{
+	let facade: IFacade;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("WiringGraphTest");
+
+		facade.registerMediator(new WiringGraphTestMediator());
+		facade.registerCommand("startup", WiringGraphTestStartupCommand);
+		facade.registerCommand("user/*", WiringGraphTestLoadCommand);
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("WiringGraphTest");
+	});
+
+	it("Walks Mediators, Commands and SubCommands", () =>
+	{
+		const graph = new WiringGraph(facade);
+
+		expect(graph.getNodes().map(({ kind, label }) => [kind, label])).toEqual([
+			[WiringGraph.MEDIATOR, "WiringGraphTestMediator"],
+			[WiringGraph.NOTIFICATION, "user/loaded"],
+			[WiringGraph.NOTIFICATION, "startup"],
+			[WiringGraph.COMMAND, "WiringGraphTestStartupCommand"],
+			[WiringGraph.COMMAND, "WiringGraphTestLoadCommand"],
+			[WiringGraph.COMMAND, "WiringGraphTestReadyCommand"],
+			[WiringGraph.NOTIFICATION, "user/*"]
+		]);
+		expect(graph.getEdges()).toHaveLength(6);
+	});
+
+	it("Writes Mermaid", () =>
+	{
+		expect(new WiringGraph(facade).toMermaid()).toBe([
+			"flowchart LR",
+			"\tn0[\"WiringGraphTestMediator\"]",
+			"\tn1([\"user/loaded\"])",
+			"\tn2([\"startup\"])",
+			"\tn3[[\"WiringGraphTestStartupCommand\"]]",
+			"\tn4[[\"WiringGraphTestLoadCommand\"]]",
+			"\tn5[[\"WiringGraphTestReadyCommand\"]]",
+			"\tn6([\"user/*\"])",
+			"\tn1 --> n0",
+			"\tn2 --> n0",
+			"\tn3 -.-> n4",
+			"\tn3 -.-> n5",
+			"\tn2 --> n3",
+			"\tn6 --> n4",
+			""
+		].join("\n"));
+	});
+
+	it("Writes DOT", () =>
+	{
+		facade.registerCommand("say \"hi\"", WiringGraphTestReadyCommand);
+
+		const dot = new WiringGraph(facade).toDot();
+
+		expect(dot.startsWith("digraph wiring {\n\trankdir=LR;\n")).toBe(true);
+		expect(dot).toContain("\tn0 [label=\"WiringGraphTestMediator\", shape=box];");
+		expect(dot).toContain("\tn2 [label=\"startup\", shape=ellipse];");
+		expect(dot).toContain("\tn3 [label=\"WiringGraphTestStartupCommand\", shape=component];");
+		expect(dot).toContain("\tn7 [label=\"say \\\"hi\\\"\", shape=ellipse];");
+		expect(dot).toContain("\tn3 -> n4 [style=dashed];");
+		expect(dot).toContain("\tn7 -> n5;");
+		expect(dot.endsWith("}\n")).toBe(true);
+	});
+});
+
+class WiringGraphTestMediator extends Mediator
+{
+	constructor()
+	{
+		super("WiringGraphTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["user/loaded", "startup"];
+	}
+}
+
+class WiringGraphTestLoadCommand extends SimpleCommand
+{
+}
+
+class WiringGraphTestReadyCommand extends SimpleCommand
+{
+}
+
+class WiringGraphTestStartupCommand extends MacroCommand
+{
+	public override initializeMacroCommand(): void
+	{
+		this.addSubCommand(WiringGraphTestLoadCommand);
+		this.addSubCommand(WiringGraphTestReadyCommand);
+	}
+}
@@ -0,0 +1,180 @@
+import { Facade, IFacade, INotification, Mediator, Notification, NotificationContext, SimpleCommand } from "puremvc";
+
+describe("Notification Test", () =>
+{
+	it("Has an Id and a Timestamp", () =>
+	{
+		const before = Date.now();
+		const first = new Notification("first");
+		const second = new Notification("second");
+
+		expect(first.getId()).not.toEqual(second.getId());
+		expect(first.getTimestamp()).toBeGreaterThanOrEqual(before);
+		expect(first.getTimestamp()).toBeLessThanOrEqual(Date.now());
+		expect(first.getCorrelationId()).toBe(first.getId());
+		expect(first.getCausationId()).toBeUndefined();
+	});
+
+	it("Creates Ids Without crypto.randomUUID", () =>
+	{
+		Object.defineProperty(globalThis.crypto, "randomUUID", { value: undefined, configurable: true });
+		try
+		{
+			const first = new Notification("first");
+			const second = new Notification("second");
+
+			expect(typeof first.getId()).toBe("string");
+			expect(first.getId()).not.toEqual(second.getId());
+		}
+		finally
+		{
+			delete (globalThis.crypto as { randomUUID?:unknown }).randomUUID;
+		}
+	});
+
+	it("Records the Notification Being Handled", () =>
+	{
+		const cause = new Notification("cause");
+		const effect = NotificationContext.run(cause, () => new Notification("effect"));
+
+		expect(effect.getCausationId()).toBe(cause.getId());
+		expect(effect.getCorrelationId()).toBe(cause.getId());
+		expect(NotificationContext.getCurrent()).toBeUndefined();
+	});
+
+	describe("Cascades", () =>
+	{
+		let facade: IFacade;
+		let mediator: NotificationTestMediator;
+
+		beforeEach(() =>
+		{
+			facade = Facade.getInstance("NotificationTest");
+
+			mediator = new NotificationTestMediator();
+			facade.registerMediator(mediator);
+			facade.registerCommand("user/clicked", NotificationTestCommand);
+		});
+
+		afterEach(async () =>
+		{
+			await Facade.removeCore("NotificationTest");
+		});
+
+		it("Tracks Causation Across Commands and Mediators", async () =>
+		{
+			const click = new Notification("user/clicked");
+			await facade.notifyObservers(click);
+
+			const [saved, refreshed] = mediator.received;
+
+			expect(mediator.received.map((notification) => notification.getName())).toEqual(["data/saved", "view/refreshed"]);
+			expect(saved.getCausationId()).toBe(click.getId());
+			expect(refreshed.getCausationId()).toBe(saved.getId());
+			expect(saved.getCorrelationId()).toBe(click.getId());
+			expect(refreshed.getCorrelationId()).toBe(click.getId());
+		});
+
+		it("Starts a New Correlation per Cascade", async () =>
+		{
+			await facade.sendNotification("user/clicked");
+			await facade.sendNotification("user/clicked");
+
+			const [first, , second] = mediator.received;
+
+			expect(first.getCorrelationId()).not.toEqual(second.getCorrelationId());
+		});
+
+		it("Handles Custom Notifications Without the Optional Members", async () =>
+		{
+			const click = new NotificationTestCustomNotification("user/clicked");
+
+			facade.registerCommand("custom/retried", NotificationTestCommand, 0, { maxAttempts: 2, timeout: 1000 });
+			await facade.notifyObservers(click);
+			await facade.notifyObservers(new NotificationTestCustomNotification("custom/retried"));
+			facade.abortCommands(click);
+
+			const [saved] = mediator.received;
+
+			expect(mediator.received.map((notification) => notification.getName())).toEqual(["data/saved", "view/refreshed", "data/saved", "view/refreshed"]);
+			expect(saved.getCausationId()).toBeUndefined();
+			expect(saved.getCorrelationId()).toBe(saved.getId());
+		});
+	});
+});
+
+class NotificationTestCustomNotification implements INotification
+{
+	#body: any;
+
+	#type: string;
+
+	constructor(private name: string)
+	{
+	}
+
+	public getName(): string
+	{
+		return this.name;
+	}
+
+	public setBody(body: any): void
+	{
+		this.#body = body;
+	}
+
+	public getBody(): any
+	{
+		return this.#body;
+	}
+
+	public setType(type: string): void
+	{
+		this.#type = type;
+	}
+
+	public getType(): string
+	{
+		return this.#type;
+	}
+
+	public toString(): string
+	{
+		return this.name;
+	}
+}
+
+class NotificationTestCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification): Promise<void>
+	{
+		await Promise.resolve();
+		await this.sendNotification("data/saved");
+	}
+}
+
+class NotificationTestMediator extends Mediator
+{
+	public received: INotification[] = [];
+
+	constructor()
+	{
+		super("NotificationTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["data/saved", "view/refreshed"];
+	}
+
+	public override async handleNotification(notification: INotification): Promise<void>
+	{
+		this.received.push(notification);
+
+		if (notification.getName() === "data/saved")
+		{
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			await this.sendNotification("view/refreshed");
+		}
+	}
+}
@@ -0,0 +1,130 @@
+import { Facade, IFacade, IProxy, Mediator, Notification, Notifier, Proxy, SimpleCommand, TypedNotification } from "puremvc";
+
+describe("Notifier Test", () =>
+{
+	let facade: IFacade<NotifierTestNotifications>;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance<NotifierTestNotifications>("NotifierTest");
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("NotifierTest");
+	});
+
+	it("Sends Through Its Facade", async () =>
+	{
+		const mediator = new NotifierTestMediator();
+		facade.registerMediator(mediator);
+
+		const notifier = new Notifier<NotifierTestNotifications>();
+		notifier.initializeNotifier("NotifierTest");
+
+		await notifier.sendNotification("user/login", { name: "ada", password: "secret" });
+		await notifier.sendNotification("user/logout");
+
+		expect(mediator.received).toEqual(["login:ada", "logout"]);
+	});
+
+	it("Typed Commands", async () =>
+	{
+		facade.registerCommand("counter/add", NotifierTestAddCommand);
+
+		const proxy = new Proxy<number, NotifierTestNotifications>("counter", 1);
+		facade.registerProxy(proxy);
+
+		await proxy.sendNotification("counter/add", 4);
+
+		expect(proxy.getData()).toBe(5);
+	});
+
+	it("Rejects Unknown Names and Wrong Bodies", () =>
+	{
+		const notifier = new Notifier<NotifierTestNotifications>();
+
+		const check = () =>
+		{
+			// @ts-expect-error unknown notification name
+			notifier.sendNotification("user/unknown");
+
+			// @ts-expect-error body does not match the declared type
+			notifier.sendNotification("counter/add", "four");
+
+			// @ts-expect-error body does not match the declared type
+			facade.sendNotification("user/login", { name: "ada" });
+
+			// @ts-expect-error the declared body is required
+			notifier.sendNotification("counter/add");
+
+			// @ts-expect-error the declared body is required
+			notifier.request("user/login");
+
+			// Bodies accepting undefined may be omitted
+			notifier.sendNotification("user/logout");
+		};
+
+		expect(check).toBeInstanceOf(Function);
+	});
+
+	it("Untyped Notifiers Accept Any Name", async () =>
+	{
+		const notifier = new Notifier();
+		notifier.initializeNotifier("NotifierTest");
+
+		await expect(notifier.sendNotification("anything", { any: "body" }, "type")).resolves.toBeUndefined();
+	});
+
+	it("Does Not Recreate a Removed Core", async () =>
+	{
+		const notifier = new Notifier();
+		notifier.initializeNotifier("NotifierTest");
+
+		await Facade.removeCore("NotifierTest");
+
+		expect(() => notifier.facade).toThrow(Notifier.MULTITON_MSG + "NotifierTest");
+		await expect(notifier.sendNotification("anything")).rejects.toThrow(Notifier.MULTITON_MSG + "NotifierTest");
+		expect(Facade.hasCore("NotifierTest")).toBe(false);
+	});
+});
+
+interface NotifierTestNotifications
+{
+	"user/login": { name: string, password: string };
+	"user/logout": undefined;
+	"counter/add": number;
+}
+
+class NotifierTestMediator extends Mediator<unknown, NotifierTestNotifications>
+{
+	public received: string[] = [];
+
+	constructor()
+	{
+		super("NotifierTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["user/login", "user/logout"];
+	}
+
+	public override async handleNotification(notification: TypedNotification<NotifierTestNotifications>): Promise<void>
+	{
+		if (Notification.isNamed(notification, "user/login"))
+			this.received.push("login:" + notification.getBody().name);
+
+		else if (Notification.isNamed(notification, "user/logout"))
+			this.received.push("logout");
+	}
+}
+
+class NotifierTestAddCommand extends SimpleCommand<NotifierTestNotifications, "counter/add">
+{
+	public override async execute(notification: TypedNotification<NotifierTestNotifications, "counter/add">): Promise<void>
+	{
+		const proxy = this.facade.retrieveProxy<IProxy<number>>("counter");
+		proxy.setData(proxy.getData() + notification.getBody());
+	}
+}
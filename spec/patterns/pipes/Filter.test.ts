@@ -0,0 +1,47 @@
+import { Filter, FilterControlMessage, IPipeMessage, Message, PipeListener } from "puremvc";
+
+describe("Filter Test", () =>
+{
+	let received: IPipeMessage[];
+	let filter: Filter<{ minimum: number }>;
+
+	beforeEach(() =>
+	{
+		received = [];
+		filter = new Filter("minimum", new PipeListener((message) => received.push(message)),
+			(message, params) => (message.getBody() as number) >= params.minimum, { minimum: 5 });
+	});
+
+	it("Filters Messages", () =>
+	{
+		expect(filter.write(new Message(Message.NORMAL, undefined, 3))).toBe(false);
+		expect(filter.write(new Message(Message.NORMAL, undefined, 8))).toBe(true);
+		expect(received.map((message) => message.getBody())).toEqual([8]);
+	});
+
+	it("Is Controlled by Messages", () =>
+	{
+		expect(filter.write(new FilterControlMessage(FilterControlMessage.SET_PARAMS, "minimum", undefined, { minimum: 2 }))).toBe(true);
+		filter.write(new Message(Message.NORMAL, undefined, 3));
+
+		filter.write(new FilterControlMessage(FilterControlMessage.SET_FILTER, "minimum", (message) => message.getBody() === 1));
+		filter.write(new Message(Message.NORMAL, undefined, 3));
+		filter.write(new Message(Message.NORMAL, undefined, 1));
+
+		filter.write(new FilterControlMessage(FilterControlMessage.BYPASS, "minimum"));
+		filter.write(new Message(Message.NORMAL, undefined, 0));
+
+		filter.write(new FilterControlMessage(FilterControlMessage.FILTER, "minimum"));
+		filter.write(new Message(Message.NORMAL, undefined, 0));
+
+		expect(received.map((message) => message.getBody())).toEqual([3, 1, 0]);
+	});
+
+	it("Passes on Messages for Other Filters", () =>
+	{
+		const control = new FilterControlMessage(FilterControlMessage.BYPASS, "other");
+
+		expect(filter.write(control)).toBe(true);
+		expect(received).toEqual([control]);
+	});
+});
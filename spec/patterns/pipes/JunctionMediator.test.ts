@@ -0,0 +1,103 @@
+import { Facade, IFacade, INotification, IPipeMessage, Junction, JunctionMediator, Mediator, Message, NotificationInterest, Pipe } from "puremvc";
+
+describe("JunctionMediator Test", () =>
+{
+	let shell: IFacade;
+	let logger: IFacade;
+	let shellMediator: ShellJunctionMediator;
+	let loggerMediator: LoggerJunctionMediator;
+
+	beforeEach(async () =>
+	{
+		shell = Facade.getInstance("JunctionMediatorTestShell");
+		logger = Facade.getInstance("JunctionMediatorTestLogger");
+
+		shellMediator = new ShellJunctionMediator();
+		loggerMediator = new LoggerJunctionMediator();
+		shell.registerMediator(shellMediator);
+		logger.registerMediator(loggerMediator);
+
+		const pipe = new Pipe();
+		await shell.sendNotification(JunctionMediator.ACCEPT_OUTPUT_PIPE, pipe, "toLogger");
+		await logger.sendNotification(JunctionMediator.ACCEPT_INPUT_PIPE, pipe, "fromShell");
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("JunctionMediatorTestShell");
+		await Facade.removeCore("JunctionMediatorTestLogger");
+	});
+
+	it("Accepts Pipes", () =>
+	{
+		expect(shellMediator.junction.hasOutputPipe("toLogger")).toBe(true);
+		expect(loggerMediator.junction.hasInputPipe("fromShell")).toBe(true);
+		expect(loggerMediator.junction.hasOutputPipe("fromShell")).toBe(false);
+	});
+
+	it("Bridges Notifications Between Cores", async () =>
+	{
+		const logged = new LoggedMediator();
+		logger.registerMediator(logged);
+
+		await shell.sendNotification("log", "started");
+
+		expect(logged.received).toEqual(["started"]);
+	});
+
+	it("Removes Pipes", () =>
+	{
+		const junction = shellMediator.junction;
+
+		expect(junction.retrievePipe("toLogger")).toBeInstanceOf(Pipe);
+		expect(junction.removePipe("toLogger")).toBeInstanceOf(Pipe);
+		expect(junction.hasPipe("toLogger")).toBe(false);
+		expect(junction.sendMessage("toLogger", new Message())).toBe(false);
+		expect(junction.registerPipe("toLogger", Junction.OUTPUT, new Pipe())).toBe(true);
+		expect(junction.registerPipe("toLogger", Junction.OUTPUT, new Pipe())).toBe(false);
+	});
+});
+
+class ShellJunctionMediator extends JunctionMediator
+{
+	public override listNotificationInterests(): NotificationInterest[]
+	{
+		return [...super.listNotificationInterests(), "log"];
+	}
+
+	public override async handleNotification(notification: INotification): Promise<void>
+	{
+		if (notification.getName() === "log")
+			this.junction.sendMessage("toLogger", new Message(Message.NORMAL, undefined, notification.getBody()));
+		else
+			await super.handleNotification(notification);
+	}
+}
+
+class LoggerJunctionMediator extends JunctionMediator
+{
+	public override handlePipeMessage(message: IPipeMessage): void
+	{
+		this.sendNotification("logged", message.getBody());
+	}
+}
+
+class LoggedMediator extends Mediator
+{
+	public received: string[] = [];
+
+	constructor()
+	{
+		super("LoggedMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["logged"];
+	}
+
+	public override async handleNotification(notification: INotification<string>): Promise<void>
+	{
+		this.received.push(notification.getBody());
+	}
+}
@@ -0,0 +1,57 @@
+import { IPipeMessage, Message, Pipe, PipeListener, TeeMerge, TeeSplit } from "puremvc";
+
+describe("Pipe Test", () =>
+{
+	it("Connects and Disconnects", () =>
+	{
+		const received: IPipeMessage[] = [];
+		const listener = new PipeListener((message) => received.push(message));
+		const pipe = new Pipe();
+		const message = new Message(Message.NORMAL, { testProp: 1 }, "body");
+
+		expect(pipe.write(message)).toBe(false);
+		expect(pipe.connect(listener)).toBe(true);
+		expect(pipe.connect(new Pipe())).toBe(false);
+		expect(pipe.write(message)).toBe(true);
+		expect(received).toEqual([message]);
+		expect(pipe.disconnect()).toBe(listener);
+		expect(pipe.write(message)).toBe(false);
+	});
+
+	it("Splits Messages", () =>
+	{
+		const first: IPipeMessage[] = [];
+		const second: IPipeMessage[] = [];
+		const firstListener = new PipeListener((message) => first.push(message));
+		const tee = new TeeSplit(new Pipe(firstListener), new PipeListener((message) => second.push(message)));
+		const message = new Message();
+
+		expect(tee.write(message)).toBe(true);
+		expect(first).toEqual([message]);
+		expect(second).toEqual([message]);
+
+		expect(tee.disconnect()).toBeInstanceOf(PipeListener);
+		expect(tee.disconnectFitting(firstListener)).toBeUndefined();
+
+		tee.connect(new Pipe());
+
+		expect(tee.write(message)).toBe(false);
+		expect(first).toEqual([message, message]);
+	});
+
+	it("Merges Messages", () =>
+	{
+		const received: IPipeMessage[] = [];
+		const first = new Pipe();
+		const second = new Pipe();
+		const merge = new TeeMerge(first, second);
+		merge.connect(new PipeListener((message) => received.push(message)));
+
+		const messages = [new Message(Message.NORMAL, undefined, 1), new Message(Message.NORMAL, undefined, 2)];
+		first.write(messages[0]);
+		second.write(messages[1]);
+
+		expect(received).toEqual(messages);
+		expect(merge.connectInput(first)).toBe(false);
+	});
+});
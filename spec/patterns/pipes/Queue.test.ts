@@ -0,0 +1,48 @@
+import { IPipeMessage, Message, PipeListener, Queue, QueueControlMessage } from "puremvc";
+
+describe("Queue Test", () =>
+{
+	let received: IPipeMessage[];
+	let queue: Queue;
+
+	const low = new Message(Message.NORMAL, undefined, "low", Message.PRIORITY_LOW);
+	const medium = new Message(Message.NORMAL, undefined, "medium");
+	const high = new Message(Message.NORMAL, undefined, "high", Message.PRIORITY_HIGH);
+
+	beforeEach(() =>
+	{
+		received = [];
+		queue = new Queue(new PipeListener((message) => received.push(message)));
+	});
+
+	it("Flushes in Order", () =>
+	{
+		queue.write(low);
+		queue.write(high);
+
+		expect(received).toEqual([]);
+		expect(queue.getSize()).toBe(2);
+
+		expect(queue.write(new QueueControlMessage(QueueControlMessage.FLUSH))).toBe(true);
+		expect(received).toEqual([low, high]);
+		expect(queue.getSize()).toBe(0);
+	});
+
+	it("Sorts by Priority", () =>
+	{
+		queue.write(new QueueControlMessage(QueueControlMessage.SORT));
+		queue.write(low);
+		queue.write(medium);
+		queue.write(high);
+		queue.write(new QueueControlMessage(QueueControlMessage.FLUSH));
+
+		expect(received).toEqual([high, medium, low]);
+
+		queue.write(new QueueControlMessage(QueueControlMessage.FIFO));
+		queue.write(low);
+		queue.write(high);
+		queue.flush();
+
+		expect(received.slice(3)).toEqual([low, high]);
+	});
+});
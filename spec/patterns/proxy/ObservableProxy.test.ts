@@ -0,0 +1,127 @@
+import { Facade, IFacade, IDataChange, INotification, Mediator, ObservableProxy } from "puremvc";
+
+describe("ObservableProxy Test", () =>
+{
+	let facade: IFacade;
+	let mediator: ObservableProxyTestMediator;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("ObservableProxyTest");
+
+		mediator = new ObservableProxyTestMediator();
+		facade.registerMediator(mediator);
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("ObservableProxyTest");
+	});
+
+	it("Broadcasts Set Data", async () =>
+	{
+		const proxy = new ObservableProxy<number>("counter", 1);
+		facade.registerProxy(proxy);
+
+		await proxy.setData(2);
+		await proxy.setData(2);
+
+		expect(proxy.getChangeNotification()).toBe("counter/changed");
+		expect(mediator.received).toEqual([["counter/changed", { proxyName: "counter", previous: 1, next: 2, keys: [] }]]);
+	});
+
+	it("Broadcasts Replaced Maps and Dates", async () =>
+	{
+		const previous = new Map([["ada", 36]]);
+		const next = new Map([["ada", 37]]);
+		const proxy = new ObservableProxy<Map<string, number>>("ages", previous);
+		facade.registerProxy(proxy);
+
+		await proxy.setData(next);
+
+		const date = new ObservableProxy<Date>("date", new Date(0));
+		facade.registerProxy(date);
+
+		await date.setData(new Date(1));
+
+		expect(mediator.received.map(([name]) => name)).toEqual(["ages/changed", "date/changed"]);
+		expect(mediator.received[0][1]).toEqual({ proxyName: "ages", previous, next, keys: [] });
+	});
+
+	it("Custom Change Notification", async () =>
+	{
+		const proxy = new ObservableProxy<string>("title", "a", "titleChanged");
+		facade.registerProxy(proxy);
+
+		await proxy.setData("b");
+
+		expect(mediator.received.map(([name]) => name)).toEqual(["titleChanged"]);
+	});
+
+	it("Partial Updates Broadcast Each Key", async () =>
+	{
+		const proxy = new ObservableProxy("user", { name: "ada", age: 36, admin: false });
+		facade.registerProxy(proxy);
+
+		await proxy.update({ age: 37, admin: false });
+
+		expect(proxy.getData()).toEqual({ name: "ada", age: 37, admin: false });
+		expect(mediator.received).toEqual([
+			["user/changed", { proxyName: "user", previous: { name: "ada", age: 36, admin: false }, next: { name: "ada", age: 37, admin: false }, keys: ["age"] }],
+			["user/changed/age", { proxyName: "user", previous: 36, next: 37, keys: ["age"] }]
+		]);
+	});
+
+	it("Batches Mutations", async () =>
+	{
+		const proxy = new ObservableProxy("user", { name: "ada", age: 36 });
+		facade.registerProxy(proxy);
+
+		await proxy.batch(async () =>
+		{
+			await proxy.update({ name: "grace" });
+
+			await proxy.batch(() => proxy.update({ age: 40 }));
+
+			await proxy.update({ age: 85 });
+		});
+
+		expect(mediator.received.map(([name]) => name)).toEqual(["user/changed", "user/changed/name", "user/changed/age"]);
+		expect(mediator.received[0][1].previous).toEqual({ name: "ada", age: 36 });
+		expect(mediator.received[0][1].next).toEqual({ name: "grace", age: 85 });
+	});
+
+	it("Batch Without Change", async () =>
+	{
+		const proxy = new ObservableProxy("user", { name: "ada" });
+		facade.registerProxy(proxy);
+
+		await proxy.batch(async () =>
+		{
+			await proxy.update({ name: "grace" });
+			await proxy.update({ name: "ada" });
+		});
+
+		expect(mediator.received).toEqual([]);
+	});
+});
+
+class ObservableProxyTestMediator extends Mediator
+{
+	public received: [string, IDataChange<any>][] = [];
+
+	constructor()
+	{
+		super("ObservableProxyTestMediator");
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return ["*/changed", "*/changed/*", "titleChanged"];
+	}
+
+	public override async handleNotification(notification: INotification<IDataChange>): Promise<void>
+	{
+		this.received.push([notification.getName(), notification.getBody()]);
+	}
+}
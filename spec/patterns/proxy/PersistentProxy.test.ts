@@ -0,0 +1,232 @@
+import { Facade, IFacade, FileStorageAdapter, INotification, IStorageAdapter, MemoryStorageAdapter, Observer, PersistentProxy, View, WebStorageAdapter } from "puremvc";
+import { FakeClock } from "puremvc/testing";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+describe("PersistentProxy Test", () =>
+{
+	let facade: IFacade;
+	let adapter: MemoryStorageAdapter;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("PersistentProxyTest");
+		adapter = new MemoryStorageAdapter();
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("PersistentProxyTest");
+	});
+
+	it("Writes Through and Loads on Register", async () =>
+	{
+		const proxy = new PersistentProxy<string[]>("todos", { adapter }, []);
+		await proxy.setData(["write tests"]);
+
+		expect(JSON.parse(await adapter.read("todos"))).toEqual({ version: 0, data: ["write tests"] });
+
+		const reloaded = new PersistentProxy<string[]>("todos", { adapter }, []);
+		facade.registerProxy(reloaded);
+		await reloaded.whenLoaded();
+
+		expect(reloaded.getData()).toEqual(["write tests"]);
+	});
+
+	it("Keeps Initial Data When Nothing Is Stored", async () =>
+	{
+		const proxy = new PersistentProxy("settings", { adapter, key: "app/settings" }, { theme: "dark" });
+		facade.registerProxy(proxy);
+		await proxy.whenLoaded();
+
+		expect(proxy.getData()).toEqual({ theme: "dark" });
+		expect(await adapter.read("app/settings")).toBeUndefined();
+	});
+
+	it("Debounces Writes", async () =>
+	{
+		const clock = new FakeClock();
+		const write = jest.spyOn(adapter, "write");
+		const proxy = new PersistentProxy<number>("counter", { adapter, debounce: 20, clock });
+
+		const first = proxy.setData(1);
+		await clock.tick(10);
+		const second = proxy.setData(2);
+		await clock.tick(10);
+
+		expect(write).not.toHaveBeenCalled();
+
+		await clock.tick(10);
+		await Promise.all([first, second]);
+
+		expect(write).toHaveBeenCalledTimes(1);
+		expect(clock.getPendingTimers()).toBe(0);
+		expect(JSON.parse(await adapter.read("counter")).data).toBe(2);
+	});
+
+	it("Flushes Pending Writes", async () =>
+	{
+		const proxy = new PersistentProxy<number>("counter", { adapter, debounce: 10000 });
+
+		const pending = proxy.setData(3);
+		await proxy.flush();
+		await pending;
+
+		expect(JSON.parse(await adapter.read("counter")).data).toBe(3);
+
+		await proxy.clear();
+
+		expect(await adapter.read("counter")).toBeUndefined();
+	});
+
+	it("Migrates Stored Data", async () =>
+	{
+		await adapter.write("user", JSON.stringify({ version: 1, data: { name: "Ada Lovelace" } }));
+
+		const proxy = new PersistentProxy("user", {
+			adapter,
+			version: 3,
+			migrations: {
+				2: (data) => ({ first: data.name.split(" ")[0], last: data.name.split(" ")[1] }),
+				3: async (data) => ({ ...data, admin: false })
+			}
+		});
+
+		await proxy.load();
+
+		expect(proxy.getData()).toEqual({ first: "Ada", last: "Lovelace", admin: false });
+		expect(JSON.parse(await adapter.read("user")).version).toBe(3);
+	});
+
+	it("Rejects Unknown Versions", async () =>
+	{
+		await adapter.write("user", JSON.stringify({ version: 1, data: {} }));
+
+		await expect(new PersistentProxy("user", { adapter, version: 0 }).load()).rejects.toThrow(PersistentProxy.VERSION_MSG + 1);
+		await expect(new PersistentProxy("user", { adapter, version: 2 }).load()).rejects.toThrow(PersistentProxy.MIGRATION_MSG + 2);
+	});
+
+	it("Data Set While Loading Wins", async () =>
+	{
+		await adapter.write("user", JSON.stringify({ version: 0, data: "stored" }));
+
+		const proxy = new PersistentProxy<string>("user", { adapter });
+		facade.registerProxy(proxy);
+
+		await proxy.setData("user-set");
+		await proxy.whenLoaded();
+
+		expect(proxy.getData()).toBe("user-set");
+		expect(JSON.parse(await adapter.read("user")).data).toBe("user-set");
+	});
+
+	it("Reports Failed Writes", async () =>
+	{
+		const unhandled = jest.fn();
+		process.on("unhandledRejection", unhandled);
+
+		const failing: IStorageAdapter = {
+			read: async () => undefined,
+			write: async () => { throw new Error("disk full"); },
+			remove: async () => {}
+		};
+
+		const failures: INotification[] = [];
+		View.getInstance("PersistentProxyTest").registerObserver(PersistentProxy.WRITE_FAILED, new Observer((notification: INotification) => { failures.push(notification); }, failures));
+
+		const immediate = new PersistentProxy<number>("immediate", { adapter: failing });
+		const debounced = new PersistentProxy<number>("debounced", { adapter: failing, debounce: 5 });
+		facade.registerProxy(immediate);
+		facade.registerProxy(debounced);
+
+		immediate.setData(1);
+		debounced.setData(1);
+		debounced.setData(2);
+
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		process.off("unhandledRejection", unhandled);
+
+		expect(unhandled).not.toHaveBeenCalled();
+		expect(failures.map((notification) => notification.getType())).toEqual(["immediate", "debounced"]);
+		expect((failures[0].getBody() as Error).message).toBe("disk full");
+		await expect(immediate.setData(2)).rejects.toThrow("disk full");
+	});
+
+	it("Does Not Report Failed Writes Once Removed", async () =>
+	{
+		const unhandled = jest.fn();
+		process.on("unhandledRejection", unhandled);
+
+		const failing: IStorageAdapter = {
+			read: async () => undefined,
+			write: async () => { throw new Error("disk full"); },
+			remove: async () => {}
+		};
+
+		const failures: INotification[] = [];
+		View.getInstance("PersistentProxyTest").registerObserver(PersistentProxy.WRITE_FAILED, new Observer((notification: INotification) => { failures.push(notification); }, failures));
+
+		const unregistered = new PersistentProxy<number>("unregistered", { adapter: failing });
+		const removed = new PersistentProxy<number>("removed", { adapter: failing });
+		facade.registerProxy(removed);
+		await facade.removeProxyAsync("removed");
+
+		unregistered.setData(1);
+		removed.setData(1);
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		process.off("unhandledRejection", unhandled);
+
+		expect(unhandled).not.toHaveBeenCalled();
+		expect(failures).toEqual([]);
+		expect(Facade.hasCore(unregistered.multitonKey)).toBe(false);
+	});
+
+	it("Web Storage Adapter", async () =>
+	{
+		const items = new Map<string, string>();
+		const storage = {
+			getItem: (key: string) => items.get(key) ?? null,
+			setItem: (key: string, value: string) => { items.set(key, value); },
+			removeItem: (key: string) => { items.delete(key); }
+		};
+
+		const webAdapter = new WebStorageAdapter(storage, "app:");
+
+		expect(await webAdapter.read("theme")).toBeUndefined();
+
+		await webAdapter.write("theme", "dark");
+
+		expect(items.get("app:theme")).toBe("dark");
+		expect(await webAdapter.read("theme")).toBe("dark");
+
+		await webAdapter.remove("theme");
+
+		expect(items.size).toBe(0);
+	});
+
+	it("File Storage Adapter", async () =>
+	{
+		const directory = await mkdtemp(join(tmpdir(), "puremvc-"));
+
+		try
+		{
+			const fileAdapter = new FileStorageAdapter(join(directory, "store"));
+
+			expect(await fileAdapter.read("user/settings")).toBeUndefined();
+
+			await fileAdapter.write("user/settings", "{}");
+
+			expect(await fileAdapter.read("user/settings")).toBe("{}");
+
+			await fileAdapter.remove("user/settings");
+
+			expect(await fileAdapter.read("user/settings")).toBeUndefined();
+		}
+		finally
+		{
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+});
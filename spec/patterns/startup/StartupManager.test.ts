@@ -0,0 +1,220 @@
+import { Facade, IFacade, INotification, IStartupProgress, Mediator, StartupManager } from "puremvc";
+
+describe("StartupManager Test", () =>
+{
+	let facade: IFacade;
+	let mediator: StartupManagerTestMediator;
+	let startup: StartupManager;
+
+	beforeEach(() =>
+	{
+		facade = Facade.getInstance("StartupManagerTest");
+
+		mediator = new StartupManagerTestMediator();
+		facade.registerMediator(mediator);
+
+		startup = new StartupManager();
+		startup.initializeNotifier("StartupManagerTest");
+	});
+
+	afterEach(async () =>
+	{
+		await Facade.removeCore("StartupManagerTest");
+	});
+
+	it("Initializes in Dependency Order", async () =>
+	{
+		const order: string[] = [];
+		const resource = (name: string, dependencies: string[] = []) => ({
+			name,
+			dependencies,
+			initialize: async () =>
+			{
+				await delay(5);
+				order.push(name);
+			}
+		});
+
+		startup.addResource(resource("user", ["config", "session"]));
+		startup.addResource(resource("session", ["config"]));
+		startup.addResource(resource("config"));
+
+		await startup.start();
+
+		expect(order).toEqual(["config", "session", "user"]);
+		expect(mediator.received).toEqual([
+			[StartupManager.RESOURCE_LOADED, { resourceName: "config", loaded: 1, total: 3 }],
+			[StartupManager.RESOURCE_LOADED, { resourceName: "session", loaded: 2, total: 3 }],
+			[StartupManager.RESOURCE_LOADED, { resourceName: "user", loaded: 3, total: 3 }],
+			[StartupManager.READY, { resourceName: undefined, loaded: 3, total: 3 }]
+		]);
+	});
+
+	it("Limits Concurrency", async () =>
+	{
+		startup = new StartupManager({ concurrency: 2 });
+		startup.initializeNotifier("StartupManagerTest");
+
+		let running = 0;
+		let maxRunning = 0;
+
+		for (let i = 0; i < 5; i++)
+		{
+			startup.addResource({
+				name: "resource" + i,
+				initialize: async () =>
+				{
+					maxRunning = Math.max(maxRunning, ++running);
+					await delay(5);
+					running--;
+				}
+			});
+		}
+
+		await startup.start();
+
+		expect(maxRunning).toBe(2);
+	});
+
+	it("Retries Failed Resources", async () =>
+	{
+		startup = new StartupManager({ retries: 2 });
+		startup.initializeNotifier("StartupManagerTest");
+
+		let attempts = 0;
+
+		startup.addResource({
+			name: "flaky",
+			initialize: () =>
+			{
+				if (++attempts < 3)
+					throw new Error("unavailable");
+			}
+		});
+
+		await startup.start();
+
+		expect(attempts).toBe(3);
+		expect(mediator.names()).toEqual([StartupManager.RESOURCE_LOADED, StartupManager.READY]);
+	});
+
+	it("Fails on Timeout", async () =>
+	{
+		let signal: AbortSignal;
+
+		startup.addResource({
+			name: "slow",
+			timeout: 10,
+			initialize: (attemptSignal) =>
+			{
+				signal = attemptSignal;
+				return delay(50);
+			}
+		});
+
+		await expect(startup.start()).rejects.toThrow(StartupManager.TIMEOUT_MSG + "slow");
+
+		expect(signal.aborted).toBe(true);
+		expect(mediator.names()).toEqual([StartupManager.RESOURCE_FAILED, StartupManager.FAILED]);
+		expect(mediator.received[1][1].resourceName).toBe("slow");
+	});
+
+	it("Stops When a Resource Fails", async () =>
+	{
+		const initialized: string[] = [];
+
+		startup.addResource({ name: "config", initialize: () => { throw new Error("broken"); } });
+		startup.addResource({ name: "user", dependencies: ["config"], initialize: () => { initialized.push("user"); } });
+
+		await expect(startup.start()).rejects.toThrow("broken");
+
+		expect(initialized).toEqual([]);
+		expect(mediator.names()).toEqual([StartupManager.RESOURCE_FAILED, StartupManager.FAILED]);
+	});
+
+	it("Aborts", async () =>
+	{
+		startup.addResource({ name: "endless", initialize: (signal) => new Promise((resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason))) });
+
+		const started = startup.start();
+		startup.abort();
+
+		await expect(started).rejects.toThrow(StartupManager.ABORTED_MSG);
+		expect(mediator.names()).toContain(StartupManager.FAILED);
+	});
+
+	it("Aborts During the Retry Delay", async () =>
+	{
+		startup = new StartupManager({ retries: 1, retryDelay: 60000 });
+		startup.initializeNotifier("StartupManagerTest");
+
+		let attempts = 0;
+
+		startup.addResource({ name: "flaky", initialize: () => { attempts++; throw new Error("unavailable"); } });
+
+		const started = startup.start();
+		await delay(5);
+		startup.abort();
+
+		await expect(started).rejects.toThrow(StartupManager.ABORTED_MSG);
+		await delay(5);
+
+		expect(attempts).toBe(1);
+		expect(mediator.names()).toEqual([StartupManager.FAILED, StartupManager.RESOURCE_FAILED]);
+	});
+
+	it("Rejects Non Positive Concurrency", () =>
+	{
+		expect(() => new StartupManager({ concurrency: 0 })).toThrow(StartupManager.CONCURRENCY_MSG + "0");
+		expect(() => new StartupManager({ concurrency: NaN })).toThrow(StartupManager.CONCURRENCY_MSG + "NaN");
+		expect(() => new StartupManager({ concurrency: 1 })).not.toThrow();
+	});
+
+	it("Rejects Invalid Dependencies", async () =>
+	{
+		expect(() => startup.addResource({ name: "a", initialize: () => {} })).not.toThrow();
+		expect(() => startup.addResource({ name: "a", initialize: () => {} })).toThrow(StartupManager.DUPLICATE_MSG + "a");
+
+		startup.addResource({ name: "b", dependencies: ["missing"], initialize: () => {} });
+
+		await expect(startup.start()).rejects.toThrow(StartupManager.UNKNOWN_DEPENDENCY_MSG + "b -> missing");
+
+		const circular = new StartupManager();
+		circular.initializeNotifier("StartupManagerTest");
+		circular.addResource({ name: "a", dependencies: ["b"], initialize: () => {} });
+		circular.addResource({ name: "b", dependencies: ["a"], initialize: () => {} });
+
+		await expect(circular.start()).rejects.toThrow(StartupManager.CIRCULAR_MSG + "a -> b -> a");
+	});
+});
+
+function delay(milliseconds: number): Promise<void>
+{
+	return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+class StartupManagerTestMediator extends Mediator
+{
+	public received: [string, IStartupProgress][] = [];
+
+	constructor()
+	{
+		super("StartupManagerTestMediator");
+	}
+
+	public names(): string[]
+	{
+		return this.received.map(([name]) => name);
+	}
+
+	public override listNotificationInterests(): string[]
+	{
+		return [StartupManager.RESOURCE_LOADED, StartupManager.RESOURCE_FAILED, StartupManager.READY, StartupManager.FAILED];
+	}
+
+	public override async handleNotification(notification: INotification<IStartupProgress>): Promise<void>
+	{
+		const { resourceName, loaded, total } = notification.getBody();
+		this.received.push([notification.getName(), { resourceName, loaded, total }]);
+	}
+}
@@ -0,0 +1,90 @@
+import { Facade, INotification, Mediator, SimpleCommand } from "puremvc";
+import { FacadeHarness } from "puremvc/testing";
+
+describe("FacadeHarness Test", () =>
+{
+	const harness = FacadeHarness.install({ beforeEach, afterEach });
+
+	it("Creates an Isolated Core per Test", () =>
+	{
+		const { facade } = harness();
+
+		expect(Facade.hasCore(facade.getMultitonKey())).toBe(true);
+		expect(facade.getMultitonKey()).toMatch(/^FacadeHarness\//);
+		expect(facade.listMediatorNames()).toEqual([]);
+
+		facade.registerMediator(new FacadeHarnessTestMediator());
+	});
+
+	it("Records Notifications", async () =>
+	{
+		const { facade } = harness();
+		facade.registerMediator(new FacadeHarnessTestMediator());
+		facade.registerCommand("order/placed", FacadeHarnessTestCommand);
+
+		await facade.sendNotification("order/placed", { id: 7, items: ["book"] });
+
+		expect(harness().getNotifications().map((notification) => notification.getName())).toEqual(["order/placed", "order/confirmed"]);
+		expect(harness().expectNotification("order/confirmed").getBody()).toBe(7);
+		expect(harness().expectNotification("order/placed", { id: 7, items: ["book"] }).getType()).toBeUndefined();
+		harness().expectNotification("order/placed", expect.objectContaining({ id: 7 }));
+		harness().expectNotification("order/confirmed", (body: number, notification: INotification) => body === 7 && notification.getCausationId() !== undefined);
+		harness().expectNoNotification("order/cancelled");
+
+		expect(() => harness().expectNotification("order/placed", { id: 8 })).toThrow(FacadeHarness.NOT_SENT_MSG + "order/placed\nSent: order/placed, order/confirmed");
+		expect(() => harness().expectNoNotification("order/confirmed")).toThrow(FacadeHarness.SENT_MSG + "order/confirmed");
+
+		harness().clearNotifications();
+
+		expect(harness().getNotifications()).toEqual([]);
+	});
+
+	it("Fakes Proxies and Stubs Commands", async () =>
+	{
+		const { facade } = harness();
+		facade.registerCommand("price/quote", FacadeHarnessTestCommand);
+
+		const proxy = harness().registerFakeProxy("prices", { book: 12 });
+		const stub = harness().stubCommand("price/quote", (notification) => proxy.getData().book * notification.getBody());
+
+		await expect(facade.request("price/quote", 2)).resolves.toBe(24);
+
+		expect(facade.retrieveProxy("prices")).toBe(proxy);
+		expect(stub.calls.map((notification) => notification.getBody())).toEqual([2]);
+		expect(harness().registerFakeProxy("prices", {})).not.toBe(proxy);
+	});
+
+	it("Fails Outside of a Test", () =>
+	{
+		const hooks: { [name: string]: () => unknown } = {};
+		const outside = FacadeHarness.install({
+			beforeEach: (hook) => { hooks.beforeEach = hook; },
+			afterEach: (hook) => { hooks.afterEach = hook; }
+		});
+
+		expect(() => outside()).toThrow(FacadeHarness.NO_TEST_MSG);
+
+		hooks.beforeEach();
+		const key = outside().facade.getMultitonKey();
+
+		expect(Facade.hasCore(key)).toBe(true);
+
+		return Promise.resolve(hooks.afterEach()).then(() => expect(Facade.hasCore(key)).toBe(false));
+	});
+});
+
+class FacadeHarnessTestCommand extends SimpleCommand
+{
+	public override async execute(notification: INotification<{ id: number }>): Promise<void>
+	{
+		await this.sendNotification("order/confirmed", notification.getBody().id);
+	}
+}
+
+class FacadeHarnessTestMediator extends Mediator
+{
+	constructor()
+	{
+		super("FacadeHarnessTestMediator");
+	}
+}
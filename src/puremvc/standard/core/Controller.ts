@@ -1,11 +1,16 @@
-import { IController, INotification, IView, CommandConstructor } from "../interfaces";
+import { IClock, IController, INotification, IView, CommandConstructor, ICommandFailure, ICommandInterceptor, ICommandMapping, ICommandPolicy, ISpanListener, NotificationInterest } from "../interfaces";
+import { Notification } from "../patterns/observer/Notification";
+import { NotificationPattern } from "../patterns/observer/NotificationPattern";
 import { Observer } from "../patterns/observer/Observer";
+import { Instrumentation } from "./Instrumentation";
+import { Multiton } from "./Multiton";
+import { SystemClock } from "./SystemClock";
 import { View } from "./View";
 
 /**
  * The <code>Controller</code> class for PureMVC.
  *
- * A singleton <code>IController</code> implementation.
+ * A multiton <code>IController</code> implementation.
  *
  * In PureMVC, the <code>Controller</code> class follows the 'Command and Controller' strategy,
  * and assumes these responsibilities:
@@ -19,6 +24,10 @@ import { View } from "./View";
  * <code>INotification</code> when notified by the <code>View</code>.
  * <LI>Calling the <code>ICommand</code>'s <code>execute</code> method, passing in the
  * <code>INotification</code>.
+ * <LI>Applying the <code>ICommandPolicy</code> a command was registered with: retrying its
+ * failed attempts with an exponential backoff, timing them out, and sending
+ * <code>COMMAND_RETRY</code> and <code>COMMAND_FAILED</code> with an
+ * <code>ICommandFailure</code> as body.
  *
  * Your application must register <code>ICommand</code>s with the <code>Controller</code>.
  *
@@ -37,35 +46,87 @@ export class Controller
 
 	/**
 	 * Mapping of <code>Notification<code> names to <code>Command</code> constructors references.
+	 * Commands registered for a pattern are keyed by <code>NotificationPattern.keyOf</code>.
 	 *
 	 * @protected
 	 */		
 	#commandMap:Map<string, CommandConstructor>;
 
 	/**
+	 * Mapping of pattern keys to the patterns commands were registered for.
+	 *
+	 * @protected
+	 */
+	#patternMap:Map<string, NotificationInterest>;
+
+	/**
+	 * Mapping of notification names, or pattern keys, to the policies of their commands.
+	 *
+	 * @protected
+	 */
+	#policyMap:Map<string, ICommandPolicy>;
+
+	/**
+	 * The timers used to apply the policies.
+	 *
+	 * @protected
+	 */
+	#clock:IClock;
+
+	/**
+	 * The chain of <code>ICommandInterceptor</code>s run around every command, outermost
+	 * first.
+	 *
+	 * @protected
+	 */
+	#interceptors:ICommandInterceptor[];
+
+	/**
+	 * Emits the spans of the commands executed.
+	 *
+	 * @protected
+	 */
+	#instrumentation:Instrumentation;
+
+	/**
+	 * The multiton key for this Core.
+	 *
+	 * @protected
+	 */
+	#multitonKey:string;
+
 	/**
 	 * Constructs a <code>Controller</code> instance.
 	 *
-	 * This <code>IController</code> implementation is a singleton, so you should not call the
-	 * constructor directly, but instead call the static singleton Factory method
-	 * <code>Controller.getInstance()</code>.
+	 * This <code>IController</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton Factory method
+	 * <code>Controller.getInstance( key )</code>.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core this <code>Controller</code> belongs to.
 	 * 
 	 * @throws Error
-	 * 		Throws an error if an instance for this singleton has already been constructed.
+	 * 		Throws an error if an instance for this multiton key has already been constructed.
 	 */
-	constructor()
+	constructor(key:string = Multiton.DEFAULT_KEY)
 	{
-		if (Controller.instance)
-			throw Error( Controller.SINGLETON_MSG );
+		if (Controller.instanceMap.has(key))
+			throw Error( Controller.MULTITON_MSG );
 
-		Controller.instance = this;
+		this.#multitonKey = key;
+		Controller.instanceMap.set(key, this);
 
 		this.#commandMap = new Map();
+		this.#patternMap = new Map();
+		this.#policyMap = new Map();
+		this.#clock = new SystemClock();
+		this.#interceptors = [];
+		this.#instrumentation = new Instrumentation(key);
 		this.initializeController();
 	}
 
 	/**
-	 * Initialize the singleton <code>Controller</code> instance.
+	 * Initialize the multiton <code>Controller</code> instance.
 	 * 
 	 * Called automatically by the constructor.
 	 * 
@@ -77,7 +138,7 @@ export class Controller
 	 *		// ensure that the Controller is talking to my IView implementation
 		*		initializeController():void
 		*		{
-		*			this.view = MyView.getInstance();
+		*			this.view = MyView.getInstance( this.getMultitonKey() );
 		*		}
 		* </pre>
 		*
@@ -85,31 +146,198 @@ export class Controller
 		*/
 	protected initializeController():void
 	{
-		this.#view = View.getInstance();
+		this.#view = View.getInstance(this.#multitonKey);
+	}
+
+	/**
+	 * Get the multiton key of the Core this <code>Controller</code> belongs to.
+	 *
+	 * @return
+	 * 		The multiton key.
+	 */
+	public getMultitonKey():string
+	{
+		return this.#multitonKey;
 	}
 
 	/**
 	 * If an <code>ICommand</code> has previously been registered to handle the given
 	 * <code>INotification</code>, then it is executed.
+	 *
+	 * The command is executed through the chain of <code>ICommandInterceptor</code>s, which
+	 * may veto its execution or replace the <code>INotification</code> it receives. It is not
+	 * executed if the signal of the <code>INotification</code> is already aborted.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> the command will receive as parameter.
 	 */
 	public async executeCommand(notification:INotification): Promise<void>
 	{
-		/*
-		 * Typed any here instead of <code>Function</code> ( won't compile if set to Function
-		 * because today the compiler consider that <code>Function</code> is not newable and
-		 * doesn't have a <code>Class</code> type)
-		 */
-		const commandClass = this.#commandMap.get(notification.getName());
+		if (this.#commandMap.has(notification.getName()))
+			await this.#runCommand(notification.getName(), notification);
+	}
 
-		if (commandClass)
+	/**
+	 * Execute a command class through the chain of <code>ICommandInterceptor</code>s.
+	 *
+	 * A value returned by the command replies to the <code>INotification</code>; a reply to
+	 * a replacement <code>INotification</code> is passed back to the original one.
+	 */
+	async #runCommand(key:string, notification:INotification): Promise<void>
+	{
+		const commandClass = this.#commandMap.get(key);
+		const policy = this.#policyMap.get(key);
+		const interceptors = this.#interceptors.slice(0);
+		let executed:INotification = notification;
+
+		const proceed = async (index:number, notification:INotification):Promise<void> =>
+		{
+			if (index < interceptors.length)
+			{
+				const next = (replacement:INotification = notification) => proceed(index + 1, replacement);
+				return interceptors[index].intercept(notification, next, commandClass);
+			}
+
+			if (notification.getSignal?.().aborted)
+				return;
+
+			executed = notification;
+
+			const result = policy ? await this.#executeWithPolicy(commandClass, notification, policy) : await this.#execute(commandClass, notification);
+
+			if (result !== undefined)
+				notification.reply?.(result);
+		};
+
+		await proceed(0, notification);
+
+		if (executed !== notification && executed.hasReply?.())
+			notification.reply?.(executed.getReply());
+	}
+
+	/**
+	 * Execute a new instance of a command class, aborting it with the given signal.
+	 */
+	async #execute(commandClass:CommandConstructor, notification:INotification, signal:AbortSignal = notification.getSignal?.()): Promise<any>
+	{
+		const command = new commandClass();
+		command.initializeNotifier(this.#multitonKey);
+		command.initializeSignal?.(signal);
+
+		return this.#instrumentation.trace(Instrumentation.COMMAND, commandClass.name, notification, () => command.execute( notification ));
+	}
+
+	/**
+	 * Execute a command class, retrying its failed attempts as the policy allows.
+	 */
+	async #executeWithPolicy(commandClass:CommandConstructor, notification:INotification, policy:ICommandPolicy): Promise<any>
+	{
+		const maxAttempts = policy.maxAttempts ?? 1;
+
+		for (let attempt = 1; ; attempt++)
+		{
+			try
+			{
+				return await this.#attempt(commandClass, notification, policy.timeout ?? 0);
+			}
+			catch (error)
+			{
+				const failure:ICommandFailure = { notification, commandClass, attempt, error };
+
+				if (attempt >= maxAttempts || notification.getSignal?.().aborted || !(policy.retryIf?.(error, attempt, notification) ?? true))
+				{
+					await this.#view.notifyObservers(new Notification(Controller.COMMAND_FAILED, failure));
+					throw error;
+				}
+
+				failure.delay = this.#backoff(policy, attempt);
+				await this.#view.notifyObservers(new Notification(Controller.COMMAND_RETRY, failure));
+
+				if (failure.delay > 0)
+					await this.#wait(failure.delay, notification.getSignal?.());
+
+				if (notification.getSignal?.().aborted)
+				{
+					await this.#view.notifyObservers(new Notification(Controller.COMMAND_FAILED, failure));
+					throw error;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Make one attempt at executing a command class, failing it and aborting the signal of
+	 * the command once the timeout elapses.
+	 */
+	async #attempt(commandClass:CommandConstructor, notification:INotification, timeout:number): Promise<any>
+	{
+		if (timeout <= 0)
+			return this.#execute(commandClass, notification);
+
+		const signal = notification.getSignal?.();
+		const controller = new AbortController();
+		const forward = () => controller.abort(signal.reason);
+
+		signal?.addEventListener("abort", forward, { once: true });
+
+		let handle:unknown;
+
+		const timedOut = new Promise<never>((resolve, reject) =>
+		{
+			handle = this.#clock.setTimeout(() =>
+			{
+				const error = Error(Controller.TIMEOUT_MSG + commandClass.name);
+				controller.abort(error);
+				reject(error);
+			}, timeout);
+		});
+
+		try
 		{
-			const command = new commandClass();
-			await command.execute( notification );
+			return await Promise.race([ this.#execute(commandClass, notification, controller.signal), timedOut ]);
 		}
+		finally
+		{
+			this.#clock.clearTimeout(handle);
+			signal?.removeEventListener("abort", forward);
+		}
+	}
+
+	/**
+	 * Wait before retrying a failed attempt, until the delay elapses or the signal is aborted.
+	 */
+	#wait(delay:number, signal?:AbortSignal): Promise<void>
+	{
+		return new Promise<void>((resolve) =>
+		{
+			if (signal?.aborted)
+				return resolve();
+
+			const abort = () =>
+			{
+				this.#clock.clearTimeout(handle);
+				resolve();
+			};
+
+			const handle = this.#clock.setTimeout(() =>
+			{
+				signal?.removeEventListener("abort", abort);
+				resolve();
+			}, delay);
+
+			signal?.addEventListener("abort", abort, { once: true });
+		});
+	}
+
+	/**
+	 * Compute the delay before retrying a failed attempt.
+	 */
+	#backoff(policy:ICommandPolicy, attempt:number):number
+	{
+		const jitter = policy.jitter ?? 0;
+		const delay = Math.min((policy.backoff ?? 0) * (policy.backoffFactor ?? 2) ** (attempt - 1), policy.maxBackoff ?? Infinity);
 
+		return Math.round(delay * (1 + jitter * (2 * this.#clock.random() - 1)));
 	}
 
 	/**
@@ -123,35 +351,74 @@ export class Controller
 	 * The <code>Observer</code> for the new <code>ICommand</code> is only created if this the
 	 * first time an <code>ICommand</code> has been registered for this
 	 * <code>Notification</code> name.
+	 *
+	 * The name may also be a wildcard string such as <code>"user/*"</code> or a
+	 * <code>RegExp</code>, in which case the command handles every <code>INotification</code>
+	 * whose name matches.
 	 * 
 	 * @param notificationName
-	 * 		The name of the <code>INotification</code>.
+	 * 		The name of the <code>INotification</code>, or a pattern matching names.
 	 *
 	 * @param commandClassRef
 	 * 		The constructor of the <code>ICommand</code>.
+	 *
+	 * @param priority
+	 * 		The priority of the command's <code>Observer</code>, used when it is created.
+	 *
+	 * @param policy
+	 * 		Optionally, the retries and timeout applied when executing the command.
 	 */
-	public registerCommand(notificationName:string, commandClass:CommandConstructor):void
+	public registerCommand(notificationName:NotificationInterest, commandClass:CommandConstructor, priority:number = 0, policy?:ICommandPolicy):void
 	{
-		if (!this.#commandMap.has(notificationName))
-			this.#view.registerObserver(notificationName, new Observer( this.executeCommand, this ) );
+		const key = NotificationPattern.keyOf(notificationName);
+
+		if (!this.#commandMap.has(key))
+		{
+			let observer = new Observer( this.executeCommand, this, priority );
+
+			// Pattern commands cannot be looked up by the notification name in executeCommand.
+			if (NotificationPattern.isPattern(notificationName))
+			{
+				this.#patternMap.set(key, notificationName);
+				observer = new Observer( (notification:INotification) => this.#runCommand(key, notification), this, priority );
+			}
 
-		this.#commandMap.set(notificationName, commandClass);
+			this.#view.registerObserver(notificationName, observer);
+		}
+
+		this.#commandMap.set(key, commandClass);
+
+		if (policy)
+			this.#policyMap.set(key, policy);
+		else
+			this.#policyMap.delete(key);
 	}
 	
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
 	 * 
 	 * @param notificationName
-	 * 		Name of the <code>Notification</code> to check wheter an <code>ICommand</code> is
-	 * 		registered for.
+	 * 		Name of the <code>Notification</code>, or pattern, to check wheter an
+	 * 		<code>ICommand</code> is registered for.
 	 *
 	 * @return
 	 * 		An <code>ICommand</code> is currently registered for the given
 	 * 		<code>notificationName</code>.
 	 */
-	public hasCommand( notificationName:string ): boolean
+	public hasCommand( notificationName:NotificationInterest ): boolean
 	{
-		return this.#commandMap.has(notificationName);
+		return this.#commandMap.has(NotificationPattern.keyOf(notificationName));
+	}
+
+	/**
+	 * List the <code>ICommand</code> classes registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A mapping per interest, in registration order.
+	 */
+	public listCommands():ICommandMapping[]
+	{
+		return [...this.#commandMap].map(([key, commandClass]) => ({ interest: this.#patternMap.get(key) ?? key, commandClass }));
 	}
 
 	/**
@@ -159,57 +426,166 @@ export class Controller
 	 * mapping.
 	 *
 	 * @param notificationName
-	 * 		The name of the <code>INotification</code> to remove the <code>ICommand</code>
-	 * 		mapping for.
+	 * 		The name of the <code>INotification</code>, or pattern, to remove the
+	 * 		<code>ICommand</code> mapping for.
 	 */
-	public removeCommand( notificationName:string ):void
+	public removeCommand( notificationName:NotificationInterest ):void
 	{
 		// if the Command is registered...
 		if (this.hasCommand(notificationName))
 		{
+			const key = NotificationPattern.keyOf(notificationName);
+
 			this.#view.removeObserver( notificationName, this );			
-			this.#commandMap.delete(notificationName);
+			this.#commandMap.delete(key);
+			this.#patternMap.delete(key);
+			this.#policyMap.delete(key);
 		}
 	}
 
+	/**
+	 * Append an <code>ICommandInterceptor</code> to the chain run around every command.
+	 *
+	 * Interceptors run in the order they were added, the first one being the outermost.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	public addCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		if (!this.#interceptors.includes(interceptor))
+			this.#interceptors.push(interceptor);
+	}
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code>.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 */
+	public removeCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		const index = this.#interceptors.indexOf(interceptor);
+
+		if (index >= 0)
+			this.#interceptors.splice(index, 1);
+	}
+
+	/**
+	 * Set the timers used to apply the <code>ICommandPolicy</code>s.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code>, such as a fake one in tests.
+	 */
+	public setClock( clock:IClock ):void
+	{
+		this.#clock = clock;
+	}
+
+	/**
+	 * Add a listener receiving a span for every <code>ICommand</code> executed.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	public addSpanListener( listener:ISpanListener ):void
+	{
+		this.#instrumentation.addSpanListener(listener);
+	}
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	public removeSpanListener( listener:ISpanListener ):void
+	{
+		this.#instrumentation.removeSpanListener(listener);
+	}
+
+	/**
+	 * Remove all <code>ICommand</code> mappings and release this multiton instance.
+	 */
 	public async dispose(): Promise<void>
 	{
 		const names = [...this.#commandMap.keys()];
 		
 		names.forEach((name) =>
-			this.removeCommand(name)
+			this.removeCommand(this.#patternMap.get(name) ?? name)
 		);
 
-		Controller.instance = undefined;
+		this.#interceptors = [];
+		Controller.instanceMap.delete(this.#multitonKey);
 	}
 
 	/**
-	 * Singleton instance local reference.
+	 * Multiton instances local references, by key.
 	 *
 	 * @protected
 	 */
-	private static instance:IController;
+	private static instanceMap:Map<string, IController> = new Map();
 
 	/**
-	 * Error message used to indicate that a controller singleton is already constructed when
-	 * trying to constructs the class twice.
+	 * Error message used to indicate that a controller multiton is already constructed for a
+	 * key when trying to construct the class twice.
 	 *
 	 * @protected
 	 * @constant
 	 */
-	private static SINGLETON_MSG:string = "Controller singleton already constructed!";
+	private static MULTITON_MSG:string = "Controller instance for this Multiton key already constructed!";
+
+	/**
+	 * Notification sent when a failed attempt of a command is retried.
+	 *
+	 * @constant
+	 */
+	public static COMMAND_RETRY:string = "commandRetry";
+
+	/**
+	 * Notification sent when the last attempt of a command with a policy failed.
+	 *
+	 * @constant
+	 */
+	public static COMMAND_FAILED:string = "commandFailed";
+
+	/**
+	 * Message of the error failing an attempt that took longer than the timeout.
+	 *
+	 * @constant
+	 */
+	public static TIMEOUT_MSG:string = "The command timed out: ";
 	
 	/**
-	 * <code>Controller</code> singleton Factory method.
+	 * <code>Controller</code> multiton Factory method.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core.
+	 *
+	 * @param factory
+	 * 		Builds the instance when none exists for <code>key</code> yet, allowing a
+	 * 		<code>Controller</code> subclass to be used.
 	 * 
 	 * @return
-	 * 		The singleton instance of <code>Controller</code>
+	 * 		The multiton instance of <code>Controller</code> for <code>key</code>.
 	 */
-	public static getInstance():IController
+	public static getInstance(key:string = Multiton.DEFAULT_KEY, factory:(key:string) => IController = (key) => new Controller(key)):IController
 	{
-		if( !Controller.instance )
-			Controller.instance = new Controller();
+		if (!Controller.instanceMap.has(key))
+			Controller.instanceMap.set(key, factory(key));
+
+		return Controller.instanceMap.get(key);
+	}
 
-		return Controller.instance;
+	/**
+	 * Remove the <code>Controller</code> instance for a multiton key, disposing it.
+	 *
+	 * @param key
+	 * 		The multiton key of the <code>Controller</code> instance to remove.
+	 */
+	public static async removeController(key:string):Promise<void>
+	{
+		await Controller.instanceMap.get(key)?.dispose();
+		Controller.instanceMap.delete(key);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { INotification, IObserver, ISpan, ISpanListener } from "../interfaces";
+import { Observer } from "../patterns/observer/Observer";
+
+/**
+ * Emits the spans of the <code>View</code> and <code>Controller</code> to their
+ * <code>ISpanListener</code>s.
+ *
+ * Nothing is measured while no listener is added.
+ */
+export class Instrumentation
+{
+	/**
+	 * The listeners receiving the spans.
+	 *
+	 * @protected
+	 */
+	#listeners:ISpanListener[] = [];
+
+	/**
+	 * The multiton key of the Core the spans belong to.
+	 *
+	 * @protected
+	 */
+	#multitonKey:string;
+
+	/**
+	 * Constructs an <code>Instrumentation</code> instance.
+	 *
+	 * @param multitonKey
+	 * 		The multiton key of the Core the spans belong to.
+	 */
+	constructor(multitonKey:string)
+	{
+		this.#multitonKey = multitonKey;
+	}
+
+	/**
+	 * Add a listener receiving the spans.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	public addSpanListener(listener:ISpanListener):void
+	{
+		if (!this.#listeners.includes(listener))
+			this.#listeners.push(listener);
+	}
+
+	/**
+	 * Remove a previously added listener.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	public removeSpanListener(listener:ISpanListener):void
+	{
+		const index = this.#listeners.indexOf(listener);
+
+		if (index >= 0)
+			this.#listeners.splice(index, 1);
+	}
+
+	/**
+	 * Run some work in a span.
+	 *
+	 * @param category
+	 * 		<code>OBSERVER</code> or <code>COMMAND</code>.
+	 *
+	 * @param name
+	 * 		What runs.
+	 *
+	 * @param notification
+	 * 		The notification handled.
+	 *
+	 * @param work
+	 * 		The work to measure.
+	 *
+	 * @return
+	 * 		The result of the work.
+	 */
+	public async trace<Result>(category:string, name:string, notification:INotification, work:() => Promise<Result>):Promise<Result>
+	{
+		if (this.#listeners.length === 0)
+			return work();
+
+		const listeners = this.#listeners.slice(0);
+		const span:ISpan = { name, category, multitonKey: this.#multitonKey, notification, start: performance.now() };
+
+		for (const listener of listeners)
+			listener.spanStarted?.(span);
+
+		try
+		{
+			return await work();
+		}
+		catch (error)
+		{
+			span.error = error;
+			throw error;
+		}
+		finally
+		{
+			span.end = performance.now();
+			span.duration = span.end - span.start;
+
+			for (const listener of listeners)
+				listener.spanEnded?.(span);
+		}
+	}
+
+	/**
+	 * Get the name of the object notified by an observer, for the name of its span.
+	 *
+	 * @param observer
+	 * 		The observer notified.
+	 *
+	 * @return
+	 * 		The name of the <code>IMediator</code>, or the class name of the notified object.
+	 */
+	public static nameOf(observer:IObserver):string
+	{
+		const context = observer instanceof Observer ? observer.context : observer;
+
+		if (typeof context?.getMediatorName === "function")
+			return context.getMediatorName();
+
+		return context?.constructor?.name ?? String(context);
+	}
+
+	/**
+	 * The category of the spans of the observers notified by the <code>View</code>.
+	 *
+	 * @constant
+	 */
+	public static OBSERVER:string = "observer";
+
+	/**
+	 * The category of the spans of the commands executed by the <code>Controller</code>.
+	 *
+	 * @constant
+	 */
+	public static COMMAND:string = "command";
+}
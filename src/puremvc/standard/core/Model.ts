@@ -1,9 +1,12 @@
-import { IModel, IProxy } from "../interfaces";
+import { IModel, IProxy, ModelSnapshot } from "../interfaces";
+import { Notification } from "../patterns/observer/Notification";
+import { Multiton } from "./Multiton";
+import { View } from "./View";
 
 /**
  * The <code>Model</code> class for PureMVC.
  *
- * A singleton <code>IModel</code> implementation.
+ * A multiton <code>IModel</code> implementation.
  *
  * In PureMVC, the <code>IModel</code> class provides access to model objects
  * <code>Proxie</code>s by named lookup.
@@ -28,29 +31,40 @@ export class Model
 	#proxyMap:Map<string, IProxy>;
 
 	/**
-	 * This <code>IModel</code> implementation is a singleton, so you should not call the
-	 * constructor directly, but instead call the static singleton Factory method
-	 * <code>Model.getInstance()</code>.
+	 * The multiton key for this Core.
+	 *
+	 * @protected
+	 */
+	#multitonKey:string;
+
+	/**
+	 * This <code>IModel</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton Factory method
+	 * <code>Model.getInstance( key )</code>.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core this <code>Model</code> belongs to.
 	 * 
 	 * @throws Error
-	 * 		Error if singleton instance has already been constructed.
+	 * 		Error if an instance for this multiton key has already been constructed.
 	 */
-	constructor()
+	constructor(key:string = Multiton.DEFAULT_KEY)
 	{
-		if (Model.instance)
-			throw Error( Model.SINGLETON_MSG );
+		if (Model.instanceMap.has(key))
+			throw Error( Model.MULTITON_MSG );
 
-		Model.instance = this;
+		this.#multitonKey = key;
+		Model.instanceMap.set(key, this);
 
 		this.#proxyMap = new Map();
 		this.initializeModel();
 	}
 	
 	/**
-	 * Initialize the singleton <code>Model</code> instance.
+	 * Initialize the multiton <code>Model</code> instance.
 	 *
 	 * Called automatically by the constructor, this is the opportunity to initialize the
-	 * singleton instance in a subclass without overriding the constructor.
+	 * multiton instance in a subclass without overriding the constructor.
 	 *
 	 * @protected
 	 */
@@ -59,21 +73,54 @@ export class Model
 
 	}
 
+	/**
+	 * Get the multiton key of the Core this <code>Model</code> belongs to.
+	 *
+	 * @return
+	 * 		The multiton key.
+	 */
+	public getMultitonKey():string
+	{
+		return this.#multitonKey;
+	}
+
 	/**
 	 * Register an <code>IProxy</code> with the <code>Model</code>.
+	 *
+	 * If its <code>onRegister</code> returns a promise which rejects, the error is broadcast
+	 * as a <code>HOOK_FAILED</code> notification.
 	 * 
 	 * @param proxy
 	 *		An <code>IProxy</code> to be held by the <code>Model</code>.
 		*/
 	public registerProxy( proxy:IProxy ):void
 	{
+		proxy.initializeNotifier(this.#multitonKey);
+		this.#proxyMap.set(proxy.getProxyName(), proxy);
+		this.#report(proxy, proxy.onRegister());
+	}
+
+	/**
+	 * Register an <code>IProxy</code> with the <code>Model</code>, waiting for its
+	 * <code>onRegister</code> to complete.
+	 * 
+	 * @param proxy
+	 *		An <code>IProxy</code> to be held by the <code>Model</code>.
+	 */
+	public async registerProxyAsync( proxy:IProxy ):Promise<void>
+	{
+		proxy.initializeNotifier(this.#multitonKey);
 		this.#proxyMap.set(proxy.getProxyName(), proxy);
-		proxy.onRegister();
+
+		await proxy.onRegister();
 	}
 
 	/**
 	 * Remove an <code>IProxy</code> from the <code>Model</code>.
 	 *
+	 * If its <code>onRemove</code> returns a promise which rejects, the error is broadcast as
+	 * a <code>HOOK_FAILED</code> notification.
+	 *
 	 * @param proxyName
 	 *		The name of the <code>Proxy</code> instance to be removed.
 	 *
@@ -88,12 +135,45 @@ export class Model
 		if (proxy)
 		{
 			this.#proxyMap.delete(proxyName);
-			proxy.onRemove();
+			this.#report(proxy, proxy.onRemove());
 		}
 		
 		return proxy as ProxyType;
 	}
 
+	/**
+	 * Broadcast the rejection of a hook nobody waits for.
+	 */
+	#report(proxy:IProxy, hook:void | Promise<void>):void
+	{
+		Promise.resolve(hook).catch((error) =>
+			View.getInstance(this.#multitonKey).notifyObservers(new Notification(Model.HOOK_FAILED, error, proxy.getProxyName())).catch(() => {}));
+	}
+
+	/**
+	 * Remove an <code>IProxy</code> from the <code>Model</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param proxyName
+	 *		The name of the <code>Proxy</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IProxy</code> that was removed, or <code>undefined</code> if it didn't
+	 *		exist.
+	 */
+	public async removeProxyAsync<ProxyType extends IProxy = IProxy>(proxyName:string): Promise<ProxyType | undefined>
+	{
+		const proxy = this.#proxyMap.get(proxyName);
+
+		if (proxy)
+		{
+			this.#proxyMap.delete(proxyName);
+			await proxy.onRemove();
+		}
+
+		return proxy as ProxyType;
+	}
+
 	/**
 	 * Retrieve an <code>IProxy</code> from the <code>Model</code>.
 	 * 
@@ -124,44 +204,140 @@ export class Model
 		return this.#proxyMap.has(proxyName);
 	}
 
+	/**
+	 * List the names of the registered <code>IProxy</code>s.
+	 *
+	 * @return
+	 * 		The proxy names, in registration order.
+	 */
+	public listProxyNames():string[]
+	{
+		return [...this.#proxyMap.keys()];
+	}
+
+	/**
+	 * Capture the data of the registered <code>IProxy</code>s.
+	 *
+	 * The data is deep copied with <code>structuredClone</code>, so the snapshot is not
+	 * affected by later changes, and can be serialized to be stored or attached to a bug
+	 * report.
+	 *
+	 * @param proxyNames
+	 * 		The names of the <code>IProxy</code>s to capture; all of them if omitted.
+	 *
+	 * @return
+	 * 		The data of each <code>IProxy</code>, by name.
+	 */
+	public snapshot( proxyNames?:string[] ):ModelSnapshot
+	{
+		const snapshot:ModelSnapshot = {};
+
+		for (const name of proxyNames ?? this.#proxyMap.keys())
+		{
+			const proxy = this.#proxyMap.get(name);
+
+			if (proxy)
+				snapshot[name] = structuredClone(proxy.getData());
+		}
+
+		return snapshot;
+	}
+
+	/**
+	 * Push the data of a snapshot back into the registered <code>IProxy</code>s, through
+	 * their <code>setData</code> method.
+	 *
+	 * The data is copied, so a snapshot can be restored several times. Data of
+	 * <code>IProxy</code>s not registered anymore is ignored.
+	 *
+	 * @param snapshot
+	 * 		A snapshot taken by <code>snapshot</code>.
+	 */
+	public async restore( snapshot:ModelSnapshot ):Promise<void>
+	{
+		for (const [name, data] of Object.entries(snapshot))
+			await this.#proxyMap.get(name)?.setData(structuredClone(data));
+	}
+
+	/**
+	 * Remove all <code>IProxy</code>s, waiting for their <code>onRemove</code> to complete,
+	 * and release this multiton instance.
+	 *
+	 * @throws AggregateError
+	 * 		The errors thrown by <code>onRemove</code>, once every <code>IProxy</code> is
+	 * 		removed.
+	 */
 	public async dispose(): Promise<void>
 	{
 		const names = [...this.#proxyMap.keys()];
 		
-		names.forEach((name) =>
-			this.removeProxy(name)
-		);
+		const results = await Promise.allSettled(names.map((name) =>
+			this.removeProxyAsync(name)
+		));
+
+		Model.instanceMap.delete(this.#multitonKey);
 
-		Model.instance = undefined;
+		const errors = results.filter((result) => result.status === "rejected").map((result:PromiseRejectedResult) => result.reason);
+
+		if (errors.length > 0)
+			throw new AggregateError(errors, `${errors.length} proxies failed to be removed`);
 	}
 
 	/**
-	 * Error message used to indicate that a controller singleton is already constructed when
-	 * trying to constructs the class twice.
+	 * Error message used to indicate that a model multiton is already constructed for a key
+	 * when trying to construct the class twice.
 	 *
 	 * @constant
 	 * @protected
 	 */
-	private static SINGLETON_MSG:string = "Model singleton already constructed!";
+	private static MULTITON_MSG:string = "Model instance for this Multiton key already constructed!";
 
 	/**
-	 * singleton instance local reference.
+	 * Notification sent when the promise returned by the <code>onRegister</code> or
+	 * <code>onRemove</code> of an <code>IProxy</code> registered or removed synchronously
+	 * rejects, with the error as body and the name of the <code>IProxy</code> as type.
+	 *
+	 * @constant
+	 */
+	public static HOOK_FAILED:string = "proxyHookFailed";
+
+	/**
+	 * Multiton instances local references, by key.
 	 *
 	 * @protected
 	 */
-	private static instance:IModel;
+	private static instanceMap:Map<string, IModel> = new Map();
 			
 	/**
-	 * <code>Model</code> singleton factory method.
+	 * <code>Model</code> multiton factory method.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core.
+	 *
+	 * @param factory
+	 * 		Builds the instance when none exists for <code>key</code> yet, allowing a
+	 * 		<code>Model</code> subclass to be used.
 	 * 
 	 * @return
-	 * 		The singleton instance of <code>Model</code>.
+	 * 		The multiton instance of <code>Model</code> for <code>key</code>.
 	 */
-	public static getInstance():IModel
+	public static getInstance(key:string = Multiton.DEFAULT_KEY, factory:(key:string) => IModel = (key) => new Model(key)):IModel
 	{
-		if (!Model.instance)
-			Model.instance = new Model();
+		if (!Model.instanceMap.has(key))
+			Model.instanceMap.set(key, factory(key));
 
-		return Model.instance;
+		return Model.instanceMap.get(key);
+	}
+
+	/**
+	 * Remove the <code>Model</code> instance for a multiton key, disposing it.
+	 *
+	 * @param key
+	 * 		The multiton key of the <code>Model</code> instance to remove.
+	 */
+	public static async removeModel(key:string):Promise<void>
+	{
+		await Model.instanceMap.get(key)?.dispose();
+		Model.instanceMap.delete(key);
 	}
 }
\ No newline at end of file
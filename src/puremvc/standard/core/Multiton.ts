@@ -0,0 +1,17 @@
+/**
+ * Shared definitions for the multiton Core actors.
+ *
+ * Each Core (<code>Facade</code>, <code>Model</code>, <code>View</code> and
+ * <code>Controller</code>) is keyed by a <i>multiton key</i>. Applications that only need a
+ * single Core never have to supply a key: every factory method falls back to
+ * <code>Multiton.DEFAULT_KEY</code>, which preserves the classic singleton behavior.
+ */
+export class Multiton
+{
+	/**
+	 * The multiton key of the default Core.
+	 *
+	 * @constant
+	 */
+	public static DEFAULT_KEY:string = "PureMVC";
+}
@@ -0,0 +1,51 @@
+import { IClock } from "../interfaces";
+
+/**
+ * The <code>IClock</code> of the running environment, scheduling with the global
+ * <code>setTimeout</code>.
+ *
+ * The <code>Controller</code> and the <code>PersistentProxy</code> use it unless given a
+ * fake clock, such as the <code>FakeClock</code> of the tests.
+ */
+export class SystemClock
+	implements IClock
+{
+	/**
+	 * Call a function once a delay elapsed.
+	 *
+	 * @param callback
+	 * 		The function to call.
+	 *
+	 * @param delay
+	 * 		The delay, in milliseconds.
+	 *
+	 * @return
+	 * 		The handle cancelling the call with <code>clearTimeout</code>.
+	 */
+	public setTimeout(callback:() => void, delay:number):unknown
+	{
+		return setTimeout(callback, delay);
+	}
+
+	/**
+	 * Cancel a call scheduled with <code>setTimeout</code>.
+	 *
+	 * @param handle
+	 * 		The handle returned by <code>setTimeout</code>.
+	 */
+	public clearTimeout(handle:unknown):void
+	{
+		clearTimeout(handle as ReturnType<typeof setTimeout>);
+	}
+
+	/**
+	 * Get a random number.
+	 *
+	 * @return
+	 * 		A number from <code>0</code> inclusive to <code>1</code> exclusive.
+	 */
+	public random():number
+	{
+		return Math.random();
+	}
+}
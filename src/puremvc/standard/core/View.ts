@@ -1,10 +1,14 @@
-import { IMediator, INotification, IObserver, IView } from "../interfaces";
+import { IMediator, IMediatorDescription, INotification, IObserver, IObserverDescription, IObserverError, ISpanListener, IView, NotificationInterest } from "../interfaces";
+import { Notification } from "../patterns/observer/Notification";
+import { NotificationPattern } from "../patterns/observer/NotificationPattern";
 import { Observer } from "../patterns/observer/Observer"
+import { Instrumentation } from "./Instrumentation";
+import { Multiton } from "./Multiton";
 
 /**
  * The <code>View</code> class for PureMVC.
  *
- * A singleton <code>IView</code> implementation.
+ * A multiton <code>IView</code> implementation.
  *
  * In PureMVC, the <code>View</code> class assumes these responsibilities:
  * <UL>
@@ -37,55 +41,132 @@ export class View
 	#observerMap:Map<string, IObserver[]>;
 
 	/**
-	 * This <code>IView</code> implementation is a singleton, so you should not call the
-	 * constructor directly, but instead call the static singleton Factory method
-	 * <code>View.getInstance()</code>.
+	 * Mapping of pattern keys to <code>NotificationPattern</code>s and their
+	 * <code>Observers</code> lists.
+	 *
+	 * @protected
+	 */
+	#patternMap:Map<string, { pattern:NotificationPattern, observers:IObserver[] }>;
+
+	/**
+	 * Mapping of <code>Notification</code> names to the pattern <code>Observers</code>
+	 * matching them, so that patterns are only scanned the first time a name is sent.
+	 * Cleared whenever a pattern <code>Observer</code> is registered or removed.
+	 *
+	 * @protected
+	 */
+	#patternCache:Map<string, IObserver[]>;
+
+	/**
+	 * The multiton key for this Core.
+	 *
+	 * @protected
+	 */
+	#multitonKey:string;
+
+	/**
+	 * How <code>notifyObservers</code> handles an error thrown by an <code>IObserver</code>.
+	 *
+	 * @protected
+	 */
+	#errorPolicy:string;
+
+	/**
+	 * Emits the spans of the observers notified.
+	 *
+	 * @protected
+	 */
+	#instrumentation:Instrumentation;
+
+	/**
+	 * This <code>IView</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton Factory method
+	 * <code>View.getInstance( key )</code>.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core this <code>View</code> belongs to.
 	 * 
 	 * @throws Error
-	 * 		Throws an error if an instance for this singleton has already been constructed.
+	 * 		Throws an error if an instance for this multiton key has already been constructed.
 	 */
-	constructor()
+	constructor(key:string = Multiton.DEFAULT_KEY)
 	{
-		if (View.instance)
-			throw Error( View.SINGLETON_MSG );
+		if (View.instanceMap.has(key))
+			throw Error( View.MULTITON_MSG );
+
+		this.#multitonKey = key;
+		View.instanceMap.set(key, this);
 
-		View.instance = this;
 		this.#mediatorMap = new Map();
 		this.#observerMap = new Map();
+		this.#patternMap = new Map();
+		this.#patternCache = new Map();
+		this.#errorPolicy = View.ERROR_POLICY_STOP;
+		this.#instrumentation = new Instrumentation(key);
 
 		this.initializeView();
 	}
 	
 	/**
-	 * Initialize the singleton <code>View</code> instance.
+	 * Initialize the multiton <code>View</code> instance.
 	 * 
 	 * Called automatically by the constructor. This is the opportunity to initialize the
-	 * singleton instance in a subclass without overriding the constructor.
+	 * multiton instance in a subclass without overriding the constructor.
 	 */
 	protected initializeView():void
 	{
 
 	}
 
+	/**
+	 * Get the multiton key of the Core this <code>View</code> belongs to.
+	 *
+	 * @return
+	 * 		The multiton key.
+	 */
+	public getMultitonKey():string
+	{
+		return this.#multitonKey;
+	}
+
 	/**
 	 * Register an <code>IObserver</code> to be notified of <code>INotifications</code> with a
 	 * given name.
+	 *
+	 * The name may also be a pattern: a wildcard string such as <code>"user/*"</code> or a
+	 * <code>RegExp</code>, in which case the <code>IObserver</code> is notified of every
+	 * <code>INotification</code> whose name matches.
 	 * 
 	 * @param notificationName
 	 * 		The name of the <code>INotifications</code> to notify this <code>IObserver</code>
-	 * 		of.
+	 * 		of, or a pattern matching them.
 	 *
 	 * @param observer
 	 * 		The <code>IObserver</code> to register.
 	 */
-	public registerObserver(notificationName:string, observer:IObserver):void
+	public registerObserver(notificationName:NotificationInterest, observer:IObserver):void
 	{
-		const observers = this.#observerMap.get(notificationName);
+		if (NotificationPattern.isPattern(notificationName))
+		{
+			const key = NotificationPattern.keyOf(notificationName);
+			const entry = this.#patternMap.get(key);
+
+			if (entry)
+				this.#insertObserver(entry.observers, observer);
+			else
+				this.#patternMap.set(key, { pattern: new NotificationPattern(notificationName), observers: [observer] });
+
+			this.#patternCache.clear();
+			return;
+		}
+
+		const name = notificationName as string;
+		const observers = this.#observerMap.get(name);
 
 		if (observers)
-			observers.push(observer);
+			this.#insertObserver(observers, observer);
 		else
-			this.#observerMap.set(notificationName, [observer]);
+			this.#observerMap.set(name, [observer]);
 	}
 
 	/**
@@ -93,20 +174,79 @@ export class View
 	 * <code>Observer</code> list for a given <code>INotification</code> name.
 	 *
 	 * @param notificationName
-	 * 		Which <code>IObserver</code> list to remove from.
+	 * 		Which <code>IObserver</code> list to remove from: a notification name or the
+	 * 		pattern the <code>IObserver</code> was registered with.
 	 *
 	 * @param notifyContext
 	 * 		Remove the <code>IObserver</code> with this object as its
 	 *		<code>notifyContext</code>.
 	 */
-	public removeObserver(notificationName:string, notifyContext:any):void
+	public removeObserver(notificationName:NotificationInterest, notifyContext:any):void
 	{
+		if (NotificationPattern.isPattern(notificationName))
+		{
+			const key = NotificationPattern.keyOf(notificationName);
+			const entry = this.#patternMap.get(key);
+
+			if (!entry)
+				return;
+
+			this.#removeObserverFrom(entry.observers, notifyContext);
+
+			if (entry.observers.length === 0)
+				this.#patternMap.delete(key);
+
+			this.#patternCache.clear();
+			return;
+		}
+
+		const name = notificationName as string;
+
 		// The observer list for the notification under inspection
-		const observers = this.#observerMap.get(notificationName);
+		const observers = this.#observerMap.get(name);
 
 		if (!observers)
 			return;
 
+		this.#removeObserverFrom(observers, notifyContext);
+
+		/*
+		 * Also, when a Notification's Observer list length falls to zero, delete the
+		 * notification key from the observer map.
+		 */
+		if (observers.length === 0)
+			this.#observerMap.delete(name);
+	} 
+
+	/**
+	 * Insert an <code>IObserver</code> in a list sorted by descending priority, after the
+	 * observers of the same priority.
+	 */
+	#insertObserver(observers:IObserver[], observer:IObserver):void
+	{
+		const priority = View.#priorityOf(observer);
+		const index = observers.findIndex((registered) => View.#priorityOf(registered) < priority);
+
+		if (index < 0)
+			observers.push(observer);
+		else
+			observers.splice(index, 0, observer);
+	}
+
+	/**
+	 * Get the priority of an <code>IObserver</code>, <code>0</code> when it does not
+	 * implement <code>getPriority</code>.
+	 */
+	static #priorityOf(observer:IObserver):number
+	{
+		return observer.getPriority?.() ?? 0;
+	}
+
+	/**
+	 * Remove the <code>IObserver</code> for a <code>notifyContext</code> from a list.
+	 */
+	#removeObserverFrom(observers:IObserver[], notifyContext:any):void
+	{
 		// Find the observer for the notifyContext.
 		let i:number = observers.length;
 
@@ -120,21 +260,72 @@ export class View
 				break;
 			}
 		}
+	}
 
-		/*
-		 * Also, when a Notification's Observer list length falls to zero, delete the
-		 * notification key from the observer map.
-		 */
-		if (observers.length === 0)
-			this.#observerMap.delete(notificationName);
-	} 
+	/**
+	 * Get the <code>IObserver</code>s to notify of a notification name, in notification
+	 * order. Observers registered for the exact name come before pattern observers of the
+	 * same priority.
+	 */
+	#getObservers(notificationName:string):IObserver[]
+	{
+		const observers = this.#observerMap.get(notificationName) ?? [];
+
+		if (this.#patternMap.size === 0)
+			return observers.slice(0);
+
+		let matched = this.#patternCache.get(notificationName);
+
+		if (!matched)
+		{
+			matched = [];
+
+			for (const { pattern, observers } of this.#patternMap.values())
+			{
+				if (pattern.matches(notificationName))
+					matched.push(...observers);
+			}
+
+			this.#patternCache.set(notificationName, matched);
+		}
+
+		if (matched.length === 0)
+			return observers.slice(0);
+
+		// Array.prototype.sort is stable, so registration order is kept within a priority.
+		return observers.concat(matched).sort((a, b) => View.#priorityOf(b) - View.#priorityOf(a));
+	}
+
+	/**
+	 * Check if any <code>IObserver</code> would be notified of an <code>INotification</code>
+	 * with a given name, including the ones registered with a matching pattern.
+	 *
+	 * @param notificationName
+	 * 		The notification name to check.
+	 *
+	 * @return
+	 * 		At least one <code>IObserver</code> is interested in the name.
+	 */
+	public hasObservers(notificationName:string):boolean
+	{
+		return this.#getObservers(notificationName).length > 0;
+	}
 
 	/**
 	 * Notify the <code>IObserver</code>s for a particular <code>INotification</code>.
 	 *
 	 * All previously attached <code>IObserver</code>s for this <code>INotification</code>'s
-	 * list are notified and are passed a reference to the <code>INotification</code> in the
-	 * order in which they were registered.
+	 * list are notified and are passed a reference to the <code>INotification</code>, by
+	 * descending priority and then in the order in which they were registered.
+	 *
+	 * An error thrown by an <code>IObserver</code> is handled according to the error policy:
+	 * <UL>
+	 * <LI><code>ERROR_POLICY_STOP</code>: the error is rethrown and the remaining
+	 * <code>IObserver</code>s are not notified.
+	 * <LI><code>ERROR_POLICY_COLLECT</code>: every <code>IObserver</code> is notified, then
+	 * the errors are rethrown together as an <code>AggregateError</code>.
+	 * <LI><code>ERROR_POLICY_REPORT</code>: every <code>IObserver</code> is notified, and each
+	 * error is broadcast as an <code>OBSERVER_ERROR</code> notification.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to notify <code>IObserver</code>s of.
@@ -143,15 +334,91 @@ export class View
 	{
 		const notificationName:string = notification.getName();
 
-		const observers = this.#observerMap.get(notificationName);
+		// A copy of the list, observers may be removed while being notified.
+		const observers = this.#getObservers(notificationName);
 
-		if (!observers)
+		if (observers.length === 0)
 			return;
 
+		const errors:unknown[] = [];
+
 		for (const observer of observers)
 		{
-			await observer.notifyObserver(notification);
+			try
+			{
+				await this.#instrumentation.trace(Instrumentation.OBSERVER, Instrumentation.nameOf(observer), notification, () => observer.notifyObserver(notification));
+			}
+			catch (error)
+			{
+				if (this.#errorPolicy === View.ERROR_POLICY_STOP)
+					throw error;
+
+				errors.push(error);
+
+				// Errors raised while reporting an error are not reported again.
+				if (this.#errorPolicy === View.ERROR_POLICY_REPORT && notificationName !== View.OBSERVER_ERROR)
+				{
+					const body:IObserverError = { observer, notification, error };
+					await this.notifyObservers(new Notification(View.OBSERVER_ERROR, body));
+				}
+			}
 		}
+
+		if (this.#errorPolicy === View.ERROR_POLICY_COLLECT && errors.length > 0)
+			throw new AggregateError(errors, `${errors.length} observer(s) failed to handle ${notificationName}`);
+	}
+
+	/**
+	 * Set how <code>notifyObservers</code> handles an error thrown by an
+	 * <code>IObserver</code>.
+	 *
+	 * @param policy
+	 * 		One of <code>ERROR_POLICY_STOP</code>, <code>ERROR_POLICY_COLLECT</code> or
+	 * 		<code>ERROR_POLICY_REPORT</code>.
+	 *
+	 * @throws Error
+	 * 		The policy is none of them.
+	 */
+	public setErrorPolicy(policy:string):void
+	{
+		if (![ View.ERROR_POLICY_STOP, View.ERROR_POLICY_COLLECT, View.ERROR_POLICY_REPORT ].includes(policy))
+			throw Error(View.ERROR_POLICY_MSG + policy);
+
+		this.#errorPolicy = policy;
+	}
+
+	/**
+	 * Get how <code>notifyObservers</code> handles an error thrown by an
+	 * <code>IObserver</code>.
+	 *
+	 * @return
+	 * 		The current error policy.
+	 */
+	public getErrorPolicy():string
+	{
+		return this.#errorPolicy;
+	}
+
+	/**
+	 * Add a listener receiving a span for every <code>IObserver</code> notified.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	public addSpanListener(listener:ISpanListener):void
+	{
+		this.#instrumentation.addSpanListener(listener);
+	}
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	public removeSpanListener(listener:ISpanListener):void
+	{
+		this.#instrumentation.removeSpanListener(listener);
 	}
 
 	/**
@@ -164,29 +431,64 @@ export class View
 	 * notified about, an <code>Observer</code> is created to encapsulate the
 	 * <code>IMediator</code> instance's <code>handleNotification</code> method and register
 	 * it as an <code>Observer</code> for all <code>INotification</code>s the
-	 * <code>IMediator</code> is interested in.
+	 * <code>IMediator</code> is interested in, with the priority given by its
+	 * <code>getNotificationPriority</code> method.
+	 *
+	 * If its <code>onRegister</code> returns a promise which rejects, the error is broadcast
+	 * as a <code>HOOK_FAILED</code> notification.
 	 *
 	 * @param mediator
 	 * 		A reference to an <code>IMediator</code> implementation instance.
 	 */
 	public registerMediator(mediator: IMediator):void
+	{
+		// Alert the mediator that it has been registered.
+		if (this.#addMediator(mediator))
+			this.#report(mediator, mediator.onRegister());
+	}
+
+	/**
+	 * Register an <code>IMediator</code> instance with the <code>View</code>, waiting for
+	 * its <code>onRegister</code> to complete.
+	 *
+	 * @param mediator
+	 * 		A reference to an <code>IMediator</code> implementation instance.
+	 */
+	public async registerMediatorAsync(mediator: IMediator):Promise<void>
+	{
+		if (this.#addMediator(mediator))
+			await mediator.onRegister();
+	}
+
+	/**
+	 * Hold an <code>IMediator</code> and register it as <code>Observer</code> of its
+	 * interests.
+	 *
+	 * @return
+	 * 		The <code>IMediator</code> was added; it is not if its name is already
+	 * 		registered.
+	 */
+	#addMediator(mediator: IMediator):boolean
 	{
 		const name:string = mediator.getMediatorName();
 
 		// Do not allow re-registration (you must removeMediator first).
 		if (this.#mediatorMap.has(name))
-			return;
+			return false;
+
+		// Bind the Mediator to this Core.
+		mediator.initializeNotifier(this.#multitonKey);
 
 		// Register the Mediator for retrieval by name.
 		this.#mediatorMap.set(name, mediator);
 		
 		// Get Notification interests, if any.
-		const interests:string[] = mediator.listNotificationInterests();
+		const interests:NotificationInterest[] = mediator.listNotificationInterests();
 
 		if (interests.length > 0)
 		{
 			// Create Observer referencing this mediator's handlNotification method.
-			const observer = new Observer(mediator.handleNotification, mediator);
+			const observer = new Observer(mediator.handleNotification, mediator, mediator.getNotificationPriority?.() ?? 0);
 
 			// Register Mediator as Observer for its list of Notification interests.
 			interests.forEach((interest) =>
@@ -195,9 +497,8 @@ export class View
 				this.registerObserver( interest, observer);
 			});
 		}
-		
-		// Alert the mediator that it has been registered.
-		mediator.onRegister();
+
+		return true;
 	}
 
 	/**
@@ -218,6 +519,9 @@ export class View
 
 	/**
 	 * Remove an <code>IMediator</code> from the <code>View</code>.
+	 *
+	 * If its <code>onRemove</code> returns a promise which rejects, the error is broadcast as
+	 * a <code>HOOK_FAILED</code> notification.
 	 * 
 	 * @param mediatorName
 	 * 		Name of the <code>IMediator</code> instance to be removed.
@@ -227,6 +531,52 @@ export class View
 	 *		strict <code>null</null> if the <code>Mediator</code> didn't exist.
 	 */
 	public removeMediator<MediatorType extends IMediator = IMediator>( mediatorName:string ):MediatorType | undefined
+	{
+		const mediator = this.#deleteMediator(mediatorName);
+
+		//Alert the mediator that it has been removed
+		if (mediator)
+			this.#report(mediator, mediator.onRemove());
+
+		return mediator as MediatorType;
+	}
+
+	/**
+	 * Remove an <code>IMediator</code> from the <code>View</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param mediatorName
+	 * 		Name of the <code>IMediator</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IMediator</code> that was removed, or <code>undefined</code> if it
+	 *		didn't exist.
+	 */
+	public async removeMediatorAsync<MediatorType extends IMediator = IMediator>( mediatorName:string ):Promise<MediatorType | undefined>
+	{
+		const mediator = this.#deleteMediator(mediatorName);
+
+		await mediator?.onRemove();
+
+		return mediator as MediatorType;
+	}
+
+	/**
+	 * Broadcast the rejection of a hook nobody waits for.
+	 */
+	#report(mediator:IMediator, hook:void | Promise<void>):void
+	{
+		Promise.resolve(hook).catch((error) =>
+			this.notifyObservers(new Notification(View.HOOK_FAILED, error, mediator.getMediatorName())).catch(() => {}));
+	}
+
+	/**
+	 * Stop holding an <code>IMediator</code> and remove its <code>Observer</code>s.
+	 *
+	 * @return
+	 * 		The <code>IMediator</code> removed, if it was registered.
+	 */
+	#deleteMediator(mediatorName:string):IMediator | undefined
 	{
 		// Retrieve the named mediator
 		const mediator = this.#mediatorMap.get(mediatorName);
@@ -235,7 +585,7 @@ export class View
 			return undefined;
 
 		//Get Notification interests, if any.
-		const interests:string[] = mediator.listNotificationInterests();
+		const interests:NotificationInterest[] = mediator.listNotificationInterests();
 
 		// For every notification this mediator is interested in...
 
@@ -246,10 +596,7 @@ export class View
 		// remove the mediator from the map
 		this.#mediatorMap.delete(mediatorName);
 
-		//Alert the mediator that it has been removed
-		mediator.onRemove();
-
-		return mediator as MediatorType;
+		return mediator;
 	}
 	
 	/**
@@ -266,41 +613,164 @@ export class View
 		return this.#mediatorMap.has(mediatorName);
 	}
 
+	/**
+	 * List the names of the registered <code>IMediator</code>s.
+	 *
+	 * @return
+	 * 		The mediator names, in registration order.
+	 */
+	public listMediatorNames():string[]
+	{
+		return [...this.#mediatorMap.keys()];
+	}
+
+	/**
+	 * Describe the registered <code>IMediator</code>s and their notification interests.
+	 *
+	 * @return
+	 * 		A description per mediator, in registration order.
+	 */
+	public listMediators():IMediatorDescription[]
+	{
+		return [...this.#mediatorMap.values()].map((mediator) => ({ mediatorName: mediator.getMediatorName(), interests: mediator.listNotificationInterests() }));
+	}
+
+	/**
+	 * Describe the <code>IObserver</code>s registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A description per interest, the exact names first, with the observers in the order
+	 * 		they are notified.
+	 */
+	public listObservers():IObserverDescription[]
+	{
+		const describe = (interest:NotificationInterest, observers:IObserver[]):IObserverDescription => ({
+			interest,
+			observers: observers.map((observer) => ({ name: Instrumentation.nameOf(observer), priority: View.#priorityOf(observer) }))
+		});
+
+		return [
+			...[...this.#observerMap].map(([name, observers]) => describe(name, observers)),
+			...[...this.#patternMap.values()].map(({ pattern, observers }) => describe(pattern.getInterest(), observers))
+		];
+	}
+
+	/**
+	 * Remove all <code>IMediator</code>s, waiting for their <code>onRemove</code> to
+	 * complete, and release this multiton instance.
+	 *
+	 * @throws AggregateError
+	 * 		The errors thrown by <code>onRemove</code>, once every <code>IMediator</code> is
+	 * 		removed.
+	 */
 	public async dispose(): Promise<void>
 	{
 		const names = [...this.#mediatorMap.keys()];
 
-		names.forEach((name) =>
-			this.removeMediator(name)
-		);
+		const results = await Promise.allSettled(names.map((name) =>
+			this.removeMediatorAsync(name)
+		));
+
+		View.instanceMap.delete(this.#multitonKey);
 
-		View.instance = undefined;
+		const errors = results.filter((result) => result.status === "rejected").map((result:PromiseRejectedResult) => result.reason);
+
+		if (errors.length > 0)
+			throw new AggregateError(errors, `${errors.length} mediators failed to be removed`);
 	}
 
 	/**
+	 * Error policy: rethrow the first error and stop notifying.
+	 *
+	 * @constant
+	 */
+	public static ERROR_POLICY_STOP:string = "stop";
+
+	/**
+	 * Error policy: notify every observer, then rethrow all the errors together.
+	 *
+	 * @constant
+	 */
+	public static ERROR_POLICY_COLLECT:string = "collect";
+
+	/**
+	 * Error policy: notify every observer and report each error as an
+	 * <code>OBSERVER_ERROR</code> notification.
+	 *
+	 * @constant
+	 */
+	public static ERROR_POLICY_REPORT:string = "report";
+
+	/**
+	 * Message of the error thrown when setting an unknown error policy.
+	 *
+	 * @constant
+	 */
+	public static ERROR_POLICY_MSG:string = "Unknown error policy: ";
+
+	/**
+	 * Name of the notification reporting an error thrown by an observer. Its body is an
+	 * <code>IObserverError</code>.
+	 *
+	 * @constant
+	 */
+	public static OBSERVER_ERROR:string = "observerError";
+
+	/**
+	 * Notification sent when the promise returned by the <code>onRegister</code> or
+	 * <code>onRemove</code> of an <code>IMediator</code> registered or removed synchronously
+	 * rejects, with the error as body and the name of the <code>IMediator</code> as type.
+	 *
+	 * @constant
+	 */
+	public static HOOK_FAILED:string = "mediatorHookFailed";
+
+	/**
+	 * Error message used to indicate that a view multiton is already constructed for a key
+	 * when trying to construct the class twice.
+	 *
 	 * @constant
 	 * @protected
 	 */
-	private static SINGLETON_MSG:string = "View singleton already constructed!";
+	private static MULTITON_MSG:string = "View instance for this Multiton key already constructed!";
 
 	/**
-	 * Singleton instance local reference.
+	 * Multiton instances local references, by key.
 	 *
 	 * @protected
 	 */
-	private static instance:IView;
+	private static instanceMap:Map<string, IView> = new Map();
 
 	/**
-	 * <code>View</code> singleton Factory method.
+	 * <code>View</code> multiton Factory method.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core.
+	 *
+	 * @param factory
+	 * 		Builds the instance when none exists for <code>key</code> yet, allowing a
+	 * 		<code>View</code> subclass to be used.
 	 * 
 	 * @return
-	 *		The singleton instance of <code>View</code>.
-		*/
-	public static getInstance():IView
+	 *		The multiton instance of <code>View</code> for <code>key</code>.
+	 */
+	public static getInstance(key:string = Multiton.DEFAULT_KEY, factory:(key:string) => IView = (key) => new View(key)):IView
 	{
-		if( !View.instance )
-			View.instance = new View();
+		if (!View.instanceMap.has(key))
+			View.instanceMap.set(key, factory(key));
+
+		return View.instanceMap.get(key);
+	}
 
-		return View.instance;
+	/**
+	 * Remove the <code>View</code> instance for a multiton key, disposing it.
+	 *
+	 * @param key
+	 * 		The multiton key of the <code>View</code> instance to remove.
+	 */
+	public static async removeView(key:string):Promise<void>
+	{
+		await View.instanceMap.get(key)?.dispose();
+		View.instanceMap.delete(key);
 	}
 }
\ No newline at end of file
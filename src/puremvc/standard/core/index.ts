@@ -1,3 +1,6 @@
 export * from "./Controller";
+export * from "./Instrumentation";
 export * from "./Model";
+export * from "./Multiton";
+export * from "./SystemClock";
 export * from "./View";
\ No newline at end of file
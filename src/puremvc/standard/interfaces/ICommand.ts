@@ -1,3 +1,4 @@
+import { IMacroCommandContext } from "./IMacroCommandContext";
 import { INotification } from "./INotification";
 import { INotifier } from "./INotifier";
 
@@ -16,11 +17,40 @@ export interface ICommand
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @return
+	 * 		Optionally, the reply to the <code>INotification</code> when it was sent as a
+	 * 		request.
 	 */
-	execute( notification:INotification ): Promise<void>;
+	execute( notification:INotification ): Promise<any>;
+
+	/**
+	 * Called by a <code>MacroCommand</code> before <code>execute</code>, with the values
+	 * shared by its <i>SubCommands</i>.
+	 *
+	 * @param context
+	 * 		The context of the execution of the <code>MacroCommand</code>.
+	 */
+	initializeContext?( context:IMacroCommandContext ): void;
+
+	/**
+	 * Called before <code>execute</code>, with a signal aborted once the
+	 * <code>INotification</code> is aborted or, under an <code>ICommandPolicy</code>, once
+	 * the attempt times out.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> of the execution.
+	 */
+	initializeSignal?( signal:AbortSignal ): void;
 }
 
 export interface CommandConstructor
 {
 	new (args?:any): ICommand;
-}
\ No newline at end of file
+}
+
+/**
+ * Decides whether <i>SubCommands</i> of a <code>MacroCommand</code> run, from the
+ * <code>INotification</code> it executes and the values shared by its <i>SubCommands</i>.
+ */
+export type SubCommandCondition = ( notification:INotification, context:IMacroCommandContext ) => boolean | Promise<boolean>;
\ No newline at end of file
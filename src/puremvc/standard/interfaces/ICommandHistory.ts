@@ -0,0 +1,96 @@
+import { IUndoableCommand } from "./IUndoableCommand";
+
+/**
+ * The interface definition for a PureMVC command history.
+ *
+ * An <code>ICommandHistory</code> keeps the executed <code>IUndoableCommand</code>s of a Core in
+ * undo and redo stacks. Each entry of a stack is a step, which holds a single command or a
+ * group of commands recorded between <code>beginGroup</code> and <code>endGroup</code>.
+ */
+export interface ICommandHistory
+{
+	/**
+	 * Record an executed <code>IUndoableCommand</code>.
+	 *
+	 * Recording a command clears the redo stack.
+	 *
+	 * @param command
+	 * 		The command that was executed.
+	 */
+	record( command:IUndoableCommand ):void;
+
+	/**
+	 * Undo the most recent step.
+	 */
+	undo():Promise<void>;
+
+	/**
+	 * Redo the most recently undone step.
+	 */
+	redo():Promise<void>;
+
+	/**
+	 * Check whether there is a step to undo.
+	 *
+	 * @return
+	 * 		The undo stack is not empty.
+	 */
+	canUndo():boolean;
+
+	/**
+	 * Check whether there is a step to redo.
+	 *
+	 * @return
+	 * 		The redo stack is not empty.
+	 */
+	canRedo():boolean;
+
+	/**
+	 * Start grouping recorded commands into a single undo step.
+	 *
+	 * Groups may be nested; only the outermost <code>endGroup</code> closes the step.
+	 */
+	beginGroup():void;
+
+	/**
+	 * Close the group opened by the matching <code>beginGroup</code>.
+	 */
+	endGroup():void;
+
+	/**
+	 * Set the maximum number of undo steps kept.
+	 *
+	 * @param depth
+	 * 		The maximum depth, the oldest steps are dropped once it is exceeded.
+	 */
+	setMaxDepth( depth:number ):void;
+
+	/**
+	 * Get the maximum number of undo steps kept.
+	 *
+	 * @return
+	 * 		The maximum depth.
+	 */
+	getMaxDepth():number;
+
+	/**
+	 * Get the number of steps that can be undone.
+	 *
+	 * @return
+	 * 		The size of the undo stack.
+	 */
+	getUndoCount():number;
+
+	/**
+	 * Get the number of steps that can be redone.
+	 *
+	 * @return
+	 * 		The size of the redo stack.
+	 */
+	getRedoCount():number;
+
+	/**
+	 * Drop every recorded step.
+	 */
+	clear():void;
+}
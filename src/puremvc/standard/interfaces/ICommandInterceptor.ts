@@ -0,0 +1,35 @@
+import { CommandConstructor } from "./ICommand";
+import { INotification } from "./INotification";
+
+/**
+ * The interface definition for a PureMVC command interceptor.
+ *
+ * Interceptors registered with the <code>IController</code> form an ordered chain wrapped
+ * around the execution of every <code>ICommand</code>. Each interceptor receives the
+ * <code>INotification</code> and a <code>next</code> function which runs the remaining
+ * interceptors and, finally, the command itself.
+ *
+ * An interceptor may:
+ * <UL>
+ * <LI>Veto the execution, by not calling <code>next</code>.
+ * <LI>Rewrite the notification, by passing another <code>INotification</code> to
+ * <code>next</code>.
+ * <LI>Act before and after the command, by awaiting <code>next</code>.
+ * <LI>Handle errors, by catching the rejection of <code>next</code>.
+ */
+export interface ICommandInterceptor
+{
+	/**
+	 * Intercept the execution of an <code>ICommand</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> the command is executed for.
+	 *
+	 * @param next
+	 * 		Continues the chain, optionally with a replacement <code>INotification</code>.
+	 *
+	 * @param commandClass
+	 * 		The constructor of the <code>ICommand</code> about to be executed.
+	 */
+	intercept( notification:INotification, next:( notification?:INotification ) => Promise<void>, commandClass:CommandConstructor ):Promise<void>;
+}
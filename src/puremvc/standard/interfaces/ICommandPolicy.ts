@@ -0,0 +1,130 @@
+import { CommandConstructor } from "./ICommand";
+import { INotification } from "./INotification";
+
+/**
+ * How the <code>IController</code> executes an <code>ICommand</code>, declared when
+ * registering it.
+ *
+ * A failed attempt is retried after a delay growing exponentially, until the maximum number
+ * of attempts is reached or <code>retryIf</code> refuses. An attempt taking longer than the
+ * <code>timeout</code> fails, aborting the signal handed to the command with
+ * <code>initializeSignal</code>, without waiting for it to settle. Aborting the
+ * <code>INotification</code> stops the retries, even during the delay.
+ */
+export interface ICommandPolicy
+{
+	/**
+	 * How many times the command may be executed. Defaults to <code>1</code>, no retry.
+	 */
+	maxAttempts?:number;
+
+	/**
+	 * How many milliseconds to wait before the first retry. Defaults to <code>0</code>.
+	 */
+	backoff?:number;
+
+	/**
+	 * The factor multiplying the delay after each retry. Defaults to <code>2</code>.
+	 */
+	backoffFactor?:number;
+
+	/**
+	 * The maximum delay between two attempts, in milliseconds. Defaults to no limit.
+	 */
+	maxBackoff?:number;
+
+	/**
+	 * The fraction of the delay randomly added or removed, from <code>0</code> to
+	 * <code>1</code>. Defaults to <code>0</code>.
+	 */
+	jitter?:number;
+
+	/**
+	 * How many milliseconds an attempt may take. Defaults to <code>0</code>, no timeout.
+	 */
+	timeout?:number;
+
+	/**
+	 * Decide whether a failed attempt is retried. Defaults to retrying every error.
+	 *
+	 * @param error
+	 * 		The error of the failed attempt.
+	 *
+	 * @param attempt
+	 * 		The number of the failed attempt, starting at <code>1</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> the command handles.
+	 */
+	retryIf?( error:unknown, attempt:number, notification:INotification ):boolean;
+}
+
+/**
+ * The timers used by the <code>IController</code> to wait between attempts and time them out,
+ * and by the <code>PersistentProxy</code> to debounce its writes, replaced by a fake clock in
+ * tests.
+ */
+export interface IClock
+{
+	/**
+	 * Call a function once a delay elapsed.
+	 *
+	 * @param callback
+	 * 		The function to call.
+	 *
+	 * @param delay
+	 * 		The delay, in milliseconds.
+	 *
+	 * @return
+	 * 		The handle cancelling the call with <code>clearTimeout</code>.
+	 */
+	setTimeout( callback:() => void, delay:number ):unknown;
+
+	/**
+	 * Cancel a call scheduled with <code>setTimeout</code>.
+	 *
+	 * @param handle
+	 * 		The handle returned by <code>setTimeout</code>.
+	 */
+	clearTimeout( handle:unknown ):void;
+
+	/**
+	 * Get a random number, used for the jitter of the delays.
+	 *
+	 * @return
+	 * 		A number from <code>0</code> inclusive to <code>1</code> exclusive.
+	 */
+	random():number;
+}
+
+/**
+ * The body of the notifications sent by the <code>IController</code> when an attempt of a
+ * command with an <code>ICommandPolicy</code> fails.
+ */
+export interface ICommandFailure
+{
+	/**
+	 * The <code>INotification</code> the command handles.
+	 */
+	notification:INotification;
+
+	/**
+	 * The constructor of the command.
+	 */
+	commandClass:CommandConstructor;
+
+	/**
+	 * The number of the failed attempt, starting at <code>1</code>.
+	 */
+	attempt:number;
+
+	/**
+	 * The error of the failed attempt.
+	 */
+	error:unknown;
+
+	/**
+	 * How many milliseconds to wait before the next attempt, when it is retried.
+	 */
+	delay?:number;
+}
@@ -1,4 +1,8 @@
-import { INotification } from "./INotification";
+import { CommandConstructor } from "./ICommand";
+import { ICommandInterceptor } from "./ICommandInterceptor";
+import { IClock, ICommandPolicy } from "./ICommandPolicy";
+import { INotification, NotificationInterest } from "./INotification";
+import { ISpanListener } from "./ISpan";
 
 /**
  * The interface definition for a PureMVC Controller.
@@ -44,12 +48,19 @@ export interface IController
 	 * <code>Notification</code> name.
 	 * 
 	 * @param notificationName
-	 * 		The name of the <code>INotification</code>.
+	 * 		The name of the <code>INotification</code>, or a wildcard string or
+	 * 		<code>RegExp</code> matching names.
 	 *
 	 * @param commandClassRef
 	 * 		The constructor of the <code>ICommand</code> implementor.
+	 *
+	 * @param priority
+	 * 		The priority of the command's <code>Observer</code>, used when it is created.
+	 *
+	 * @param policy
+	 * 		Optionally, the retries and timeout applied when executing the command.
 	 */
-	registerCommand( notificationName:string, commandClassRef:Function ):void;
+	registerCommand( notificationName:NotificationInterest, commandClassRef:Function, priority?:number, policy?:ICommandPolicy ):void;
 	
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
@@ -62,7 +73,15 @@ export interface IController
 	 * 		An <code>ICommand</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 		*/
-	hasCommand( notificationName:string ):boolean;
+	hasCommand( notificationName:NotificationInterest ):boolean;
+
+	/**
+	 * List the <code>ICommand</code> classes registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A mapping per interest, in registration order.
+	 */
+	listCommands():ICommandMapping[];
 
 	/**
 	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
@@ -72,7 +91,66 @@ export interface IController
 	 * 		The name of the <code>INotification</code> to remove the <code>ICommand</code>
 	 * 		mapping for.
 	 */
-	removeCommand( notificationName:string ):void;
+	removeCommand( notificationName:NotificationInterest ):void;
+
+	/**
+	 * Append an <code>ICommandInterceptor</code> to the chain run around every command.
+	 *
+	 * Interceptors run in the order they were added, the first one being the outermost.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	addCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code>.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 */
+	removeCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Set the timers used to apply the <code>ICommandPolicy</code>s.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code>, such as a fake one in tests.
+	 */
+	setClock( clock:IClock ):void;
+
+	/**
+	 * Add a listener receiving a span for every <code>ICommand</code> executed.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	addSpanListener( listener:ISpanListener ):void;
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	removeSpanListener( listener:ISpanListener ):void;
 
 	dispose(): Promise<void>;
 }
+
+/**
+ * The <code>ICommand</code> class registered for a notification name or pattern, as listed
+ * by <code>IController.listCommands</code>.
+ */
+export interface ICommandMapping
+{
+	/**
+	 * The notification name or pattern.
+	 */
+	interest:NotificationInterest;
+
+	/**
+	 * The constructor of the <code>ICommand</code>.
+	 */
+	commandClass:CommandConstructor;
+}
@@ -0,0 +1,64 @@
+/**
+ * The declarative configuration of a finite state machine, read by <code>FSMInjector</code>.
+ *
+ * It only holds names, so it can as well be written in JSON:
+ *
+ * <pre>
+ *		{
+ *			"initial": "closed",
+ *			"states": [
+ *				{ "name": "closed", "changed": "door/closed", "transitions": { "open": "opened", "lock": "locked" } },
+ *				{ "name": "opened", "entering": "door/opening", "transitions": { "close": "closed" } },
+ *				{ "name": "locked", "exiting": "door/unlocking", "transitions": { "unlock": "closed" } }
+ *			]
+ *		}
+ * </pre>
+ */
+export interface IFSMConfig
+{
+	/**
+	 * The name of the state the machine starts in.
+	 */
+	initial?:string;
+
+	/**
+	 * The states of the machine.
+	 */
+	states:IStateConfig[];
+}
+
+/**
+ * The declarative configuration of a state of a finite state machine.
+ */
+export interface IStateConfig
+{
+	/**
+	 * The name of the state.
+	 */
+	name:string;
+
+	/**
+	 * The notification sent before entering the state, which observers can cancel.
+	 */
+	entering?:string;
+
+	/**
+	 * The notification sent before exiting the state, which observers can cancel.
+	 */
+	exiting?:string;
+
+	/**
+	 * The notification sent once the state is exited.
+	 */
+	exited?:string;
+
+	/**
+	 * The notification sent once the state is entered.
+	 */
+	changed?:string;
+
+	/**
+	 * The target state of each action, by action name.
+	 */
+	transitions?:{ [action:string]:string };
+}
@@ -1,8 +1,16 @@
 import { CommandConstructor } from "./ICommand";
+import { ICommandHistory } from "./ICommandHistory";
+import { ICommandInterceptor } from "./ICommandInterceptor";
+import { IClock, ICommandPolicy } from "./ICommandPolicy";
+import { ICommandMapping } from "./IController";
 import { IMediator } from "./IMediator";
-import { INotification } from "./INotification";
+import { ModelSnapshot } from "./IModel";
+import { INotification, NotificationInterest } from "./INotification";
+import { NotificationMap, RequestArgs } from "./INotificationMap";
 import { INotifier } from "./INotifier";
 import { IProxy } from "./IProxy";
+import { ISpanListener } from "./ISpan";
+import { IMediatorDescription, IObserverDescription } from "./IView";
 
 /**
  * The interface definition for a PureMVC Facade.
@@ -15,8 +23,8 @@ import { IProxy } from "./IProxy";
  * In PureMVC, the Facade acts as an interface between the core MVC actors (Model, View,
  * Controller) and the rest of your application.
  */
-export interface IFacade
-	extends INotifier
+export interface IFacade<NotificationMapType extends object = NotificationMap>
+	extends INotifier<NotificationMapType>
 {
 	/**
 	 * Register an <code>ICommand</code> with the <code>IController</code> associating it to a
@@ -24,12 +32,18 @@ export interface IFacade
 	 * 
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to associate the <code>ICommand</code>
-		*		with.
+		*		with, or a wildcard string or <code>RegExp</code> matching names.
 		*
 		* @param commandClassRef
 		* 		A reference to the constructor of the <code>ICommand</code>.
+		*
+		* @param priority
+		* 		The priority of the command relative to other observers of the notification.
+		*
+		* @param policy
+		* 		Optionally, the retries and timeout applied when executing the command.
 		*/
-	registerCommand( notificationName:string, commandClassRef:CommandConstructor ):void;
+	registerCommand( notificationName:NotificationInterest, commandClassRef:CommandConstructor, priority?:number, policy?:ICommandPolicy ):void;
 	
 	/**
 	 * Remove a previously registered <code>ICommand</code> to <code>INotification</code>
@@ -39,7 +53,7 @@ export interface IFacade
 	 *		The name of the <code>INotification</code> to remove the <code>ICommand</code>
 		*		mapping for.
 		*/
-	removeCommand( notificationName:string ): void;
+	removeCommand( notificationName:NotificationInterest ): void;
 
 	/**
 	 * Check if an <code>ICommand</code> is registered for a given <code>Notification</code>.
@@ -52,7 +66,68 @@ export interface IFacade
 	 * 		A <code>Command</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 		*/
-	hasCommand( notificationName:string ):boolean;
+	hasCommand( notificationName:NotificationInterest ):boolean;
+
+	/**
+	 * List the <code>ICommand</code> classes registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A mapping per interest, in registration order.
+	 */
+	listCommands():ICommandMapping[];
+
+	/**
+	 * Append an <code>ICommandInterceptor</code> to the chain the <code>IController</code>
+	 * runs around every command.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	addCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code> from the
+	 * <code>IController</code>.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 */
+	removeCommandInterceptor( interceptor:ICommandInterceptor ):void;
+
+	/**
+	 * Set the timers the <code>IController</code> uses to apply the
+	 * <code>ICommandPolicy</code>s.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code>, such as a fake one in tests.
+	 */
+	setCommandClock( clock:IClock ):void;
+
+	/**
+	 * Add a listener receiving a span for every <code>IObserver</code> notified and every
+	 * <code>ICommand</code> executed in this Core.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	addSpanListener( listener:ISpanListener ):void;
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	removeSpanListener( listener:ISpanListener ):void;
+
+	/**
+	 * Get the <code>ICommandHistory</code> of this Core.
+	 *
+	 * @return
+	 * 		The <code>ICommandHistory</code> in which <code>IUndoableCommand</code>s are
+	 * 		recorded.
+	 */
+	getCommandHistory():ICommandHistory;
 
 	/**
 	 * Register an <code>IProxy</code> with the <code>Model</code> by name.
@@ -62,6 +137,15 @@ export interface IFacade
 		*/
 	registerProxy( proxy:IProxy ):void;
 
+	/**
+	 * Register an <code>IProxy</code> with the <code>IModel</code>, waiting for its
+	 * <code>onRegister</code> to complete.
+	 *
+	 * @param proxy
+	 *		An <code>IProxy</code> to be held by the <code>IModel</code>.
+	 */
+	registerProxyAsync( proxy:IProxy ):Promise<void>;
+
 	/**
 	 * Retrieve an <code>IProxy</code> from the <code>Model</code> by name.
 	 * 
@@ -84,6 +168,19 @@ export interface IFacade
 		*/
 	removeProxy<ProxyType extends IProxy = IProxy>( proxyName:string ):ProxyType | undefined;
 
+	/**
+	 * Remove an <code>IProxy</code> from the <code>IModel</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param proxyName
+	 *		The name of the <code>Proxy</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IProxy</code> that was removed, or <code>undefined</code> if it didn't
+	 *		exist.
+	 */
+	removeProxyAsync<ProxyType extends IProxy = IProxy>( proxyName:string ):Promise<ProxyType | undefined>;
+
 	/**
 	 * Check if a <code>Proxy</code> is registered.
 	 * 
@@ -96,6 +193,41 @@ export interface IFacade
 		*/
 	hasProxy( proxyName:string ):boolean;
 
+	/**
+	 * List the names of the registered <code>IProxy</code>s.
+	 *
+	 * @return
+	 * 		The proxy names, in registration order.
+	 */
+	listProxyNames():string[];
+
+	/**
+	 * Capture the data of the registered <code>IProxy</code>s.
+	 *
+	 * The data is deep copied with <code>structuredClone</code>, so the snapshot is not
+	 * affected by later changes, and can be serialized to be stored or attached to a bug
+	 * report.
+	 *
+	 * @param proxyNames
+	 * 		The names of the <code>IProxy</code>s to capture; all of them if omitted.
+	 *
+	 * @return
+	 * 		The data of each <code>IProxy</code>, by name.
+	 */
+	snapshot( proxyNames?:string[] ):ModelSnapshot;
+
+	/**
+	 * Push the data of a snapshot back into the registered <code>IProxy</code>s, through
+	 * their <code>setData</code> method.
+	 *
+	 * The data is copied, so a snapshot can be restored several times. Data of
+	 * <code>IProxy</code>s not registered anymore is ignored.
+	 *
+	 * @param snapshot
+	 * 		A snapshot taken by <code>snapshot</code>.
+	 */
+	restore( snapshot:ModelSnapshot ):Promise<void>;
+
 	/**
 	 * Register a <code>IMediator</code> with the <code>IView</code>.
 	 *
@@ -104,6 +236,15 @@ export interface IFacade
 		*/
 	registerMediator( mediator:IMediator ):void;
 
+	/**
+	 * Register an <code>IMediator</code> instance with the <code>IView</code>, waiting for
+	 * its <code>onRegister</code> to complete.
+	 *
+	 * @param mediator
+	 * 		A reference to an <code>IMediator</code> implementation instance.
+	 */
+	registerMediatorAsync( mediator:IMediator ):Promise<void>;
+
 	/**
 	 * Retrieve an <code>IMediator</code> from the <code>IView</code>.
 	 * 
@@ -126,6 +267,19 @@ export interface IFacade
 	 *		The <code>IMediator</code> that was removed from the <code>IView</code>
 		*/
 	removeMediator<MediatorType extends IMediator = IMediator>( mediatorName:string ):MediatorType | undefined;
+
+	/**
+	 * Remove an <code>IMediator</code> from the <code>IView</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param mediatorName
+	 * 		Name of the <code>IMediator</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IMediator</code> that was removed, or <code>undefined</code> if it
+	 *		didn't exist.
+	 */
+	removeMediatorAsync<MediatorType extends IMediator = IMediator>( mediatorName:string ):Promise<MediatorType | undefined>;
 	
 	/**
 	 * Check if a Mediator is registered or not
@@ -139,6 +293,31 @@ export interface IFacade
 		*/
 	hasMediator( mediatorName:string ):boolean;
 
+	/**
+	 * List the names of the registered <code>IMediator</code>s.
+	 *
+	 * @return
+	 * 		The mediator names, in registration order.
+	 */
+	listMediatorNames():string[];
+
+	/**
+	 * Describe the registered <code>IMediator</code>s and their notification interests.
+	 *
+	 * @return
+	 * 		A description per mediator, in registration order.
+	 */
+	listMediators():IMediatorDescription[];
+
+	/**
+	 * Describe the <code>IObserver</code>s registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A description per interest, the exact names first, with the observers in the order
+	 * 		they are notified.
+	 */
+	listObservers():IObserverDescription[];
+
 	/**
 	 * Notify the <code>IObservers</code> for a particular <code>INotification</code>.
 	 *
@@ -154,5 +333,39 @@ export interface IFacade
 	 */
 	notifyObservers( notification:INotification ): Promise<void>;
 
+	/**
+	 * Send a <code>Notification</code> as a request and get the reply of its handler.
+	 *
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and a timeout in
+	 * 		milliseconds (both optional).
+	 *
+	 * @return
+	 * 		The reply to the request.
+	 */
+	request<Result = any>( ...args:RequestArgs<NotificationMapType> ): Promise<Result>;
+
+	/**
+	 * Abort all the commands started by an <code>INotification</code>.
+	 *
+	 * Commands not yet launched are skipped, and commands in flight see the signal of the
+	 * notification aborted.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> whose commands to abort.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation.
+	 */
+	abortCommands( notification:INotification, reason?:any ):void;
+
+	/**
+	 * Get the multiton key of the Core this <code>IFacade</code> belongs to.
+	 *
+	 * @return
+	 * 		The multiton key.
+	 */
+	getMultitonKey():string;
+
 	dispose(): Promise<void>;
 }
\ No newline at end of file
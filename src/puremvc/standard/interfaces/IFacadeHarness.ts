@@ -0,0 +1,133 @@
+import { IFacade } from "./IFacade";
+import { INotification } from "./INotification";
+import { IProxy } from "./IProxy";
+
+/**
+ * The interface definition for a test harness around an isolated Core.
+ *
+ * An <code>IFacadeHarness</code> owns a Core under a unique multiton key, records every
+ * <code>INotification</code> sent through it, and disposes it at the end of the test.
+ */
+export interface IFacadeHarness
+{
+	/**
+	 * The facade of the isolated Core.
+	 */
+	readonly facade:IFacade;
+
+	/**
+	 * Get the notifications sent through the Core.
+	 *
+	 * @param notificationName
+	 * 		Only get the notifications with this name.
+	 *
+	 * @return
+	 * 		The notifications, in the order they were sent.
+	 */
+	getNotifications( notificationName?:string ):INotification[];
+
+	/**
+	 * Forget the notifications recorded so far.
+	 */
+	clearNotifications():void;
+
+	/**
+	 * Assert that a notification was sent.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param matcher
+	 * 		The expected body, compared deeply; a function called with the body and the
+	 * 		notification, returning whether it matches; or an asymmetric matcher such as
+	 * 		<code>expect.objectContaining</code>.
+	 *
+	 * @return
+	 * 		The first matching notification.
+	 *
+	 * @throws Error
+	 * 		No notification with this name and a matching body was sent.
+	 */
+	expectNotification( notificationName:string, matcher?:unknown ):INotification;
+
+	/**
+	 * Assert that no notification with a given name was sent.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @throws Error
+	 * 		A notification with this name was sent.
+	 */
+	expectNoNotification( notificationName:string ):void;
+
+	/**
+	 * Register a plain <code>Proxy</code> holding some data, replacing the
+	 * <code>IProxy</code> registered with the same name.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code>.
+	 *
+	 * @param data
+	 * 		The data of the <code>Proxy</code>.
+	 *
+	 * @return
+	 * 		The <code>Proxy</code> registered.
+	 */
+	registerFakeProxy<DataType = unknown>( proxyName:string, data?:DataType ):IProxy<DataType>;
+
+	/**
+	 * Register a command recording its executions, replacing the <code>ICommand</code>
+	 * registered for the same name.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification executing the command.
+	 *
+	 * @param implementation
+	 * 		Called on execution; what it returns replies to requests.
+	 *
+	 * @return
+	 * 		The record of the executions.
+	 */
+	stubCommand( notificationName:string, implementation?:( notification:INotification ) => any ):ICommandStub;
+
+	/**
+	 * Remove the Core.
+	 */
+	dispose():Promise<void>;
+}
+
+/**
+ * The record of the executions of a command registered by
+ * <code>IFacadeHarness.stubCommand</code>.
+ */
+export interface ICommandStub
+{
+	/**
+	 * The notifications the command was executed for.
+	 */
+	calls:INotification[];
+}
+
+/**
+ * The hooks of a test runner, such as the <code>beforeEach</code> and <code>afterEach</code>
+ * globals of Jest, used by <code>FacadeHarness.install</code>.
+ */
+export interface ITestHooks
+{
+	/**
+	 * Register a function called before each test.
+	 *
+	 * @param hook
+	 * 		The function to call.
+	 */
+	beforeEach( hook:() => unknown ):void;
+
+	/**
+	 * Register a function called after each test.
+	 *
+	 * @param hook
+	 * 		The function to call.
+	 */
+	afterEach( hook:() => unknown ):void;
+}
@@ -0,0 +1,78 @@
+/**
+ * The interface definition of the values shared by the <i>SubCommands</i> of one execution of
+ * a <code>MacroCommand</code>.
+ *
+ * Values are stored under typed keys, so each <i>SubCommand</i> can hand its results to the
+ * next ones.
+ */
+export interface IMacroCommandContext
+{
+	/**
+	 * Get the value stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		The value, or the default value of the key when none is stored.
+	 */
+	get<Value>( key:IContextKey<Value> ):Value;
+
+	/**
+	 * Store a value under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @param value
+	 * 		The value to store.
+	 */
+	set<Value>( key:IContextKey<Value>, value:Value ):void;
+
+	/**
+	 * Check if a value is stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		A value is stored under the key.
+	 */
+	has( key:IContextKey<unknown> ):boolean;
+
+	/**
+	 * Remove the value stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		A value was stored under the key.
+	 */
+	delete( key:IContextKey<unknown> ):boolean;
+}
+
+/**
+ * The interface definition of a key of an <code>IMacroCommandContext</code>, typing the value
+ * stored under it.
+ *
+ * Keys are compared by identity, not by name.
+ */
+export interface IContextKey<Value>
+{
+	/**
+	 * Get the name of the key, describing it.
+	 *
+	 * @return
+	 * 		The name of the key.
+	 */
+	getName():string;
+
+	/**
+	 * Get the value read when none is stored under the key.
+	 *
+	 * @return
+	 * 		The default value.
+	 */
+	getDefaultValue():Value;
+}
@@ -0,0 +1,51 @@
+import { CommandConstructor } from "./ICommand";
+
+/**
+ * The result of the execution of a <code>MacroCommand</code>, replying to the notification
+ * that executed it.
+ */
+export interface IMacroCommandResult
+{
+	/**
+	 * The outcome of each <i>SubCommand</i>, in the order they were added.
+	 */
+	outcomes:ISubCommandOutcome[];
+
+	/**
+	 * At least one <i>SubCommand</i> failed.
+	 */
+	failed:boolean;
+
+	/**
+	 * The value derived from the context of the execution, if any.
+	 */
+	value?:any;
+}
+
+/**
+ * The outcome of a <i>SubCommand</i> of a <code>MacroCommand</code>.
+ */
+export interface ISubCommandOutcome
+{
+	/**
+	 * The constructor of the <i>SubCommand</i>.
+	 */
+	commandClass:CommandConstructor;
+
+	/**
+	 * <code>"fulfilled"</code> or <code>"rejected"</code> once executed;
+	 * <code>"skipped"</code> if it was not executed; <code>"pending"</code> if it was still
+	 * running when a failure stopped the <code>MacroCommand</code>.
+	 */
+	status:"fulfilled" | "rejected" | "skipped" | "pending";
+
+	/**
+	 * What the <i>SubCommand</i> returned, if fulfilled.
+	 */
+	value?:any;
+
+	/**
+	 * The error thrown by the <i>SubCommand</i>, if rejected.
+	 */
+	error?:unknown;
+}
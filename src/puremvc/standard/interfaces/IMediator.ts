@@ -1,4 +1,5 @@
-import { INotification } from "./INotification";
+import { NotificationInterest } from "./INotification";
+import { NotificationMap, TypedNotification } from "./INotificationMap";
 import { INotifier } from "./INotifier";
 
 /**
@@ -31,8 +32,8 @@ import { INotifier } from "./INotifier";
  * and register it as an Observer for each <code>INotification</code> name returned by 
  * <code>listNotificationInterests</code>.
  */
-export interface IMediator<ViewType = unknown>
-	extends INotifier
+export interface IMediator<ViewType = unknown, NotificationMapType extends object = NotificationMap>
+	extends INotifier<NotificationMapType>
 {
 	/**
 	 * Get the <code>IMediator</code> instance name
@@ -73,10 +74,25 @@ export interface IMediator<ViewType = unknown>
 	 * List the <code>INotification</code> names this <code>IMediator</code> is interested in
 	 * being notified of.
 	 *
+	 * Besides exact names, the list may hold wildcard strings such as <code>"user/*"</code>
+	 * or <code>RegExp</code>s matching several names.
+	 *
 	 * @return
 	 * 		The list of notifications names in which is interested the <code>Mediator</code>.
 	 */
-	listNotificationInterests( ):string[];
+	listNotificationInterests( ):NotificationInterest[];
+
+	/**
+	 * Get the priority with which this <code>IMediator</code> is notified.
+	 *
+	 * Observers with a higher priority are notified first, e.g. validation mediators may be
+	 * given a higher priority than rendering mediators and commands.
+	 *
+	 * @return
+	 * 		The priority of the <code>IMediator</code>'s <code>Observer</code>, <code>0</code>
+	 * 		when not implemented.
+	 */
+	getNotificationPriority?():number;
 	
 	/**
 	 * Handle <code>INotification</code>s.
@@ -88,17 +104,24 @@ export interface IMediator<ViewType = unknown>
 	 * @param notification
 	 * 		The notification instance to be handled.
 	 */ 
-	handleNotification( notification:INotification ): Promise<void>;
+	handleNotification( notification:TypedNotification<NotificationMapType> ): Promise<void>;
 	
 	/**
 	 * Called by the View when the Mediator is registered. This method has to be overridden
 	 * by the subclass to know when the instance is registered.
+	 *
+	 * It may return a promise, which <code>registerMediatorAsync</code> waits for; when
+	 * registered with <code>registerMediator</code>, its rejection is broadcast instead.
 	 */ 
-	onRegister():void;
+	onRegister():void | Promise<void>;
 
 	/**
 	 * Called by the View when the Mediator is removed. This method has to be overridden
 	 * by the subclass to know when the instance is removed.
+	 *
+	 * It may return a promise, which <code>removeMediatorAsync</code> and <code>dispose</code>
+	 * wait for; when removed with <code>removeMediator</code>, its rejection is broadcast
+	 * instead.
 	 */ 
-	onRemove():void;
+	onRemove():void | Promise<void>;
 }
\ No newline at end of file
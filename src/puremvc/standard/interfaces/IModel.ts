@@ -25,6 +25,15 @@ export interface IModel
 		*/
 	registerProxy( proxy:IProxy ):void;
 
+	/**
+	 * Register an <code>IProxy</code> with the <code>Model</code>, waiting for its
+	 * <code>onRegister</code> to complete.
+	 *
+	 * @param proxy
+	 *		An <code>IProxy</code> to be held by the <code>Model</code>.
+	 */
+	registerProxyAsync( proxy:IProxy ):Promise<void>;
+
 	/**
 	 * Remove an <code>IProxy</code> from the <code>Model</code>.
 	 *
@@ -37,6 +46,19 @@ export interface IModel
 		*/
 	removeProxy<ProxyType extends IProxy = IProxy>( proxyName:string ):ProxyType | undefined;
 
+	/**
+	 * Remove an <code>IProxy</code> from the <code>Model</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param proxyName
+	 *		The name of the <code>Proxy</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IProxy</code> that was removed, or <code>undefined</code> if it didn't
+	 *		exist.
+	 */
+	removeProxyAsync<ProxyType extends IProxy = IProxy>( proxyName:string ):Promise<ProxyType | undefined>;
+
 	/**
 	 * Retrieve an <code>IProxy</code> from the <code>Model</code>.
 	 * 
@@ -60,5 +82,49 @@ export interface IModel
 	 */
 	hasProxy( proxyName:string ):boolean;
 
+	/**
+	 * List the names of the registered <code>IProxy</code>s.
+	 *
+	 * @return
+	 * 		The proxy names, in registration order.
+	 */
+	listProxyNames():string[];
+
+	/**
+	 * Capture the data of the registered <code>IProxy</code>s.
+	 *
+	 * The data is deep copied with <code>structuredClone</code>, so the snapshot is not
+	 * affected by later changes, and can be serialized to be stored or attached to a bug
+	 * report.
+	 *
+	 * @param proxyNames
+	 * 		The names of the <code>IProxy</code>s to capture; all of them if omitted.
+	 *
+	 * @return
+	 * 		The data of each <code>IProxy</code>, by name.
+	 */
+	snapshot( proxyNames?:string[] ):ModelSnapshot;
+
+	/**
+	 * Push the data of a snapshot back into the registered <code>IProxy</code>s, through
+	 * their <code>setData</code> method.
+	 *
+	 * The data is copied, so a snapshot can be restored several times. Data of
+	 * <code>IProxy</code>s not registered anymore is ignored.
+	 *
+	 * @param snapshot
+	 * 		A snapshot taken by <code>snapshot</code>.
+	 */
+	restore( snapshot:ModelSnapshot ):Promise<void>;
+
+	/**
+	 * Remove all <code>IProxy</code>s, waiting for their <code>onRemove</code> to complete,
+	 * and release this multiton instance.
+	 */
 	dispose(): Promise<void>;
-}
\ No newline at end of file
+}
+
+/**
+ * The data of <code>IProxy</code>s captured by <code>IModel.snapshot</code>, by proxy name.
+ */
+export type ModelSnapshot = { [proxyName:string]:any };
\ No newline at end of file
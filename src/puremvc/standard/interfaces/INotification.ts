@@ -21,8 +21,12 @@
  * <code>Event</code>, while PureMVC <code>INotification</code>s follow a 'Publish/Subscribe'
  * pattern. PureMVC classes need not be related to each other in a parent/child relationship in
  * order to communicate with one another using <code>INotification</code>s.
+ *
+ * The members cancelling, replying to and tracing the notification are optional, so that
+ * existing implementations keep compiling: the framework cannot abort, reply to or correlate
+ * a notification missing them. <code>Notification</code> implements them all.
  */
-export interface INotification<BodyType = any>
+export interface INotification<BodyType = any, NameType extends string = string>
 {
 	/**
 	 * Get the name of the <code>Notification</code> instance.
@@ -30,7 +34,7 @@ export interface INotification<BodyType = any>
 	 * @return
 	 *		The name of the <code>Notification</code> instance.
 		*/
-	getName():string;
+	getName():NameType;
 
 	/**
 	 * Set the body of the <code>INotification</code>.
@@ -64,6 +68,84 @@ export interface INotification<BodyType = any>
 		*/
 	getType():string | undefined;
 
+	/**
+	 * Get the <code>AbortSignal</code> of the <code>INotification</code>.
+	 *
+	 * Every <code>ICommand</code> started by this notification shares this signal; long
+	 * running commands should watch it and stop their work once it is aborted.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code> of the <code>INotification</code>.
+	 */
+	getSignal?():AbortSignal;
+
+	/**
+	 * Abort the commands started by the <code>INotification</code>.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation, exposed as <code>getSignal().reason</code>.
+	 */
+	abort?( reason?:any ):void;
+
+	/**
+	 * Reply to the <code>INotification</code>, when it was sent as a request.
+	 *
+	 * Only the first reply is kept; later calls are ignored.
+	 *
+	 * @param value
+	 * 		The result of the request.
+	 */
+	reply?( value?:any ):void;
+
+	/**
+	 * Check whether the <code>INotification</code> has been replied to.
+	 *
+	 * @return
+	 * 		<code>reply</code> has been called.
+	 */
+	hasReply?():boolean;
+
+	/**
+	 * Get the reply to the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The value passed to <code>reply</code>, or <code>undefined</code>.
+	 */
+	getReply?():any;
+
+	/**
+	 * Get the unique identifier of the <code>INotification</code>.
+	 *
+	 * @return
+	 * 		The identifier of the <code>INotification</code> instance.
+	 */
+	getId?():string;
+
+	/**
+	 * Get the time the <code>INotification</code> was created.
+	 *
+	 * @return
+	 * 		The creation time, in milliseconds since the epoch.
+	 */
+	getTimestamp?():number;
+
+	/**
+	 * Get the identifier shared by all the notifications of a cascade.
+	 *
+	 * @return
+	 * 		The correlation identifier of the notification that started the cascade.
+	 */
+	getCorrelationId?():string;
+
+	/**
+	 * Get the identifier of the notification being handled when this one was sent.
+	 *
+	 * @return
+	 * 		The identifier of the cause, or <code>undefined</code> if the
+	 * 		<code>INotification</code> started a cascade.
+	 */
+	getCausationId?():string | undefined;
+
 	/**
 	 * Get a textual representation of the <code>Notification</code> instance.
 	 *
@@ -71,4 +153,11 @@ export interface INotification<BodyType = any>
 	 * 		The textual representation of the <code>Notification</code>	instance.
 	 */
 	toString():string;
-}
\ No newline at end of file
+}
+
+/**
+ * What an <code>IObserver</code> can be registered for: an exact notification name, a
+ * wildcard string such as <code>"user/*"</code> where <code>*</code> matches any sequence
+ * of characters, or a <code>RegExp</code> tested against notification names.
+ */
+export type NotificationInterest = string | RegExp;
\ No newline at end of file
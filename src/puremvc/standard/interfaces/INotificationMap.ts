@@ -0,0 +1,74 @@
+import { INotification } from "./INotification";
+
+/**
+ * A map of notification names to the type of their body.
+ *
+ * Declare one for your application and pass it to the generic parameters of
+ * <code>Facade</code>, <code>Notifier</code>, <code>Mediator</code>, <code>Proxy</code> and
+ * <code>SimpleCommand</code>, so notification names autocomplete and bodies are checked at
+ * compile time:
+ *
+ * <pre>
+ *		interface AppNotifications
+ *		{
+ *			"user/login": { name:string, password:string };
+ *			"user/logout": undefined;
+ *		}
+ *
+ *		class LoginMediator extends Mediator<LoginView, AppNotifications> { ... }
+ * </pre>
+ *
+ * The default map accepts any name with any body, which is how untyped code behaves.
+ */
+export type NotificationMap = { [name:string]:any };
+
+/**
+ * The notification names declared by a <code>NotificationMap</code>.
+ */
+export type NotificationName<NotificationMapType extends object = NotificationMap> = Extract<keyof NotificationMapType, string>;
+
+/**
+ * The body type of a notification declared by a <code>NotificationMap</code>.
+ */
+export type NotificationBody<NotificationMapType extends object, Name extends NotificationName<NotificationMapType>> = NotificationMapType[Name];
+
+/**
+ * Whether a body type accepts <code>undefined</code>, so the body may be omitted.
+ *
+ * Without <code>strictNullChecks</code>, <code>undefined</code> is assignable to every type,
+ * so only the <code>undefined</code>, <code>void</code> and <code>any</code> bodies are
+ * optional.
+ */
+export type OptionalBody<Body> =
+	[Body] extends [undefined | void] ? true
+		: undefined extends string ? false
+			: undefined extends Body ? true : false;
+
+/**
+ * The parameters of <code>sendNotification</code> for a <code>NotificationMap</code>: a union
+ * of <code>[name, body, type?]</code> tuples, one per declared notification, so the body is
+ * checked against the name it is sent with. The body is optional only when its type accepts
+ * <code>undefined</code>.
+ */
+export type NotificationArgs<NotificationMapType extends object = NotificationMap> =
+	{ [N in NotificationName<NotificationMapType>]:OptionalBody<NotificationMapType[N]> extends true
+		? [name:N, body?:NotificationMapType[N], type?:string]
+		: [name:N, body:NotificationMapType[N], type?:string] }[NotificationName<NotificationMapType>];
+
+/**
+ * The parameters of <code>request</code> for a <code>NotificationMap</code>: a union of
+ * <code>[name, body, timeout?]</code> tuples, one per declared notification, the body being
+ * optional only when its type accepts <code>undefined</code>.
+ */
+export type RequestArgs<NotificationMapType extends object = NotificationMap> =
+	{ [N in NotificationName<NotificationMapType>]:OptionalBody<NotificationMapType[N]> extends true
+		? [name:N, body?:NotificationMapType[N], timeout?:number]
+		: [name:N, body:NotificationMapType[N], timeout?:number] }[NotificationName<NotificationMapType>];
+
+/**
+ * The <code>INotification</code>s declared by a <code>NotificationMap</code>, as a union
+ * of one <code>INotification</code> per name. <code>Notification.isNamed</code> narrows it
+ * down to the type of a single notification.
+ */
+export type TypedNotification<NotificationMapType extends object = NotificationMap, Name extends NotificationName<NotificationMapType> = NotificationName<NotificationMapType>> =
+	{ [N in Name]:INotification<NotificationMapType[N], N> }[Name];
@@ -1,3 +1,5 @@
+import { NotificationArgs, NotificationMap, RequestArgs } from "./INotificationMap";
+
 /**
  * The interface definition for a PureMVC <code>Notifier</code>.
  *
@@ -13,23 +15,56 @@
  * the convenience method <code>sendNotification</code>	for sending <code>Notifications</code>,
  * but it also eases implementation as these classes have frequent <code>Facade</code>
  * interactions and usually require access to the facade anyway.
+ *
+ * <code>request</code> is optional, so that existing implementations keep compiling.
  */
-export interface INotifier
+export interface INotifier<NotificationMapType extends object = NotificationMap>
 {
+	/**
+	 * Initialize this <code>INotifier</code> instance.
+	 *
+	 * This is how a <code>Notifier</code> gets its multiton key. Calls to
+	 * <code>sendNotification</code> or access to the facade will resolve the
+	 * <code>Facade</code> of the Core registered under this key.
+	 *
+	 * The <code>Model</code>, <code>View</code> and <code>Controller</code> call this method
+	 * when a <code>Proxy</code> or <code>Mediator</code> is registered, or when a
+	 * <code>Command</code> is executed, so you rarely need to call it yourself.
+	 *
+	 * @param key
+	 * 		The multiton key for this <code>INotifier</code> to use.
+	 */
+	initializeNotifier( key:string ):void;
+
 	/**
 	 * Create and send a <code>Notification</code>.
 	 *
 	 * Keeps us from having to construct new <code>Notification</code> instances in our
 	 * implementation code.
 	 * 
-	 * @param name
-	 * 		The name of the notification to send.
-	 * 
-	 * @param body
-	 * 		The body of the notification (optional).
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and type (both optional).
+	 * 		With a typed <code>NotificationMap</code>, the body must match the declared type.
+	 */
+	sendNotification( ...args:NotificationArgs<NotificationMapType> ): Promise<void>;
+
+	/**
+	 * Send a <code>Notification</code> as a request and get the reply of its handler.
+	 *
+	 * The handling command replies by returning a value from <code>execute</code>, or any
+	 * observer replies by calling <code>reply</code> on the notification. The request
+	 * resolves with <code>undefined</code> when the handlers complete without replying.
+	 *
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and a timeout in
+	 * 		milliseconds (both optional). When the timeout elapses, the notification is aborted
+	 * 		and the request rejected.
+	 *
+	 * @return
+	 * 		The reply to the request.
 	 *
-	 * @param type
-	 * 		The type of the notification (optional).
+	 * @throws Error
+	 * 		No handler is registered for the notification, or the timeout elapsed.
 	 */
-	sendNotification( name:string, body?:any, type?:string ): Promise<void>;
+	request?<Result = any>( ...args:RequestArgs<NotificationMapType> ): Promise<Result>;
 }
\ No newline at end of file
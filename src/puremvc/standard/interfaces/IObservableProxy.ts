@@ -0,0 +1,67 @@
+import { NotificationMap } from "./INotificationMap";
+import { IProxy } from "./IProxy";
+
+/**
+ * The interface definition for a PureMVC <code>Proxy</code> broadcasting the changes of its
+ * data.
+ *
+ * Every change sends the change notification of the <code>IObservableProxy</code> with an
+ * <code>IDataChange</code> as body. When the data is an object, each changed key is also
+ * broadcast as <code>&lt;changeNotification&gt;/&lt;key&gt;</code>, so an observer can register
+ * for a single key, or for all of them with the wildcard <code>&lt;changeNotification&gt;/*</code>.
+ */
+export interface IObservableProxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends IProxy<DataType, NotificationMapType>
+{
+	/**
+	 * Get the name of the notification sent when the data changes.
+	 *
+	 * @return
+	 * 		The name of the change notification.
+	 */
+	getChangeNotification():string;
+
+	/**
+	 * Merge some keys into the object data, broadcasting the keys changed.
+	 *
+	 * @param changes
+	 * 		The keys to set and their new values.
+	 */
+	update( changes:Partial<DataType> ):Promise<void>;
+
+	/**
+	 * Apply several mutations, broadcasting a single change once they are all done.
+	 *
+	 * Batches can be nested; the change is broadcast when the outermost batch completes.
+	 *
+	 * @param mutations
+	 * 		Calls <code>setData</code> and <code>update</code> as many times as needed.
+	 */
+	batch( mutations:() => void | Promise<void> ):Promise<void>;
+}
+
+/**
+ * The body of the notifications sent by an <code>IObservableProxy</code>.
+ */
+export interface IDataChange<ValueType = unknown>
+{
+	/**
+	 * The name of the <code>IObservableProxy</code> whose data changed.
+	 */
+	proxyName:string;
+
+	/**
+	 * The value before the change.
+	 */
+	previous:ValueType;
+
+	/**
+	 * The value after the change.
+	 */
+	next:ValueType;
+
+	/**
+	 * The keys that changed, when the data is an object.
+	 */
+	keys:string[];
+}
@@ -44,6 +44,17 @@ export interface IObserver
 	 * 		The notification context (this) of the interested object.
 	 */
 	setNotifyContext( notifyContext:any ):void;
+
+	/**
+	 * Get the priority of the <code>IObserver</code>.
+	 *
+	 * Observers with a higher priority are notified first; observers with the same priority
+	 * are notified in the order in which they were registered.
+	 *
+	 * @return
+	 * 		The priority of the <code>IObserver</code>, <code>0</code> when not implemented.
+	 */
+	getPriority?():number;
 	
 	/**
 	 * Notify the interested object.
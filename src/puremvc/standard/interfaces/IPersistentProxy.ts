@@ -0,0 +1,82 @@
+import { IClock } from "./ICommandPolicy";
+import { NotificationMap } from "./INotificationMap";
+import { IProxy } from "./IProxy";
+import { IStorageAdapter } from "./IStorageAdapter";
+
+/**
+ * The interface definition for a PureMVC <code>Proxy</code> saving its data through an
+ * <code>IStorageAdapter</code>.
+ */
+export interface IPersistentProxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends IProxy<DataType, NotificationMapType>
+{
+	/**
+	 * Read the stored data, migrating it to the current version.
+	 *
+	 * Nothing changes when no data is stored yet.
+	 */
+	load():Promise<void>;
+
+	/**
+	 * Wait for the data loaded when the <code>IPersistentProxy</code> was registered.
+	 */
+	whenLoaded():Promise<void>;
+
+	/**
+	 * Store the data now, without waiting for a debounced write.
+	 */
+	save():Promise<void>;
+
+	/**
+	 * Store the data now if a debounced write is pending.
+	 */
+	flush():Promise<void>;
+
+	/**
+	 * Remove the stored data, cancelling a pending write.
+	 */
+	clear():Promise<void>;
+}
+
+/**
+ * How a <code>PersistentProxy</code> stores its data.
+ */
+export interface IPersistenceOptions
+{
+	/**
+	 * Where the data is stored.
+	 */
+	adapter:IStorageAdapter;
+
+	/**
+	 * The key of the data in the storage. Defaults to the name of the <code>Proxy</code>.
+	 */
+	key?:string;
+
+	/**
+	 * Wait for this many milliseconds without change before writing the data. Defaults to
+	 * <code>0</code>, writing on every <code>setData</code>.
+	 */
+	debounce?:number;
+
+	/**
+	 * The version of the schema of the data. Defaults to <code>0</code>.
+	 */
+	version?:number;
+
+	/**
+	 * Upgrades of stored data, by the version they upgrade to: <code>migrations[2]</code>
+	 * turns data of version 1 into data of version 2.
+	 */
+	migrations?:{ [version:number]:DataMigration };
+
+	/**
+	 * The timers debouncing the writes. Defaults to a <code>SystemClock</code>.
+	 */
+	clock?:IClock;
+}
+
+/**
+ * Upgrade stored data to the next version of its schema.
+ */
+export type DataMigration = (data:any) => any | Promise<any>;
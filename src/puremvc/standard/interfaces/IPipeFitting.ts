@@ -0,0 +1,71 @@
+import { IPipeMessage } from "./IPipeMessage";
+
+/**
+ * The interface definition for a pipe fitting.
+ *
+ * An <code>IPipeFitting</code> receives messages through <code>write</code> and passes them
+ * on to the fitting connected as its output, possibly filtering, queueing or splitting them
+ * along the way.
+ */
+export interface IPipeFitting
+{
+	/**
+	 * Connect the output of this fitting to another fitting.
+	 *
+	 * @param output
+	 * 		The fitting receiving the messages written to this one.
+	 *
+	 * @return
+	 * 		The fitting was connected; <code>false</code> if an output was already connected.
+	 */
+	connect( output:IPipeFitting ):boolean;
+
+	/**
+	 * Disconnect the output of this fitting.
+	 *
+	 * @return
+	 * 		The fitting that was connected, if any.
+	 */
+	disconnect():IPipeFitting | undefined;
+
+	/**
+	 * Write a message to this fitting.
+	 *
+	 * @param message
+	 * 		The message to pass on.
+	 *
+	 * @return
+	 * 		The message was passed on successfully.
+	 */
+	write( message:IPipeMessage ):boolean;
+}
+
+/**
+ * The interface definition for an object accepting pipes, such as the facade of a module.
+ *
+ * Connecting two modules gives the same pipe to the output of one and the input of the other.
+ */
+export interface IPipeAware
+{
+	/**
+	 * Accept a pipe to receive messages from.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 *
+	 * @param pipe
+	 * 		The pipe.
+	 */
+	acceptInputPipe( name:string, pipe:IPipeFitting ):void;
+
+	/**
+	 * Accept a pipe to send messages to.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 *
+	 * @param pipe
+	 * 		The pipe.
+	 */
+	acceptOutputPipe( name:string, pipe:IPipeFitting ):void;
+}
@@ -0,0 +1,49 @@
+/**
+ * The interface definition for a message sent through pipes.
+ *
+ * Pipes carry <code>IPipeMessage</code>s between Cores, which cannot share notifications.
+ * Besides its body, a message has a type, telling normal messages from the control messages
+ * addressed to the fittings, a priority used by sorting queues, and a header.
+ */
+export interface IPipeMessage<BodyType = unknown, HeaderType = unknown>
+{
+	/**
+	 * Get the type of the message.
+	 */
+	getType():string;
+
+	/**
+	 * Set the type of the message.
+	 */
+	setType( type:string ):void;
+
+	/**
+	 * Get the priority of the message, lower values coming first.
+	 */
+	getPriority():number;
+
+	/**
+	 * Set the priority of the message.
+	 */
+	setPriority( priority:number ):void;
+
+	/**
+	 * Get the header of the message.
+	 */
+	getHeader():HeaderType | undefined;
+
+	/**
+	 * Set the header of the message.
+	 */
+	setHeader( header:HeaderType ):void;
+
+	/**
+	 * Get the body of the message.
+	 */
+	getBody():BodyType | undefined;
+
+	/**
+	 * Set the body of the message.
+	 */
+	setBody( body:BodyType ):void;
+}
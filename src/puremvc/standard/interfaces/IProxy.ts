@@ -1,3 +1,4 @@
+import { NotificationMap } from "./INotificationMap";
 import { INotifier } from "./INotifier";
 
 /**
@@ -18,8 +19,8 @@ import { INotifier } from "./INotifier";
  * <LI>Encapsulate interaction with local or remote services used to fetch and persist model
  * data.
  */
-export interface IProxy<DataType = unknown>
-	extends INotifier
+export interface IProxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends INotifier<NotificationMapType>
 {
 	/**
 	 * Get the name of the <code>IProxy></code> instance.
@@ -48,12 +49,19 @@ export interface IProxy<DataType = unknown>
 	/**
 	 * Called by the Model when the <code>IProxy</code> is registered. This method has to be
 	 * overridden by the subclass to know when the instance is registered.
+	 *
+	 * It may return a promise, which <code>registerProxyAsync</code> waits for; when
+	 * registered with <code>registerProxy</code>, its rejection is broadcast instead.
 	 */
-	onRegister( ):void;
+	onRegister( ):void | Promise<void>;
 
 	/**
 	 * Called by the Model when the <code>IProxy</code> is removed. This method has to be
 	 * overridden by the subclass to know when the instance is removed.
+	 *
+	 * It may return a promise, which <code>removeProxyAsync</code> and <code>dispose</code>
+	 * wait for; when removed with <code>removeProxy</code>, its rejection is broadcast
+	 * instead.
 	 */
-	onRemove( ):void;
+	onRemove( ):void | Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { INotification } from "./INotification";
+
+/**
+ * A span of work done for an <code>INotification</code>: an <code>IObserver</code>
+ * notified by the <code>IView</code>, or an <code>ICommand</code> executed by the
+ * <code>IController</code>.
+ *
+ * A span is passed to <code>ISpanListener.spanStarted</code> before the work starts, then
+ * completed and passed to <code>ISpanListener.spanEnded</code>.
+ */
+export interface ISpan
+{
+	/**
+	 * What ran: the name of the <code>IMediator</code>, the class of the
+	 * <code>ICommand</code>, or the class of another observer.
+	 */
+	name:string;
+
+	/**
+	 * <code>Instrumentation.OBSERVER</code> or <code>Instrumentation.COMMAND</code>.
+	 */
+	category:string;
+
+	/**
+	 * The multiton key of the Core doing the work.
+	 */
+	multitonKey:string;
+
+	/**
+	 * The notification handled.
+	 */
+	notification:INotification;
+
+	/**
+	 * When the work started, in milliseconds from <code>performance.timeOrigin</code>.
+	 */
+	start:number;
+
+	/**
+	 * When the work ended, once it did.
+	 */
+	end?:number;
+
+	/**
+	 * How many milliseconds the work took, once it ended.
+	 */
+	duration?:number;
+
+	/**
+	 * The error thrown, if the work failed.
+	 */
+	error?:unknown;
+}
+
+/**
+ * Receives the spans of an <code>IView</code> or <code>IController</code>, such as
+ * <code>ChromeTraceExporter</code>.
+ */
+export interface ISpanListener
+{
+	/**
+	 * Called before the work of a span starts.
+	 *
+	 * @param span
+	 * 		The span started.
+	 */
+	spanStarted?( span:ISpan ):void;
+
+	/**
+	 * Called once the work of a span ended, successfully or not.
+	 *
+	 * @param span
+	 * 		The span ended, with its <code>end</code>, <code>duration</code> and
+	 * 		<code>error</code>.
+	 */
+	spanEnded?( span:ISpan ):void;
+}
@@ -0,0 +1,141 @@
+import { INotifier } from "./INotifier";
+
+/**
+ * The interface definition for a PureMVC startup manager.
+ *
+ * An <code>IStartupManager</code> initializes the resources of an application, such as the
+ * <code>Proxy</code>s loading their data, in the order of their dependencies, and
+ * broadcasts its progress through notifications.
+ */
+export interface IStartupManager
+	extends INotifier
+{
+	/**
+	 * Add a resource to initialize on <code>start</code>.
+	 *
+	 * @param resource
+	 * 		The resource to initialize.
+	 *
+	 * @throws Error
+	 * 		A resource with the same name was already added.
+	 */
+	addResource( resource:IStartupResource ):void;
+
+	/**
+	 * Check if a resource was added.
+	 *
+	 * @param resourceName
+	 * 		The name of the resource.
+	 *
+	 * @return
+	 * 		A resource with the given name was added.
+	 */
+	hasResource( resourceName:string ):boolean;
+
+	/**
+	 * Initialize every resource once its dependencies are initialized.
+	 *
+	 * @return
+	 * 		Resolves once all the resources are initialized, rejects with the error of the
+	 * 		first resource that failed.
+	 */
+	start():Promise<void>;
+
+	/**
+	 * Abort the startup, aborting the signal passed to the resources being initialized.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation, rejecting <code>start</code>.
+	 */
+	abort( reason?:any ):void;
+}
+
+/**
+ * A resource initialized by an <code>IStartupManager</code>.
+ */
+export interface IStartupResource
+{
+	/**
+	 * The name of the resource, referred to by the resources depending on it.
+	 */
+	name:string;
+
+	/**
+	 * The names of the resources to initialize before this one.
+	 */
+	dependencies?:string[];
+
+	/**
+	 * Initialize the resource.
+	 *
+	 * @param signal
+	 * 		Aborted when the attempt times out or the startup is aborted.
+	 */
+	initialize( signal:AbortSignal ):void | Promise<void>;
+
+	/**
+	 * How many times a failed initialization is retried, overriding the
+	 * <code>IStartupManager</code> option.
+	 */
+	retries?:number;
+
+	/**
+	 * How many milliseconds an initialization attempt may take, overriding the
+	 * <code>IStartupManager</code> option.
+	 */
+	timeout?:number;
+}
+
+/**
+ * How an <code>IStartupManager</code> initializes its resources.
+ */
+export interface IStartupOptions
+{
+	/**
+	 * How many resources are initialized at the same time, at least one. Defaults to no
+	 * limit.
+	 */
+	concurrency?:number;
+
+	/**
+	 * How many times a failed initialization is retried. Defaults to <code>0</code>.
+	 */
+	retries?:number;
+
+	/**
+	 * How many milliseconds to wait before retrying. Defaults to <code>0</code>.
+	 */
+	retryDelay?:number;
+
+	/**
+	 * How many milliseconds an initialization attempt may take. Defaults to <code>0</code>,
+	 * no timeout.
+	 */
+	timeout?:number;
+}
+
+/**
+ * The body of the notifications sent by an <code>IStartupManager</code>.
+ */
+export interface IStartupProgress
+{
+	/**
+	 * The resource the notification is about, if any.
+	 */
+	resourceName?:string;
+
+	/**
+	 * The number of resources initialized.
+	 */
+	loaded:number;
+
+	/**
+	 * The number of resources to initialize.
+	 */
+	total:number;
+
+	/**
+	 * The error that made a resource or the startup fail.
+	 */
+	error?:unknown;
+}
@@ -0,0 +1,40 @@
+/**
+ * The interface definition for the storage of a <code>PersistentProxy</code>.
+ *
+ * An <code>IStorageAdapter</code> saves serialized data under string keys. The framework ships
+ * <code>MemoryStorageAdapter</code>, <code>WebStorageAdapter</code> for
+ * <code>localStorage</code> and <code>sessionStorage</code>, and
+ * <code>FileStorageAdapter</code> for the Node file system.
+ */
+export interface IStorageAdapter
+{
+	/**
+	 * Read the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @return
+	 * 		The stored data, or <code>undefined</code> if nothing is stored under the key.
+	 */
+	read( key:string ):Promise<string | undefined>;
+
+	/**
+	 * Store data under a key, replacing what was stored.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @param value
+	 * 		The serialized data.
+	 */
+	write( key:string, value:string ):Promise<void>;
+
+	/**
+	 * Remove the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 */
+	remove( key:string ):Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { ICommand } from "./ICommand";
+import { INotification } from "./INotification";
+
+/**
+ * The interface definition for a PureMVC Command that can be undone and redone.
+ *
+ * An <code>IUndoableCommand</code> remembers the <code>INotification</code> it was executed
+ * with, so that the <code>ICommandHistory</code> can later revert or repeat its work.
+ */
+export interface IUndoableCommand
+	extends ICommand
+{
+	/**
+	 * Get the <code>INotification</code> this command was executed with.
+	 *
+	 * @return
+	 * 		The <code>INotification</code> passed to <code>execute</code>.
+	 */
+	getNotification():INotification | undefined;
+
+	/**
+	 * Revert the work done by <code>execute</code>.
+	 */
+	undo():Promise<void>;
+
+	/**
+	 * Repeat the work reverted by <code>undo</code>.
+	 */
+	redo():Promise<void>;
+}
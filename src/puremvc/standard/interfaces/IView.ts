@@ -1,6 +1,7 @@
 import { IMediator } from "./IMediator";
-import { INotification } from "./INotification";
+import { INotification, NotificationInterest } from "./INotification";
 import { IObserver } from "./IObserver";
+import { ISpanListener } from "./ISpan";
 
 /**
  * The interface definition for a PureMVC view.
@@ -28,37 +29,88 @@ export interface IView
 	 * 
 	 * @param notificationName
 	 * 		The name of the <code>INotifications</code> to notify this <code>IObserver</code>
-	 * 		of.
+	 * 		of, or a wildcard string or <code>RegExp</code> matching their names.
 	 *
 	 * @param observer
 	 * 		The <code>IObserver</code> to register.
 	 */
-	registerObserver( notificationName:string, observer:IObserver ):void;
+	registerObserver( notificationName:NotificationInterest, observer:IObserver ):void;
 
 	/**
 	 * Remove a list of <code>Observer</code>s for a given <code>notifyContext</code> from an
 	 * <code>Observer</code> list for a given <code>INotification</code> name.
 	 *
 	 * @param notificationName
-	 * 		Which <code>IObserver</code> list to remove from.
+	 * 		Which <code>IObserver</code> list to remove from: a notification name or the
+	 * 		pattern the <code>IObserver</code> was registered with.
 	 *
 	 * @param notifyContext
 	 * 		Remove the <code>IObserver</code> with this object as its
 	 *		<code>notifyContext</code>.
 		*/
-	removeObserver( notificationName:string, notifyContext:any ):void;
+	removeObserver( notificationName:NotificationInterest, notifyContext:any ):void;
 
 	/**
 	 * Notify the <code>IObserver</code>s for a particular <code>INotification</code>.
 	 *
 	 * All previously attached <code>IObserver</code>s for this <code>INotification</code>'s
-	 * list are notified and are passed a reference to the <code>INotification</code> in the
-	 * order in which they were registered.
+	 * list are notified and are passed a reference to the <code>INotification</code>, by
+	 * descending priority and then in the order in which they were registered.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to notify <code>IObserver</code>s of.
 	 */
-	notifyObservers( notification:INotification ):void;
+	notifyObservers( notification:INotification ):Promise<void>;
+
+	/**
+	 * Check if any <code>IObserver</code> would be notified of an <code>INotification</code>
+	 * with a given name, including the ones registered with a matching pattern.
+	 *
+	 * @param notificationName
+	 * 		The notification name to check.
+	 *
+	 * @return
+	 * 		At least one <code>IObserver</code> is interested in the name.
+	 */
+	hasObservers( notificationName:string ):boolean;
+
+	/**
+	 * Set how <code>notifyObservers</code> handles an error thrown by an
+	 * <code>IObserver</code>.
+	 *
+	 * @param policy
+	 * 		One of <code>View.ERROR_POLICY_STOP</code>, <code>View.ERROR_POLICY_COLLECT</code>
+	 * 		or <code>View.ERROR_POLICY_REPORT</code>.
+	 *
+	 * @throws Error
+	 * 		The policy is none of them.
+	 */
+	setErrorPolicy( policy:string ):void;
+
+	/**
+	 * Get how <code>notifyObservers</code> handles an error thrown by an
+	 * <code>IObserver</code>.
+	 *
+	 * @return
+	 * 		The current error policy.
+	 */
+	getErrorPolicy():string;
+
+	/**
+	 * Add a listener receiving a span for every <code>IObserver</code> notified.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	addSpanListener( listener:ISpanListener ):void;
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	removeSpanListener( listener:ISpanListener ):void;
 
 	/**
 	 * Register an <code>IMediator</code> instance with the <code>View</code>.
@@ -77,6 +129,15 @@ export interface IView
 	 */
 	registerMediator( mediator:IMediator ):void;
 
+	/**
+	 * Register an <code>IMediator</code> instance with the <code>View</code>, waiting for
+	 * its <code>onRegister</code> to complete.
+	 *
+	 * @param mediator
+	 * 		A reference to an <code>IMediator</code> implementation instance.
+	 */
+	registerMediatorAsync( mediator:IMediator ):Promise<void>;
+
 	/**
 	 * Retrieve an <code>IMediator</code> from the <code>View</code>.
 	 * 
@@ -100,6 +161,19 @@ export interface IView
 		*		strict <code>null</null> if the <code>Mediator</code> didn't exist.
 		*/
 	removeMediator<MediatorType extends IMediator = IMediator>( mediatorName:string ):MediatorType | undefined;
+
+	/**
+	 * Remove an <code>IMediator</code> from the <code>View</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param mediatorName
+	 * 		Name of the <code>IMediator</code> instance to be removed.
+	 *
+	 * @return
+	 *		The <code>IMediator</code> that was removed, or <code>undefined</code> if it
+	 *		didn't exist.
+	 */
+	removeMediatorAsync<MediatorType extends IMediator = IMediator>( mediatorName:string ):Promise<MediatorType | undefined>;
 	
 	/**
 	 * Check if a <code>IMediator</code> is registered or not.
@@ -112,5 +186,90 @@ export interface IView
 		*/
 	hasMediator( mediatorName:string ):boolean;
 
+	/**
+	 * List the names of the registered <code>IMediator</code>s.
+	 *
+	 * @return
+	 * 		The mediator names, in registration order.
+	 */
+	listMediatorNames():string[];
+
+	/**
+	 * Describe the registered <code>IMediator</code>s and their notification interests.
+	 *
+	 * @return
+	 * 		A description per mediator, in registration order.
+	 */
+	listMediators():IMediatorDescription[];
+
+	/**
+	 * Describe the <code>IObserver</code>s registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A description per interest, the exact names first, with the observers in the order
+	 * 		they are notified.
+	 */
+	listObservers():IObserverDescription[];
+
+	/**
+	 * Remove all <code>IMediator</code>s, waiting for their <code>onRemove</code> to
+	 * complete, and release this multiton instance.
+	 */
 	dispose(): Promise<void>;
+}
+
+/**
+ * The body of the <code>View.OBSERVER_ERROR</code> notification, describing an error thrown
+ * by an <code>IObserver</code> while it was notified.
+ */
+export interface IObserverError
+{
+	/**
+	 * The <code>IObserver</code> that failed, <code>undefined</code> when the error rejected
+	 * a notification its sender could not wait for, such as <code>CommandHistory.CHANGED</code>.
+	 */
+	observer?:IObserver;
+
+	/**
+	 * The <code>INotification</code> the <code>IObserver</code> was notified of.
+	 */
+	notification:INotification;
+
+	/**
+	 * The error thrown.
+	 */
+	error:unknown;
+}
+
+/**
+ * A registered <code>IMediator</code>, as listed by <code>IView.listMediators</code>.
+ */
+export interface IMediatorDescription
+{
+	/**
+	 * The name of the <code>IMediator</code>.
+	 */
+	mediatorName:string;
+
+	/**
+	 * The notification names and patterns the <code>IMediator</code> is interested in.
+	 */
+	interests:NotificationInterest[];
+}
+
+/**
+ * The <code>IObserver</code>s of a notification name or pattern, as listed by
+ * <code>IView.listObservers</code>.
+ */
+export interface IObserverDescription
+{
+	/**
+	 * The notification name or pattern.
+	 */
+	interest:NotificationInterest;
+
+	/**
+	 * The observers, in the order they are notified.
+	 */
+	observers:{ name:string, priority:number }[];
 }
\ No newline at end of file
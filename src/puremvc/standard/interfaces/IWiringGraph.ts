@@ -0,0 +1,39 @@
+/**
+ * A node of a <code>WiringGraph</code>: a notification name or pattern, an
+ * <code>IMediator</code>, or an <code>ICommand</code> class.
+ */
+export interface IWiringNode
+{
+	/**
+	 * The identifier of the node within the graph.
+	 */
+	id:string;
+
+	/**
+	 * <code>WiringGraph.NOTIFICATION</code>, <code>WiringGraph.MEDIATOR</code> or
+	 * <code>WiringGraph.COMMAND</code>.
+	 */
+	kind:string;
+
+	/**
+	 * The notification name or pattern, the mediator name, or the command class name.
+	 */
+	label:string;
+}
+
+/**
+ * An edge of a <code>WiringGraph</code>, from a notification to the mediator or command
+ * handling it, or from a <code>MacroCommand</code> to one of its subcommands.
+ */
+export interface IWiringEdge
+{
+	/**
+	 * The identifier of the source node.
+	 */
+	from:string;
+
+	/**
+	 * The identifier of the target node.
+	 */
+	to:string;
+}
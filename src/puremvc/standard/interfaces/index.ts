@@ -1,10 +1,27 @@
 export * from "./ICommand";
+export * from "./ICommandHistory";
+export * from "./ICommandInterceptor";
+export * from "./ICommandPolicy";
 export * from "./IController";
 export * from "./IFacade";
+export * from "./IFacadeHarness";
+export * from "./IFSMConfig";
+export * from "./IMacroCommandContext";
+export * from "./IMacroCommandResult";
 export * from "./IMediator";
 export * from "./IModel";
 export * from "./INotification";
+export * from "./INotificationMap";
 export * from "./INotifier";
+export * from "./IObservableProxy";
 export * from "./IObserver";
+export * from "./IPersistentProxy";
+export * from "./IPipeFitting";
+export * from "./IPipeMessage";
 export * from "./IProxy";
-export * from "./IView";
\ No newline at end of file
+export * from "./ISpan";
+export * from "./IStartupManager";
+export * from "./IStorageAdapter";
+export * from "./IUndoableCommand";
+export * from "./IView";
+export * from "./IWiringGraph";
\ No newline at end of file
@@ -0,0 +1,384 @@
+import { View } from "../../core/View";
+import { ICommandHistory, IFacade, IObserverError, IUndoableCommand } from "../../interfaces";
+import { Notification } from "../observer/Notification";
+
+/**
+ * A base <code>ICommandHistory</code> implementation.
+ *
+ * Every <code>Facade</code> owns a <code>CommandHistory</code> in which
+ * <code>UndoableCommand</code>s record themselves once executed.
+ *
+ * Whenever the history changes, a <code>CommandHistory.CHANGED</code> notification is sent
+ * through the owning <code>IFacade</code>. Its body is the <code>ICommandHistory</code> and
+ * its type tells what happened: <code>RECORD</code>, <code>UNDO</code>, <code>REDO</code> or
+ * <code>CLEAR</code>.
+ */
+export class CommandHistory
+	implements ICommandHistory
+{
+	/**
+	 * The <code>IFacade</code> used to announce history changes.
+	 *
+	 * @protected
+	 */
+	#facade:IFacade;
+
+	/**
+	 * The steps that can be undone, most recent last.
+	 *
+	 * @protected
+	 */
+	#undoStack:IUndoableCommand[][];
+
+	/**
+	 * The steps that can be redone, most recently undone last.
+	 *
+	 * @protected
+	 */
+	#redoStack:IUndoableCommand[][];
+
+	/**
+	 * The step being grouped, if any.
+	 *
+	 * @protected
+	 */
+	#group?:IUndoableCommand[];
+
+	/**
+	 * The nesting level of <code>beginGroup</code> calls.
+	 *
+	 * @protected
+	 */
+	#groupDepth:number;
+
+	/**
+	 * The maximum number of undo steps kept.
+	 *
+	 * @protected
+	 */
+	#maxDepth:number;
+
+	/**
+	 * Commands are not recorded while a step is being undone or redone.
+	 *
+	 * @protected
+	 */
+	#replaying:boolean;
+
+	/**
+	 * Constructs a <code>CommandHistory</code> instance.
+	 *
+	 * @param facade
+	 * 		The <code>IFacade</code> used to announce history changes.
+	 *
+	 * @param maxDepth
+	 * 		The maximum number of undo steps kept.
+	 */
+	constructor(facade:IFacade, maxDepth:number = Infinity)
+	{
+		this.#facade = facade;
+		this.#undoStack = [];
+		this.#redoStack = [];
+		this.#groupDepth = 0;
+		this.#maxDepth = maxDepth;
+		this.#replaying = false;
+	}
+
+	/**
+	 * Record an executed <code>IUndoableCommand</code>.
+	 *
+	 * @param command
+	 * 		The command that was executed.
+	 */
+	public record(command:IUndoableCommand):void
+	{
+		if (this.#replaying)
+			return;
+
+		if (this.#group)
+		{
+			this.#group.push(command);
+			return;
+		}
+
+		this.#push([command]);
+	}
+
+	/**
+	 * Undo the most recent step, reverting its commands in reverse order.
+	 *
+	 * If a command fails to undo, the commands of the step already undone are redone, and the
+	 * step stays on the undo stack.
+	 */
+	public async undo():Promise<void>
+	{
+		const step = this.#undoStack.pop();
+
+		if (!step)
+			return;
+
+		try
+		{
+			await this.#replay(step.slice(0).reverse(), (command) => command.undo(), (command) => command.redo());
+		}
+		catch (error)
+		{
+			this.#undoStack.push(step);
+			throw error;
+		}
+
+		this.#redoStack.push(step);
+		await this.#notifyChanged(CommandHistory.UNDO);
+	}
+
+	/**
+	 * Redo the most recently undone step, repeating its commands in order.
+	 *
+	 * If a command fails to redo, the commands of the step already redone are undone, and the
+	 * step stays on the redo stack.
+	 */
+	public async redo():Promise<void>
+	{
+		const step = this.#redoStack.pop();
+
+		if (!step)
+			return;
+
+		try
+		{
+			await this.#replay(step, (command) => command.redo(), (command) => command.undo());
+		}
+		catch (error)
+		{
+			this.#redoStack.push(step);
+			throw error;
+		}
+
+		this.#undoStack.push(step);
+		await this.#notifyChanged(CommandHistory.REDO);
+	}
+
+	/**
+	 * Check whether there is a step to undo.
+	 *
+	 * @return
+	 * 		The undo stack is not empty.
+	 */
+	public canUndo():boolean
+	{
+		return this.#undoStack.length > 0;
+	}
+
+	/**
+	 * Check whether there is a step to redo.
+	 *
+	 * @return
+	 * 		The redo stack is not empty.
+	 */
+	public canRedo():boolean
+	{
+		return this.#redoStack.length > 0;
+	}
+
+	/**
+	 * Start grouping recorded commands into a single undo step.
+	 *
+	 * Groups may be nested; only the outermost <code>endGroup</code> closes the step.
+	 */
+	public beginGroup():void
+	{
+		if (this.#groupDepth++ === 0)
+			this.#group = [];
+	}
+
+	/**
+	 * Close the group opened by the matching <code>beginGroup</code>. An empty group does not
+	 * produce a step.
+	 */
+	public endGroup():void
+	{
+		if (this.#groupDepth === 0)
+			return;
+
+		if (--this.#groupDepth > 0)
+			return;
+
+		const group = this.#group;
+		this.#group = undefined;
+
+		if (group.length > 0)
+			this.#push(group);
+	}
+
+	/**
+	 * Set the maximum number of undo steps kept.
+	 *
+	 * @param depth
+	 * 		The maximum depth, the oldest steps are dropped once it is exceeded.
+	 */
+	public setMaxDepth(depth:number):void
+	{
+		this.#maxDepth = depth;
+		this.#trim();
+	}
+
+	/**
+	 * Get the maximum number of undo steps kept.
+	 *
+	 * @return
+	 * 		The maximum depth.
+	 */
+	public getMaxDepth():number
+	{
+		return this.#maxDepth;
+	}
+
+	/**
+	 * Get the number of steps that can be undone.
+	 *
+	 * @return
+	 * 		The size of the undo stack.
+	 */
+	public getUndoCount():number
+	{
+		return this.#undoStack.length;
+	}
+
+	/**
+	 * Get the number of steps that can be redone.
+	 *
+	 * @return
+	 * 		The size of the redo stack.
+	 */
+	public getRedoCount():number
+	{
+		return this.#redoStack.length;
+	}
+
+	/**
+	 * Drop every recorded step, including a pending group.
+	 */
+	public clear():void
+	{
+		this.#undoStack = [];
+		this.#redoStack = [];
+		this.#group = undefined;
+		this.#groupDepth = 0;
+
+		this.#announce(CommandHistory.CLEAR);
+	}
+
+	/**
+	 * Push a new step on the undo stack, discarding the redo stack.
+	 */
+	#push(step:IUndoableCommand[]):void
+	{
+		this.#undoStack.push(step);
+		this.#redoStack = [];
+		this.#trim();
+
+		this.#announce(CommandHistory.RECORD);
+	}
+
+	/**
+	 * Drop the oldest undo steps exceeding the maximum depth.
+	 */
+	#trim():void
+	{
+		const excess = this.#undoStack.length - Math.max(this.#maxDepth, 0);
+
+		if (excess > 0)
+			this.#undoStack.splice(0, excess);
+	}
+
+	/**
+	 * Run an action on the commands of a step without recording them again, reverting the
+	 * commands it already ran on when it fails.
+	 */
+	async #replay(commands:IUndoableCommand[], action:(command:IUndoableCommand) => Promise<void>, revert:(command:IUndoableCommand) => Promise<void>):Promise<void>
+	{
+		const done:IUndoableCommand[] = [];
+
+		this.#replaying = true;
+
+		try
+		{
+			for (const command of commands)
+			{
+				await action(command);
+				done.push(command);
+			}
+		}
+		catch (error)
+		{
+			for (const command of done.reverse())
+				await revert(command);
+
+			throw error;
+		}
+		finally
+		{
+			this.#replaying = false;
+		}
+	}
+
+	/**
+	 * Announce a change of the history.
+	 */
+	#notifyChanged(type:string):Promise<void>
+	{
+		return this.#facade.sendNotification(CommandHistory.CHANGED, this, type);
+	}
+
+	/**
+	 * Announce a synchronous change of the history, <code>record</code> or <code>clear</code>.
+	 *
+	 * With no caller to reject, an error thrown by an observer is broadcast as a
+	 * <code>View.OBSERVER_ERROR</code> notification, whatever the error policy.
+	 */
+	#announce(type:string):void
+	{
+		const notification = new Notification(CommandHistory.CHANGED, this, type);
+
+		this.#facade.notifyObservers(notification).catch((error) =>
+		{
+			const body:IObserverError = { observer: undefined, notification, error };
+			this.#facade.notifyObservers(new Notification(View.OBSERVER_ERROR, body)).catch(() => {});
+		});
+	}
+
+	/**
+	 * Name of the notification sent whenever the history changes.
+	 *
+	 * @constant
+	 */
+	public static CHANGED:string = "commandHistoryChanged";
+
+	/**
+	 * Notification type: a step was recorded.
+	 *
+	 * @constant
+	 */
+	public static RECORD:string = "record";
+
+	/**
+	 * Notification type: a step was undone.
+	 *
+	 * @constant
+	 */
+	public static UNDO:string = "undo";
+
+	/**
+	 * Notification type: a step was redone.
+	 *
+	 * @constant
+	 */
+	public static REDO:string = "redo";
+
+	/**
+	 * Notification type: the history was cleared.
+	 *
+	 * @constant
+	 */
+	public static CLEAR:string = "clear";
+}
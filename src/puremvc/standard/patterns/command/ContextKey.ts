@@ -0,0 +1,65 @@
+import { IContextKey } from "../../interfaces";
+
+/**
+ * A base <code>IContextKey</code> implementation.
+ *
+ * Declare the keys once, next to the <i>SubCommands</i> sharing them:
+ *
+ * <pre>
+ *		export const ORDER_TOTAL = new ContextKey<number>( "orderTotal", 0 );
+ * </pre>
+ */
+export class ContextKey<Value = unknown>
+	implements IContextKey<Value>
+{
+	/**
+	 * The name of the key.
+	 *
+	 * @protected
+	 */
+	#name:string;
+
+	/**
+	 * The value read when none is stored under the key.
+	 *
+	 * @protected
+	 */
+	#defaultValue:Value;
+
+	/**
+	 * Constructs a <code>ContextKey</code> instance.
+	 *
+	 * @param name
+	 * 		The name of the key, describing it.
+	 *
+	 * @param defaultValue
+	 * 		The value read when none is stored under the key.
+	 */
+	constructor(name:string, defaultValue?:Value)
+	{
+		this.#name = name;
+		this.#defaultValue = defaultValue;
+	}
+
+	/**
+	 * Get the name of the key, describing it.
+	 *
+	 * @return
+	 * 		The name of the key.
+	 */
+	public getName():string
+	{
+		return this.#name;
+	}
+
+	/**
+	 * Get the value read when none is stored under the key.
+	 *
+	 * @return
+	 * 		The default value.
+	 */
+	public getDefaultValue():Value
+	{
+		return this.#defaultValue;
+	}
+}
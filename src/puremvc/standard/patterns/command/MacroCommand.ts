@@ -1,5 +1,7 @@
-import { CommandConstructor, ICommand, INotification, INotifier } from "../../interfaces";
+import { CommandConstructor, ICommand, IMacroCommandContext, IMacroCommandResult, INotification, INotifier, ISubCommandOutcome, NotificationMap, SubCommandCondition } from "../../interfaces";
 import { Notifier } from "../observer";
+import { MacroCommandContext } from "./MacroCommandContext";
+import { MacroCommandError } from "./MacroCommandError";
 
 /**
  * A base <code>ICommand</code> implementation that executes other <code>ICommand</code>s.
@@ -12,21 +14,72 @@ import { Notifier } from "../observer";
  * passed a reference to the original <code>INotification</code> that was passed to the
  * <code>MacroCommand</code>'s <code>execute</code> method.
  *
+ * Once the signal of the <code>INotification</code> is aborted, no further <i>SubCommand</i>
+ * is launched.
+ *
+ * A <i>SubCommand</i> may only run if a condition holds, and a branch runs either of two
+ * alternatives. A group of <i>SubCommands</i> runs in parallel, even within a sequential
+ * <code>MacroCommand</code>. Conditions are evaluated when their turn comes, so they see the
+ * changes of the previous <i>SubCommands</i>. The <i>SubCommands</i> that do not run are
+ * reported as <code>"skipped"</code>.
+ *
+ * Each execution creates an <code>IMacroCommandContext</code>, handed to the
+ * <i>SubCommands</i> and the conditions, so a <i>SubCommand</i> can store values under typed
+ * keys for the next ones. A nested <code>MacroCommand</code> shares the context of its
+ * parent. Override <code>deriveResult</code> to derive the value of the result from the
+ * context.
+ *
+ * The failure policy decides what a failing <i>SubCommand</i> does:
+ * <UL>
+ * <LI><code>FAIL_FAST</code>, the default of sequential execution: no further
+ * <i>SubCommand</i> is launched, and <code>execute</code> rejects as soon as one fails.
+ * <LI><code>COLLECT_ALL</code>: every <i>SubCommand</i> runs, then <code>execute</code>
+ * rejects if any failed.
+ * <LI><code>CONTINUE_ON_ERROR</code>, the default of parallel execution: every
+ * <i>SubCommand</i> runs, and <code>execute</code> resolves anyway.
+ * </UL>
+ *
+ * <code>execute</code> resolves with an <code>IMacroCommandResult</code> listing the outcome of
+ * each <i>SubCommand</i>, which replies to the notification, so <code>request</code> resolves
+ * with it. It rejects with a <code>MacroCommandError</code> holding the same result, which
+ * rejects <code>sendNotification</code>.
+ *
  * Unlike <code>SimpleCommand</code>, your subclass should not override <code>execute</code>,
  * but instead, should override the <code>initializeMacroCommand</code> method, calling
  * <code>addSubCommand</code> once for each <i>SubCommand</i> to be executed.
  */
-export class MacroCommand
-	extends Notifier
-	implements ICommand, INotifier
+export class MacroCommand<NotificationMapType extends object = NotificationMap>
+	extends Notifier<NotificationMapType>
+	implements ICommand, INotifier<NotificationMapType>
 {
 	/**
-	 * An array of <code>ICommand</code>s.
+	 * An array of steps, each running one or more <code>ICommand</code>s.
 	 *
 	 * @protected
 	 */
-	#subCommands:CommandConstructor[];
+	#subCommands:SubCommandStep[];
 	#sequentialExecution: boolean;
+
+	/**
+	 * What a failing <i>SubCommand</i> does.
+	 *
+	 * @protected
+	 */
+	#failurePolicy:string;
+
+	/**
+	 * The context handed by the <code>MacroCommand</code> running this one, if any.
+	 *
+	 * @protected
+	 */
+	#context?:IMacroCommandContext;
+
+	/**
+	 * The signal aborting the execution of this command and of its <i>SubCommands</i>.
+	 *
+	 * @protected
+	 */
+	#signal?:AbortSignal;
 	
 	/**
 	 * Constructs a <code>MacroCommand</code> instance.
@@ -35,13 +88,25 @@ export class MacroCommand
 	 * <code>initializeMacroCommand</code> method.
 	 *
 	 * If your subclass does define a constructor, be  sure to call <code>super()</code>.
+	 *
+	 * @param sequentialExecution
+	 * 		Each <i>SubCommand</i> waits for the previous one.
+	 *
+	 * @param failurePolicy
+	 * 		<code>FAIL_FAST</code>, <code>COLLECT_ALL</code> or <code>CONTINUE_ON_ERROR</code>;
+	 * 		defaults to <code>FAIL_FAST</code> for sequential execution, and to
+	 * 		<code>CONTINUE_ON_ERROR</code> otherwise.
+	 *
+	 * @throws Error
+	 * 		Throws an error if the failure policy is unknown.
 	 */
-	constructor(sequentialExeuction: boolean = false)
+	constructor(sequentialExecution: boolean = false, failurePolicy?:string)
 	{
 		super();
 
 		this.#subCommands = [];
-		this.#sequentialExecution = sequentialExeuction;
+		this.#sequentialExecution = sequentialExecution;
+		this.setFailurePolicy(failurePolicy ?? (sequentialExecution ? MacroCommand.FAIL_FAST : MacroCommand.CONTINUE_ON_ERROR));
 		this.initializeMacroCommand();
 	}
 
@@ -63,6 +128,18 @@ export class MacroCommand
 		* 
 		* Note that <i>subCommand</i>s may be any <code>ICommand</code> implementor so
 		* <code>MacroCommand</code>s or <code>SimpleCommand</code>s are both acceptable.
+		*
+		* Conditions, branches and parallel groups express a workflow declaratively:
+		*
+		* <pre>
+		*		initializeMacroCommand():void
+		*		{
+		*			this.addSubCommand( ValidateCommand );
+		*			this.addSubCommand( AuditCommand, ( note ) => note.getBody().audited );
+		*			this.addSubCommandBranch( ( note ) => note.getBody().isNew, CreateCommand, UpdateCommand );
+		*			this.addSubCommandGroup([ RefreshListCommand, RefreshDetailsCommand ]);
+		*		}
+		* </pre>
 		*/
 	public initializeMacroCommand():void
 	{
@@ -76,10 +153,128 @@ export class MacroCommand
 	 * 
 	 * @param commandClassRef
 	 *		A reference to the constructor of the <code>ICommand</code>.
+		*
+		* @param condition
+		*		Optionally, runs the <code>ICommand</code> only if it returns <code>true</code>.
 		*/
-	protected addSubCommand(commandClass: CommandConstructor):void
+	protected addSubCommand(commandClass: CommandConstructor, condition?:SubCommandCondition):void
+	{
+		this.#subCommands.push({ commands: [ commandClass ], alternative: [], condition });
+	}
+
+	/**
+	 * Add a branch to the <i>subCommands</i> list, running either of two alternatives.
+	 *
+	 * An array of <code>ICommand</code> constructors runs in parallel.
+	 *
+	 * @param condition
+	 *		Chooses the <code>ICommand</code>s to run.
+	 *
+	 * @param commandClass
+	 *		What runs if the condition returns <code>true</code>.
+	 *
+	 * @param alternativeClass
+	 *		Optionally, what runs otherwise.
+	 */
+	protected addSubCommandBranch(condition:SubCommandCondition, commandClass:CommandConstructor | CommandConstructor[], alternativeClass:CommandConstructor | CommandConstructor[] = []):void
+	{
+		this.#subCommands.push({ commands: [ commandClass ].flat(), alternative: [ alternativeClass ].flat(), condition });
+	}
+
+	/**
+	 * Add a group of <i>subCommands</i> running in parallel, the next entries waiting for the
+	 * whole group when the execution is sequential.
+	 *
+	 * @param commandClasses
+	 *		References to the constructors of the <code>ICommand</code>s.
+	 *
+	 * @param condition
+	 *		Optionally, runs the group only if it returns <code>true</code>.
+	 */
+	protected addSubCommandGroup(commandClasses:CommandConstructor[], condition?:SubCommandCondition):void
+	{
+		this.#subCommands.push({ commands: commandClasses.slice(0), alternative: [], condition });
+	}
+
+	/**
+	 * Called by a parent <code>MacroCommand</code> before <code>execute</code>, sharing its
+	 * context with the <i>SubCommands</i> of this one.
+	 *
+	 * @param context
+	 * 		The context of the execution of the parent <code>MacroCommand</code>.
+	 */
+	public initializeContext(context:IMacroCommandContext):void
+	{
+		this.#context = context;
+	}
+
+	/**
+	 * Called before <code>execute</code>, with the signal aborting the execution, handed to
+	 * the <i>SubCommands</i> and skipping those not yet run once aborted.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> of the execution.
+	 */
+	public initializeSignal(signal:AbortSignal):void
+	{
+		this.#signal = signal;
+	}
+
+	/**
+	 * Derive the value of the result from the context, once the <i>SubCommands</i> ran.
+	 *
+	 * Override this method to reply to a <code>request</code> with a value computed by the
+	 * <i>SubCommands</i>, as the <code>value</code> of the <code>IMacroCommandResult</code>.
+	 *
+	 * @param context
+	 * 		The values shared by the <i>SubCommands</i>.
+	 *
+	 * @return
+	 * 		The value of the result, <code>undefined</code> by default.
+	 */
+	protected deriveResult(context:IMacroCommandContext):any
+	{
+		return undefined;
+	}
+
+	/**
+	 * Set what a failing <i>SubCommand</i> does.
+	 *
+	 * @param policy
+	 * 		<code>FAIL_FAST</code>, <code>COLLECT_ALL</code> or <code>CONTINUE_ON_ERROR</code>.
+	 *
+	 * @throws Error
+	 * 		Throws an error if the policy is unknown.
+	 */
+	public setFailurePolicy(policy:string):void
+	{
+		if (![ MacroCommand.FAIL_FAST, MacroCommand.COLLECT_ALL, MacroCommand.CONTINUE_ON_ERROR ].includes(policy))
+			throw Error(MacroCommand.FAILURE_POLICY_MSG + policy);
+
+		this.#failurePolicy = policy;
+	}
+
+	/**
+	 * Get what a failing <i>SubCommand</i> does.
+	 *
+	 * @return
+	 * 		The failure policy.
+	 */
+	public getFailurePolicy():string
 	{
-		this.#subCommands.push(commandClass);
+		return this.#failurePolicy;
+	}
+
+	/**
+	 * Get the <i>subCommands</i> list.
+	 *
+	 * @return
+	 * 		The <code>ICommand</code> constructors, in the order they are added, including
+	 * 		those of the conditions and branches which may not run.
+	 */
+	public getSubCommands():CommandConstructor[]
+	{
+		return this.#subCommands.flatMap(({ commands, alternative }) => [ ...commands, ...alternative ]);
 	}
 
 	/** 
@@ -92,29 +287,161 @@ export class MacroCommand
 	 *		The <code>INotification</code> object to be passed to each <i>SubCommand</i> of
 		*		the list.
 		*
+		* @return
+		*		The outcome of each <i>SubCommand</i>.
+		*
+		* @throws MacroCommandError
+		*		A <i>SubCommand</i> failed, and the failure policy is not
+		*		<code>CONTINUE_ON_ERROR</code>.
+		*
 		* @final
 		*/
-	public async execute( notification:INotification ): Promise<void>
+	public async execute( notification:INotification ): Promise<IMacroCommandResult>
 	{
-		const subCommands = this.#subCommands.slice(0);
+		const policy = this.#failurePolicy;
+		const context = this.#context ?? new MacroCommandContext();
+		const signal = this.#signal ?? notification.getSignal?.();
+		const steps = this.#subCommands.map((step) => ({
+			step,
+			outcomes: [ ...step.commands, ...step.alternative ].map((commandClass):ISubCommandOutcome => ({ commandClass, status: "pending" }))
+		}));
+		const result:IMacroCommandResult = {
+			outcomes: steps.flatMap(({ outcomes }) => outcomes),
+			failed: false
+		};
 
-		if (!this.#sequentialExecution)
+		const run = async (outcome:ISubCommandOutcome):Promise<void> =>
 		{
-			await Promise.allSettled(this.#subCommands.map((commandClass) =>
+			const commandInstance:ICommand = new outcome.commandClass();
+			commandInstance.initializeNotifier(this.multitonKey);
+			commandInstance.initializeContext?.(context);
+			commandInstance.initializeSignal?.(signal);
+
+			try
+			{
+				const value = await commandInstance.execute(notification);
+
+				outcome.status = "fulfilled";
+
+				if (value !== undefined)
+					outcome.value = value;
+			}
+			catch (error)
+			{
+				outcome.status = "rejected";
+				outcome.error = error;
+				result.failed = true;
+
+				throw error;
+			}
+		};
+
+		const runStep = async ({ step, outcomes }:typeof steps[number]):Promise<void> =>
+		{
+			let matched:boolean;
+
+			try
+			{
+				matched = step.condition ? await step.condition(notification, context) : true;
+			}
+			catch (error)
+			{
+				outcomes.forEach((outcome) => Object.assign(outcome, { status: "rejected", error }));
+				result.failed = true;
+
+				throw error;
+			}
+
+			const chosen = matched ? outcomes.slice(0, step.commands.length) : outcomes.slice(step.commands.length);
+			outcomes.filter((outcome) => !chosen.includes(outcome)).forEach((outcome) => outcome.status = "skipped");
+
+			if (policy === MacroCommand.FAIL_FAST)
 			{
-				const commandInstance:ICommand = new commandClass();
-				return commandInstance.execute(notification);
-			}));
+				await Promise.all(chosen.map(run));
+				return;
+			}
+
+			const rejected = (await Promise.allSettled(chosen.map(run))).find((settled) => settled.status === "rejected");
+
+			if (rejected)
+				throw (rejected as PromiseRejectedResult).reason;
+		};
+
+		if (!this.#sequentialExecution)
+		{
+			if (signal?.aborted)
+				result.outcomes.forEach((outcome) => outcome.status = "skipped");
+			else if (policy === MacroCommand.FAIL_FAST)
+				await Promise.all(steps.map(runStep)).catch(() => {});
+			else
+				await Promise.allSettled(steps.map(runStep));
 		}
 		else
 		{
-			for (let i = 0; i < subCommands.length; i++)
+			for (const entry of steps)
 			{
-				const commandClass = subCommands[i];
-				const commandInstance:ICommand = new commandClass();
-
-				await commandInstance.execute(notification);
+				if (signal?.aborted || (result.failed && policy === MacroCommand.FAIL_FAST))
+					entry.outcomes.forEach((outcome) => outcome.status = "skipped");
+				else
+					await runStep(entry).catch(() => {});
 			}
 		}
+
+		if (result.failed && policy !== MacroCommand.CONTINUE_ON_ERROR)
+			throw new MacroCommandError(result, MacroCommand.FAILED_MSG + this.constructor.name);
+
+		const value = this.deriveResult(context);
+
+		if (value !== undefined)
+			result.value = value;
+
+		return result;
 	}
-}
\ No newline at end of file
+
+	/**
+	 * Stop at the first failing <i>SubCommand</i>, and reject.
+	 *
+	 * @constant
+	 */
+	public static FAIL_FAST:string = "failFast";
+
+	/**
+	 * Run every <i>SubCommand</i>, then reject if any failed.
+	 *
+	 * @constant
+	 */
+	public static COLLECT_ALL:string = "collectAll";
+
+	/**
+	 * Run every <i>SubCommand</i>, and resolve even if some failed.
+	 *
+	 * @constant
+	 */
+	public static CONTINUE_ON_ERROR:string = "continueOnError";
+
+	/**
+	 * Message of the error rejecting a <code>MacroCommand</code> whose <i>SubCommands</i>
+	 * failed.
+	 *
+	 * @constant
+	 */
+	public static FAILED_MSG:string = "SubCommands failed in: ";
+
+	/**
+	 * Message of the error thrown when setting an unknown failure policy.
+	 *
+	 * @constant
+	 */
+	public static FAILURE_POLICY_MSG:string = "Unknown failure policy: ";
+}
+
+/**
+ * An entry of the <i>subCommands</i> list: the <code>ICommand</code>s running in parallel when
+ * the condition holds, otherwise the alternative ones.
+ */
+interface SubCommandStep
+{
+	commands:CommandConstructor[];
+	alternative:CommandConstructor[];
+	condition?:SubCommandCondition;
+}
@@ -0,0 +1,74 @@
+import { IContextKey, IMacroCommandContext } from "../../interfaces";
+
+/**
+ * A base <code>IMacroCommandContext</code> implementation.
+ *
+ * A <code>MacroCommand</code> creates one for each execution, and hands it to its
+ * <i>SubCommands</i> through <code>initializeContext</code>.
+ */
+export class MacroCommandContext
+	implements IMacroCommandContext
+{
+	/**
+	 * The stored values, by key.
+	 *
+	 * @protected
+	 */
+	#values:Map<IContextKey<unknown>, unknown> = new Map();
+
+	/**
+	 * Get the value stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		The value, or the default value of the key when none is stored.
+	 */
+	public get<Value>(key:IContextKey<Value>):Value
+	{
+		return this.#values.has(key) ? this.#values.get(key) as Value : key.getDefaultValue();
+	}
+
+	/**
+	 * Store a value under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @param value
+	 * 		The value to store.
+	 */
+	public set<Value>(key:IContextKey<Value>, value:Value):void
+	{
+		this.#values.set(key, value);
+	}
+
+	/**
+	 * Check if a value is stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		A value is stored under the key.
+	 */
+	public has(key:IContextKey<unknown>):boolean
+	{
+		return this.#values.has(key);
+	}
+
+	/**
+	 * Remove the value stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the value.
+	 *
+	 * @return
+	 * 		A value was stored under the key.
+	 */
+	public delete(key:IContextKey<unknown>):boolean
+	{
+		return this.#values.delete(key);
+	}
+}
@@ -0,0 +1,44 @@
+import { IMacroCommandResult } from "../../interfaces";
+
+/**
+ * The error rejecting a <code>MacroCommand</code> whose <i>SubCommands</i> failed, holding
+ * their errors and the outcome of every <i>SubCommand</i>.
+ */
+export class MacroCommandError
+	extends AggregateError
+{
+	/**
+	 * The result of the execution.
+	 *
+	 * @protected
+	 */
+	#result:IMacroCommandResult;
+
+	/**
+	 * Constructs a <code>MacroCommandError</code> instance.
+	 *
+	 * @param result
+	 * 		The result of the execution.
+	 *
+	 * @param message
+	 * 		The message of the error.
+	 */
+	constructor(result:IMacroCommandResult, message:string)
+	{
+		super(result.outcomes.filter(({ status }) => status === "rejected").map(({ error }) => error), message);
+
+		this.name = "MacroCommandError";
+		this.#result = result;
+	}
+
+	/**
+	 * Get the result of the execution.
+	 *
+	 * @return
+	 * 		The outcome of every <i>SubCommand</i>.
+	 */
+	public getResult():IMacroCommandResult
+	{
+		return this.#result;
+	}
+}
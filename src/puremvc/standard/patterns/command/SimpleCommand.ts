@@ -1,4 +1,4 @@
-import { ICommand, INotification, INotifier } from "../../interfaces";
+import { ICommand, IMacroCommandContext, INotifier, NotificationMap, NotificationName, TypedNotification } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -6,11 +6,32 @@ import { Notifier } from "../observer";
  * 
  * Your subclass should override the <code>execute</code> method where your business logic will
  * handle the <code>INotification</code>.
+ *
+ * The <code>NotificationMapType</code> parameter is the <code>NotificationMap</code> used to
+ * type-check the notifications sent, and <code>Name</code> narrows the notification(s) the
+ * command handles.
+ *
+ * As a <i>SubCommand</i> of a <code>MacroCommand</code>, read and write the values shared with
+ * the other <i>SubCommands</i> through <code>getContext</code>.
  */
-export class SimpleCommand
-	extends Notifier
-	implements ICommand, INotifier
+export class SimpleCommand<NotificationMapType extends object = NotificationMap, Name extends NotificationName<NotificationMapType> = NotificationName<NotificationMapType>>
+	extends Notifier<NotificationMapType>
+	implements ICommand, INotifier<NotificationMapType>
 {
+	/**
+	 * The context of the execution of the <code>MacroCommand</code> running this command.
+	 *
+	 * @protected
+	 */
+	#context?:IMacroCommandContext;
+
+	/**
+	 * The signal aborting the execution of this command.
+	 *
+	 * @protected
+	 */
+	#signal?:AbortSignal;
+
 	/**
 	 * Fulfill the use-case initiated by the given <code>INotification</code>.
 	 * 
@@ -18,11 +39,69 @@ export class SimpleCommand
 	 * which results in an <code>INotification</code> being broadcast, which is handled by
 	 * business logic in the <code>execute</code> method of an <code>ICommand</code>.
 	 * 
+	 * Return a value to reply to a notification sent with <code>request</code>.
+	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @return
+	 * 		Optionally, the reply to the <code>INotification</code>.
 	 */
-	public async execute(notification:INotification): Promise<void>
+	public async execute(notification:TypedNotification<NotificationMapType, Name>): Promise<any>
 	{
 
 	}
+
+	/**
+	 * Called by a <code>MacroCommand</code> before <code>execute</code>, with the values
+	 * shared by its <i>SubCommands</i>.
+	 *
+	 * @param context
+	 * 		The context of the execution of the <code>MacroCommand</code>.
+	 */
+	public initializeContext(context:IMacroCommandContext):void
+	{
+		this.#context = context;
+	}
+
+	/**
+	 * Get the values shared by the <i>SubCommands</i> of the <code>MacroCommand</code>
+	 * running this command.
+	 *
+	 * @return
+	 * 		The context of the execution, or <code>undefined</code> when the command is not
+	 * 		run by a <code>MacroCommand</code>.
+	 */
+	public getContext():IMacroCommandContext
+	{
+		return this.#context;
+	}
+
+	/**
+	 * Called before <code>execute</code>, with the signal aborting the execution.
+	 *
+	 * @param signal
+	 * 		The <code>AbortSignal</code> of the execution.
+	 */
+	public initializeSignal(signal:AbortSignal):void
+	{
+		this.#signal = signal;
+	}
+
+	/**
+	 * Get the signal aborting the execution of this command, once the
+	 * <code>INotification</code> is aborted or, under an <code>ICommandPolicy</code>, once
+	 * the attempt times out.
+	 *
+	 * Stop the work of a timed out attempt when it aborts, so that it does not overlap
+	 * with the next one.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code> of the execution, or <code>undefined</code> when the
+	 * 		command is not run by a <code>Controller</code> or a <code>MacroCommand</code>.
+	 */
+	public getSignal():AbortSignal
+	{
+		return this.#signal;
+	}
 }
\ No newline at end of file
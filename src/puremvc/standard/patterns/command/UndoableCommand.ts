@@ -0,0 +1,107 @@
+import { IUndoableCommand, NotificationMap, NotificationName, TypedNotification } from "../../interfaces";
+import { SimpleCommand } from "./SimpleCommand";
+
+/**
+ * A base <code>IUndoableCommand</code> implementation.
+ *
+ * When executed, an <code>UndoableCommand</code> keeps a reference to its
+ * <code>INotification</code>, performs its work and records itself in the
+ * <code>ICommandHistory</code> of its <code>Facade</code>.
+ *
+ * Unlike <code>SimpleCommand</code>, your subclass should not override <code>execute</code>,
+ * but instead, should override <code>executeCommand</code> with the work to do and
+ * <code>undoCommand</code> with the work that reverts it. By default, <code>redo</code> calls
+ * <code>executeCommand</code> again with the original <code>INotification</code>.
+ *
+ * Sending the notification with the <code>UndoableCommand.NON_RECORDABLE</code> type executes
+ * the command without recording it.
+ */
+export class UndoableCommand<NotificationMapType extends object = NotificationMap, Name extends NotificationName<NotificationMapType> = NotificationName<NotificationMapType>>
+	extends SimpleCommand<NotificationMapType, Name>
+	implements IUndoableCommand
+{
+	/**
+	 * The <code>INotification</code> this command was executed with.
+	 *
+	 * @protected
+	 */
+	#notification?:TypedNotification<NotificationMapType, Name>;
+
+	/**
+	 * Execute the command and record it in the <code>ICommandHistory</code>.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to handle.
+	 *
+	 * @final
+	 */
+	public override async execute(notification:TypedNotification<NotificationMapType, Name>): Promise<void>
+	{
+		this.#notification = notification;
+
+		await this.executeCommand(notification);
+
+		if (notification.getType() !== UndoableCommand.NON_RECORDABLE)
+			this.facade.getCommandHistory().record(this);
+	}
+
+	/**
+	 * Get the <code>INotification</code> this command was executed with.
+	 *
+	 * @return
+	 * 		The <code>INotification</code> passed to <code>execute</code>.
+	 */
+	public getNotification():TypedNotification<NotificationMapType, Name> | undefined
+	{
+		return this.#notification;
+	}
+
+	/**
+	 * Revert the work done by <code>executeCommand</code>.
+	 */
+	public async undo(): Promise<void>
+	{
+		await this.undoCommand(this.#notification);
+	}
+
+	/**
+	 * Repeat the work reverted by <code>undo</code>.
+	 */
+	public async redo(): Promise<void>
+	{
+		await this.executeCommand(this.#notification);
+	}
+
+	/**
+	 * Perform the work of the command.
+	 *
+	 * Override this method in your subclass.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> the command was executed with.
+	 */
+	protected async executeCommand(notification:TypedNotification<NotificationMapType, Name>): Promise<void>
+	{
+
+	}
+
+	/**
+	 * Revert the work of the command.
+	 *
+	 * Override this method in your subclass.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> the command was executed with.
+	 */
+	protected async undoCommand(notification:TypedNotification<NotificationMapType, Name>): Promise<void>
+	{
+
+	}
+
+	/**
+	 * Notification type that prevents the command from being recorded.
+	 *
+	 * @constant
+	 */
+	public static NON_RECORDABLE:string = "nonRecordable";
+}
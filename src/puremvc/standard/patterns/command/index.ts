@@ -1,2 +1,7 @@
+export * from "./CommandHistory";
+export * from "./ContextKey";
 export * from "./MacroCommand";
-export * from "./SimpleCommand";
\ No newline at end of file
+export * from "./MacroCommandContext";
+export * from "./MacroCommandError";
+export * from "./SimpleCommand";
+export * from "./UndoableCommand";
\ No newline at end of file
@@ -2,74 +2,99 @@
 
 import { Controller } from "../../core/Controller";
 import { Model } from "../../core/Model";
+import { Multiton } from "../../core/Multiton";
 import { View } from "../../core/View";
-import { CommandConstructor, IController, IFacade, IMediator, IModel, INotification, IProxy, IView } from "../../interfaces";
+import { CommandConstructor, IClock, ICommandHistory, ICommandInterceptor, ICommandMapping, ICommandPolicy, IController, IFacade, IMediator, IMediatorDescription, IModel, INotification, IObserverDescription, IProxy, ISpanListener, IView, ModelSnapshot, NotificationArgs, NotificationInterest, NotificationMap, RequestArgs } from "../../interfaces";
+import { CommandHistory } from "../command/CommandHistory";
 import { Notification } from "../observer/Notification";
 
 /**
- * A base singleton <code>IFacade</code> implementation.
+ * A base multiton <code>IFacade</code> implementation.
  * 
  * In PureMVC, the <code>Facade</code> class assumes these responsibilities:
  *
  * <UL>
  * <LI>Initializing the <code>Model</code>, <code>View</code> and <code>Controller</code>
- * singletons.
+ * multitons.
  * <LI>Providing all the methods defined by the <code>IModel</code>, <code>IView</code>, &
  * <code>IController</code> interfaces.
  * <LI>Providing the ability to override the specific <code>Model</code>, <code>View</code> and
- * <code>Controller</code> singletons created.
+ * <code>Controller</code> multitons created.
  * <LI>Providing a single point of contact to the application for registering
  * <code>Commands</code> and notifying <code>Observer</code>s.
  *
- * This <code>Facade</code> implementation is a singleton and cannot be instantiated directly,
- * but instead calls the static singleton factory method <code>Facade.getInstance()</code>.
+ * This <code>Facade</code> implementation is a multiton and cannot be instantiated directly,
+ * but instead calls the static multiton factory method <code>Facade.getInstance( key )</code>.
+ * Each key identifies an isolated Core with its own <code>Model</code>, <code>View</code> and
+ * <code>Controller</code>; omitting the key uses the default Core.
+ *
+ * The <code>NotificationMapType</code> parameter is the <code>NotificationMap</code> used to
+ * type-check the names and bodies of the notifications sent.
  */
-export class Facade
-	implements IFacade
+export class Facade<NotificationMapType extends object = NotificationMap>
+	implements IFacade<NotificationMapType>
 {
 	/**
-	 * Local reference to the <code>Model</code> singleton.
+	 * Local reference to the <code>Model</code> multiton.
 	 *
 	 * @protected
 	 */
 	#model:IModel;
 
 	/**
-	 * Local reference to the <code>View</code> singleton.
+	 * Local reference to the <code>View</code> multiton.
 	 *
 	 * @protected
 	 */
 	#view:IView;
 			
 	/**
-	 * Local reference to the <code>Controller</code> singleton.
+	 * Local reference to the <code>Controller</code> multiton.
 	 *
 	 * @protected
 	 */
 	#controller:IController;
 
 	/**
-	 * Constructs a <code>Controller</code> instance.
+	 * The history of the <code>UndoableCommand</code>s executed in this Core.
+	 *
+	 * @protected
+	 */
+	#commandHistory:ICommandHistory;
+
+	/**
+	 * The multiton key for this Core.
+	 *
+	 * @protected
+	 */
+	#multitonKey:string;
+
+	/**
+	 * Constructs a <code>Facade</code> instance.
 	 *
-	 * This <code>IFacade</code> implementation is a singleton, so you should not call the
-	 * constructor directly, but instead call the static singleton Factory method
-	 * <code>Facade.getInstance()</code>.
+	 * This <code>IFacade</code> implementation is a multiton, so you should not call the
+	 * constructor directly, but instead call the static multiton Factory method
+	 * <code>Facade.getInstance( key )</code>.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core.
 	 * 
 	 * @throws Error
-	 *		Throws an error if an instance of this singleton has already been constructed.
+	 *		Throws an error if an instance for this multiton key has already been constructed.
 		*/
-	constructor()
+	constructor(key:string = Multiton.DEFAULT_KEY)
 	{
-		if (Facade.instance)
-			throw Error( Facade.SINGLETON_MSG );
+		if (Facade.instanceMap.has(key))
+			throw Error( Facade.MULTITON_MSG );
 
-		Facade.instance = this;
+		this.initializeNotifier(key);
+		Facade.instanceMap.set(key, this);
 		this.initializeFacade();
 	}
 
 	/**
 	 * Called automatically by the constructor.
-	 * Initialize the singleton <code>Facade</code> instance.
+	 * Initialize the multiton <code>Facade</code> instance.
 	 *
 	 * Override in your subclass to do any subclass specific initializations. Be sure to
 	 * extend the <code>Facade</code> with the methods and properties on your implementation
@@ -110,7 +135,7 @@ export class Facade
 	protected initializeModel():void
 	{
 		if (!this.#model)
-			this.#model = Model.getInstance();
+			this.#model = Model.getInstance(this.#multitonKey);
 	}
 
 	/**
@@ -133,7 +158,7 @@ export class Facade
 	protected initializeController():void
 	{
 		if (!this.#controller)
-			this.#controller = Controller.getInstance();
+			this.#controller = Controller.getInstance(this.#multitonKey);
 	}
 
 	/**
@@ -160,7 +185,7 @@ export class Facade
 	protected initializeView():void
 	{
 		if (!this.#view)
-			this.#view = View.getInstance();
+			this.#view = View.getInstance(this.#multitonKey);
 	}
 
 	/**
@@ -169,14 +194,20 @@ export class Facade
 	 * 
 	 * @param notificationName
 	 *		The name of the <code>INotification</code> to associate the <code>ICommand</code>
-	 *		with.
+	 *		with, or a wildcard string or <code>RegExp</code> matching names.
 	
 	 * @param commandClassRef
 	 * 		A reference to the constructor of the <code>ICommand</code>.
+	 *
+	 * @param priority
+	 * 		The priority of the command relative to other observers of the notification.
+	 *
+	 * @param policy
+	 * 		Optionally, the retries and timeout applied when executing the command.
 	 */
-	public registerCommand( notificationName:string, commandClass:CommandConstructor ):void
+	public registerCommand( notificationName:NotificationInterest, commandClass:CommandConstructor, priority:number = 0, policy?:ICommandPolicy ):void
 	{
-		this.#controller.registerCommand( notificationName, commandClass);
+		this.#controller.registerCommand( notificationName, commandClass, priority, policy );
 	}
 
 	/**
@@ -187,7 +218,7 @@ export class Facade
 	 *		The name of the <code>INotification</code> to remove the <code>ICommand</code>
 	 *		mapping for.
 	 */
-	public removeCommand(notificationName:string):void
+	public removeCommand(notificationName:NotificationInterest):void
 	{
 		this.#controller.removeCommand( notificationName );
 	}
@@ -203,11 +234,99 @@ export class Facade
 	 * 		A <code>Command</code> is currently registered for the given
 	 *		<code>notificationName</code>.
 	 */
-	public hasCommand( notificationName:string ): boolean
+	public hasCommand( notificationName:NotificationInterest ): boolean
 	{
 		return this.#controller.hasCommand(notificationName);
 	}
 
+	/**
+	 * List the <code>ICommand</code> classes registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A mapping per interest, in registration order.
+	 */
+	public listCommands():ICommandMapping[]
+	{
+		return this.#controller.listCommands();
+	}
+
+	/**
+	 * Append an <code>ICommandInterceptor</code> to the chain the <code>Controller</code>
+	 * runs around every command.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to add.
+	 */
+	public addCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		this.#controller.addCommandInterceptor( interceptor );
+	}
+
+	/**
+	 * Remove a previously added <code>ICommandInterceptor</code> from the
+	 * <code>Controller</code>.
+	 *
+	 * @param interceptor
+	 * 		The <code>ICommandInterceptor</code> to remove.
+	 */
+	public removeCommandInterceptor( interceptor:ICommandInterceptor ):void
+	{
+		this.#controller.removeCommandInterceptor( interceptor );
+	}
+
+	/**
+	 * Set the timers the <code>Controller</code> uses to apply the
+	 * <code>ICommandPolicy</code>s.
+	 *
+	 * @param clock
+	 * 		The <code>IClock</code>, such as a fake one in tests.
+	 */
+	public setCommandClock( clock:IClock ):void
+	{
+		this.#controller.setClock( clock );
+	}
+
+	/**
+	 * Add a listener receiving a span for every <code>IObserver</code> notified and every
+	 * <code>ICommand</code> executed in this Core.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to add.
+	 */
+	public addSpanListener( listener:ISpanListener ):void
+	{
+		this.#view.addSpanListener( listener );
+		this.#controller.addSpanListener( listener );
+	}
+
+	/**
+	 * Remove a previously added <code>ISpanListener</code>.
+	 *
+	 * @param listener
+	 * 		The <code>ISpanListener</code> to remove.
+	 */
+	public removeSpanListener( listener:ISpanListener ):void
+	{
+		this.#view.removeSpanListener( listener );
+		this.#controller.removeSpanListener( listener );
+	}
+
+	/**
+	 * Get the <code>ICommandHistory</code> of this Core.
+	 *
+	 * <code>UndoableCommand</code>s record themselves in it once executed.
+	 *
+	 * @return
+	 * 		The <code>ICommandHistory</code> of this Core.
+	 */
+	public getCommandHistory():ICommandHistory
+	{
+		if (!this.#commandHistory)
+			this.#commandHistory = new CommandHistory(this);
+
+		return this.#commandHistory;
+	}
+
 	/**
 	 * Register an <code>IProxy</code> with the <code>Model</code> by name.
 	 *
@@ -218,6 +337,18 @@ export class Facade
 	{
 		this.#model.registerProxy( proxy );
 	}
+
+	/**
+	 * Register an <code>IProxy</code> with the <code>Model</code> by name, waiting for its
+	 * <code>onRegister</code> to complete.
+	 *
+	 * @param proxy
+	 *		The <code>IProxy</code> to be registered with the <code>Model</code>.
+	 */
+	public async registerProxyAsync( proxy:IProxy ):Promise<void>
+	{
+		await this.#model.registerProxyAsync( proxy );
+	}
 			
 	/**
 	 * Retrieve an <code>IProxy</code> from the <code>Model</code> by name.
@@ -248,6 +379,21 @@ export class Facade
 		return this.#model?.removeProxy<ProxyType>(proxyName);
 	}
 
+	/**
+	 * Remove an <code>IProxy</code> from the <code>Model</code> by name, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param proxyName
+	 *		The <code>IProxy</code> to remove from the <code>Model</code>.
+	 *
+	 * @return
+	 *		The <code>IProxy</code> that was removed from the <code>Model</code>
+	 */
+	public async removeProxyAsync<ProxyType extends IProxy = IProxy>( proxyName:string ):Promise<ProxyType | undefined>
+	{
+		return this.#model?.removeProxyAsync<ProxyType>(proxyName);
+	}
+
 	/**
 	 * Check if a <code>Proxy</code> is registered.
 	 * 
@@ -263,6 +409,43 @@ export class Facade
 		return this.#model.hasProxy( proxyName );
 	}
 
+	/**
+	 * List the names of the <code>IProxy</code>s registered with the <code>IModel</code>.
+	 *
+	 * @return
+	 * 		The proxy names, in registration order.
+	 */
+	public listProxyNames():string[]
+	{
+		return this.#model.listProxyNames();
+	}
+
+	/**
+	 * Capture the data of the <code>IProxy</code>s registered with the <code>IModel</code>.
+	 *
+	 * @param proxyNames
+	 * 		The names of the <code>IProxy</code>s to capture; all of them if omitted.
+	 *
+	 * @return
+	 * 		The data of each <code>IProxy</code>, by name.
+	 */
+	public snapshot( proxyNames?:string[] ):ModelSnapshot
+	{
+		return this.#model.snapshot( proxyNames );
+	}
+
+	/**
+	 * Push the data of a snapshot back into the <code>IProxy</code>s registered with the
+	 * <code>IModel</code>.
+	 *
+	 * @param snapshot
+	 * 		A snapshot taken by <code>snapshot</code>.
+	 */
+	public async restore( snapshot:ModelSnapshot ):Promise<void>
+	{
+		await this.#model.restore( snapshot );
+	}
+
 	/**
 	 * Register a <code>IMediator</code> with the <code>IView</code>.
 	 *
@@ -275,6 +458,18 @@ export class Facade
 			this.#view.registerMediator( mediator );
 	}
 
+	/**
+	 * Register an <code>IMediator</code> with the <code>IView</code>, waiting for its
+	 * <code>onRegister</code> to complete.
+	 *
+	 * @param mediator
+	 *		A reference to the <code>IMediator</code>.
+	 */
+	public async registerMediatorAsync( mediator:IMediator ):Promise<void>
+	{
+		await this.#view?.registerMediatorAsync( mediator );
+	}
+
 	/**
 	 * Retrieve an <code>IMediator</code> from the <code>IView</code>.
 	 * 
@@ -304,6 +499,21 @@ export class Facade
 		return this.#view?.removeMediator<MediatorType>(mediatorName);
 	}
 
+	/**
+	 * Remove an <code>IMediator</code> from the <code>IView</code>, waiting for its
+	 * <code>onRemove</code> to complete.
+	 *
+	 * @param mediatorName
+	 * 		The name of the <code>IMediator</code> to be removed.
+	 *
+	 * @return
+	 *		The <code>IMediator</code> that was removed from the <code>IView</code>
+	 */
+	public async removeMediatorAsync<MediatorType extends IMediator = IMediator>( mediatorName:string ):Promise<MediatorType | undefined>
+	{
+		return this.#view?.removeMediatorAsync<MediatorType>(mediatorName);
+	}
+
 	/**
 	 * Check if a <code>Mediator</code> is registered or not
 	 * 
@@ -319,6 +529,40 @@ export class Facade
 		return this.#view.hasMediator( mediatorName );
 	}
 
+	/**
+	 * List the names of the <code>IMediator</code>s registered with the <code>IView</code>.
+	 *
+	 * @return
+	 * 		The mediator names, in registration order.
+	 */
+	public listMediatorNames():string[]
+	{
+		return this.#view.listMediatorNames();
+	}
+
+	/**
+	 * Describe the registered <code>IMediator</code>s and their notification interests.
+	 *
+	 * @return
+	 * 		A description per mediator, in registration order.
+	 */
+	public listMediators():IMediatorDescription[]
+	{
+		return this.#view.listMediators();
+	}
+
+	/**
+	 * Describe the <code>IObserver</code>s registered per notification name or pattern.
+	 *
+	 * @return
+	 * 		A description per interest, the exact names first, with the observers in the order
+	 * 		they are notified.
+	 */
+	public listObservers():IObserverDescription[]
+	{
+		return this.#view.listObservers();
+	}
+
 	/**
 	 * Notify the <code>IObservers</code> for a particular <code>INotification</code>.
 	 *
@@ -336,7 +580,24 @@ export class Facade
 	public async notifyObservers (notification:INotification): Promise<void>
 	{
 		if( this.#view )
-			this.#view.notifyObservers( notification );
+			await this.#view.notifyObservers( notification );
+	}
+
+	/**
+	 * Abort all the commands started by an <code>INotification</code>.
+	 *
+	 * Commands not yet launched are skipped, and commands in flight see the signal of the
+	 * notification aborted.
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> whose commands to abort.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation.
+	 */
+	public abortCommands( notification:INotification, reason?:any ):void
+	{
+		notification.abort?.( reason );
 	}
 
 	/**
@@ -344,53 +605,212 @@ export class Facade
 	 * 
 	 * Keeps us from having to construct new notification instances in our implementation code.
 	 *
-	 * @param name
-	 *		The name of the notification to send.
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and type (both optional).
+	 * 		With a typed <code>NotificationMap</code>, the body must match the declared type.
+	 */
+	public async sendNotification( ...args:NotificationArgs<NotificationMapType> ): Promise<void>
+	{
+		const [name, body, type] = args;
+		return this.notifyObservers( new Notification( name, body, type ) );
+	}
+
+	/**
+	 * Send an <code>INotification</code> as a request and get the reply of its handler.
+	 *
+	 * The handling command replies by returning a value from <code>execute</code>, or any
+	 * observer replies by calling <code>reply</code> on the notification. The request
+	 * resolves with <code>undefined</code> when the handlers complete without replying.
 	 *
-	 * @param body
-	 *		The body of the notification to send.
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and a timeout in
+	 * 		milliseconds (both optional). When the timeout elapses, the notification is aborted
+	 * 		and the request rejected.
 	 *
-	 * @param type
-	 *		The type of the notification to send.
+	 * @return
+	 * 		The reply to the request.
+	 *
+	 * @throws Error
+	 * 		No handler is registered for the notification, or the timeout elapsed.
 	 */
-	public async sendNotification( name:string, body?:any, type?:string ): Promise<void>
+	public async request<Result = any>( ...args:RequestArgs<NotificationMapType> ): Promise<Result>
 	{
-		return this.notifyObservers( new Notification( name, body, type ) );
+		const [name, body, timeout] = args;
+
+		if( !this.#view?.hasObservers( name ))
+			throw Error( Facade.NO_HANDLER_MSG + name );
+
+		const notification = new Notification( name, body );
+		const handled = this.notifyObservers( notification ).then( () => notification.getReply() );
+
+		if( !( timeout > 0 ))
+			return handled;
+
+		let timer:ReturnType<typeof setTimeout>;
+
+		const timedOut = new Promise<never>( (resolve, reject) =>
+		{
+			timer = setTimeout( () =>
+			{
+				const error = Error( Facade.REQUEST_TIMEOUT_MSG + name );
+				notification.abort( error );
+				reject( error );
+			}, timeout );
+		});
+
+		try
+		{
+			return await Promise.race([ handled, timedOut ]);
+		}
+		finally
+		{
+			clearTimeout( timer );
+		}
+	}
+
+	/**
+	 * Set the multiton key for this <code>Facade</code> instance.
+	 *
+	 * Not called directly, but instead from the constructor when
+	 * <code>Facade.getInstance( key )</code> is invoked.
+	 *
+	 * @param key
+	 * 		The multiton key of this Core.
+	 */
+	public initializeNotifier(key:string):void
+	{
+		this.#multitonKey = key;
 	}
 
+	/**
+	 * Get the multiton key of this Core.
+	 *
+	 * @return
+	 * 		The multiton key.
+	 */
+	public getMultitonKey():string
+	{
+		return this.#multitonKey;
+	}
+
+	/**
+	 * Dispose the <code>Model</code>, <code>View</code> and <code>Controller</code> of this
+	 * Core and release this multiton instance.
+	 *
+	 * Every actor is disposed and the instance released even if one of them fails; the errors
+	 * are then rethrown, together as an <code>AggregateError</code> when there are several.
+	 */
 	public async dispose(): Promise<void>
 	{
-		await this.#view.dispose();
-		await this.#controller.dispose();
-		await this.#model.dispose();
+		const errors:unknown[] = [];
 
-		Facade.instance	= undefined;
+		for (const actor of [ this.#view, this.#controller, this.#model ])
+		{
+			try
+			{
+				await actor.dispose();
+			}
+			catch (error)
+			{
+				errors.push(error);
+			}
+		}
+
+		this.#commandHistory = undefined;
+
+		Facade.instanceMap.delete(this.#multitonKey);
+
+		if (errors.length === 1)
+			throw errors[0];
+
+		if (errors.length > 1)
+			throw new AggregateError(errors, `${errors.length} actors failed to be disposed`);
 	}
 
 	/**
 	 * @constant
 	 * @protected
 	 */
-	private static SINGLETON_MSG:string = "Facade singleton already constructed!";
+	private static MULTITON_MSG:string = "Facade instance for this Multiton key already constructed!";
 
 	/**
-	 * The singleton <code>Facade</code> instance.
+	 * Message of the error rejecting a request nobody handles.
+	 *
+	 * @constant
+	 */
+	public static NO_HANDLER_MSG:string = "No handler is registered for the request: ";
+
+	/**
+	 * Message of the error rejecting a request whose timeout elapsed.
+	 *
+	 * @constant
+	 */
+	public static REQUEST_TIMEOUT_MSG:string = "The request timed out: ";
+
+	/**
+	 * The multiton <code>Facade</code> instances, by key.
 	 *
 	 * @protected
 	 */
-	private static instance:IFacade;
+	private static instanceMap:Map<string, IFacade<any>> = new Map();
 
 	/**
-	 * Facade singleton factory method.
+	 * Facade multiton factory method.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core.
+	 *
+	 * @param factory
+	 * 		Builds the instance when none exists for <code>key</code> yet, allowing a
+	 * 		<code>Facade</code> subclass to be used.
 	 * 
 	 * @return
-	 * 		The singleton instance of <code>Facade</code>.
+	 * 		The multiton instance of <code>Facade</code> for <code>key</code>, typed with the
+	 * 		<code>NotificationMap</code> given as generic parameter.
+	 */
+	public static getInstance<NotificationMapType extends object = NotificationMap>(key:string = Multiton.DEFAULT_KEY, factory:(key:string) => IFacade<any> = (key) => new Facade(key)):IFacade<NotificationMapType>
+	{
+		if (!Facade.instanceMap.has(key))
+			Facade.instanceMap.set(key, factory(key));
+
+		return Facade.instanceMap.get(key) as IFacade<NotificationMapType>;
+	}
+
+	/**
+	 * Check if a Core is registered or not.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core in question.
+	 *
+	 * @return
+	 * 		A Core is registered with the given <code>key</code>.
+	 */
+	public static hasCore(key:string):boolean
+	{
+		return Facade.instanceMap.has(key);
+	}
+
+	/**
+	 * Remove a Core.
+	 *
+	 * Disposes the <code>Model</code>, <code>View</code>, <code>Controller</code> and
+	 * <code>Facade</code> instances registered for the given key.
+	 *
+	 * @param key
+	 * 		The multiton key of the Core to remove.
 	 */
-	public static getInstance():IFacade
+	public static async removeCore(key:string):Promise<void>
 	{
-		if (!Facade.instance)
-			Facade.instance = new Facade();
+		if (!Facade.instanceMap.has(key))
+			return;
 
-		return Facade.instance;
+		try
+		{
+			await Facade.instanceMap.get(key).dispose();
+		}
+		finally
+		{
+			Facade.instanceMap.delete(key);
+		}
 	}
 }
\ No newline at end of file
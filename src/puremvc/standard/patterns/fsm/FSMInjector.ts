@@ -0,0 +1,114 @@
+import { IFSMConfig } from "../../interfaces";
+import { Notifier } from "../observer/Notifier";
+import { State } from "./State";
+import { StateMachine } from "./StateMachine";
+import { StateMachineProxy } from "./StateMachineProxy";
+
+/**
+ * Builds a <code>StateMachine</code> from a declarative <code>IFSMConfig</code>, and
+ * registers it along with its <code>StateMachineProxy</code> in the Core of the
+ * <code>FSMInjector</code>:
+ *
+ * <pre>
+ *		const injector = new FSMInjector( config );
+ *		injector.initializeNotifier( this.multitonKey );
+ *		await injector.inject();
+ * </pre>
+ */
+export class FSMInjector
+	extends Notifier
+{
+	/**
+	 * The configuration of the machine.
+	 *
+	 * @protected
+	 */
+	#config:IFSMConfig;
+
+	/**
+	 * Constructs an <code>FSMInjector</code> instance.
+	 *
+	 * @param config
+	 * 		The configuration of the machine, as an object or as JSON.
+	 */
+	constructor(config:IFSMConfig | string)
+	{
+		super();
+
+		this.#config = typeof config === "string" ? JSON.parse(config) : config;
+	}
+
+	/**
+	 * Build the <code>StateMachineProxy</code> holding the configured states.
+	 *
+	 * @return
+	 * 		A new <code>StateMachineProxy</code>.
+	 *
+	 * @throws Error
+	 * 		A state is defined twice, or a transition or the initial state targets an unknown
+	 * 		state.
+	 */
+	public createStateMachineProxy():StateMachineProxy
+	{
+		const proxy = new StateMachineProxy();
+
+		for (const { name, entering, exiting, changed, exited, transitions } of this.#config.states)
+		{
+			if (proxy.hasState(name))
+				throw Error(FSMInjector.DUPLICATE_STATE_MSG + name);
+
+			const state = new State(name, entering, exiting, changed, exited);
+
+			for (const [action, target] of Object.entries(transitions ?? {}))
+				state.defineTransition(action, target);
+
+			proxy.registerState(state, name === this.#config.initial);
+		}
+
+		for (const state of this.#config.states)
+		{
+			for (const target of Object.values(state.transitions ?? {}))
+			{
+				if (!proxy.hasState(target))
+					throw Error(FSMInjector.UNKNOWN_STATE_MSG + target);
+			}
+		}
+
+		if (this.#config.initial !== undefined && !proxy.hasState(this.#config.initial))
+			throw Error(FSMInjector.UNKNOWN_STATE_MSG + this.#config.initial);
+
+		return proxy;
+	}
+
+	/**
+	 * Register the <code>StateMachineProxy</code> and the <code>StateMachine</code>, which
+	 * enters the initial state.
+	 *
+	 * @return
+	 * 		The registered <code>StateMachine</code>.
+	 */
+	public async inject():Promise<StateMachine>
+	{
+		const proxy = this.createStateMachineProxy();
+		const stateMachine = new StateMachine(proxy);
+
+		this.facade.registerProxy(proxy);
+		await this.facade.registerMediatorAsync(stateMachine);
+
+		return stateMachine;
+	}
+
+	/**
+	 * Message of the error thrown when a state is defined twice.
+	 *
+	 * @constant
+	 */
+	public static DUPLICATE_STATE_MSG:string = "The state is defined twice: ";
+
+	/**
+	 * Message of the error thrown when a transition or the initial state is unknown.
+	 *
+	 * @constant
+	 */
+	public static UNKNOWN_STATE_MSG:string = "Unknown state: ";
+}
@@ -0,0 +1,183 @@
+/**
+ * A state of a finite state machine.
+ *
+ * A <code>State</code> names the notifications sent when the <code>StateMachine</code>
+ * enters or exits it, and maps actions to the states they lead to.
+ */
+export class State
+{
+	/**
+	 * The name of the state.
+	 *
+	 * @protected
+	 */
+	#name:string;
+
+	/**
+	 * The notification sent before entering the state, which observers can cancel.
+	 *
+	 * @protected
+	 */
+	#entering?:string;
+
+	/**
+	 * The notification sent before exiting the state, which observers can cancel.
+	 *
+	 * @protected
+	 */
+	#exiting?:string;
+
+	/**
+	 * The notification sent once the state is exited.
+	 *
+	 * @protected
+	 */
+	#exited?:string;
+
+	/**
+	 * The notification sent once the state is entered.
+	 *
+	 * @protected
+	 */
+	#changed?:string;
+
+	/**
+	 * The target state of each action, by action name.
+	 *
+	 * @protected
+	 */
+	#transitions:Map<string, string> = new Map();
+
+	/**
+	 * Constructs a <code>State</code> instance.
+	 *
+	 * @param name
+	 * 		The name of the state.
+	 *
+	 * @param entering
+	 * 		The notification sent before entering the state.
+	 *
+	 * @param exiting
+	 * 		The notification sent before exiting the state.
+	 *
+	 * @param changed
+	 * 		The notification sent once the state is entered.
+	 *
+	 * @param exited
+	 * 		The notification sent once the state is exited.
+	 */
+	constructor(name:string, entering?:string, exiting?:string, changed?:string, exited?:string)
+	{
+		this.#name = name;
+		this.#entering = entering;
+		this.#exiting = exiting;
+		this.#changed = changed;
+		this.#exited = exited;
+	}
+
+	/**
+	 * Get the name of the state.
+	 *
+	 * @return
+	 * 		The name of the state.
+	 */
+	public getName():string
+	{
+		return this.#name;
+	}
+
+	/**
+	 * Get the notification sent before entering the state.
+	 *
+	 * @return
+	 * 		The name of the notification, if any.
+	 */
+	public getEntering():string | undefined
+	{
+		return this.#entering;
+	}
+
+	/**
+	 * Get the notification sent before exiting the state.
+	 *
+	 * @return
+	 * 		The name of the notification, if any.
+	 */
+	public getExiting():string | undefined
+	{
+		return this.#exiting;
+	}
+
+	/**
+	 * Get the notification sent once the state is exited.
+	 *
+	 * @return
+	 * 		The name of the notification, if any.
+	 */
+	public getExited():string | undefined
+	{
+		return this.#exited;
+	}
+
+	/**
+	 * Get the notification sent once the state is entered.
+	 *
+	 * @return
+	 * 		The name of the notification, if any.
+	 */
+	public getChanged():string | undefined
+	{
+		return this.#changed;
+	}
+
+	/**
+	 * Define the state an action leads to.
+	 *
+	 * @param action
+	 * 		The name of the action.
+	 *
+	 * @param target
+	 * 		The name of the target state.
+	 */
+	public defineTransition(action:string, target:string):void
+	{
+		this.#transitions.set(action, target);
+	}
+
+	/**
+	 * Remove the transition of an action.
+	 *
+	 * @param action
+	 * 		The name of the action.
+	 */
+	public removeTransition(action:string):void
+	{
+		this.#transitions.delete(action);
+	}
+
+	/**
+	 * Get the state an action leads to.
+	 *
+	 * @param action
+	 * 		The name of the action.
+	 *
+	 * @return
+	 * 		The name of the target state, or <code>undefined</code> if the action is not
+	 * 		handled in this state.
+	 */
+	public getTarget(action:string):string | undefined
+	{
+		return this.#transitions.get(action);
+	}
+
+	/**
+	 * Get the actions handled in this state.
+	 *
+	 * @return
+	 * 		The names of the actions.
+	 */
+	public getActions():string[]
+	{
+		return [ ...this.#transitions.keys() ];
+	}
+}
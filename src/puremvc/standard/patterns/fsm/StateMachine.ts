@@ -0,0 +1,210 @@
+import { INotification } from "../../interfaces";
+import { Mediator } from "../mediator/Mediator";
+import { State } from "./State";
+import { StateMachineProxy } from "./StateMachineProxy";
+
+/**
+ * A finite state machine driven by notifications.
+ *
+ * Send <code>StateMachine.ACTION</code> with the action as type to trigger the transition
+ * it defines in the current state; the body is passed along to the notifications of the
+ * transition, which are sent in this order:
+ * <OL>
+ * <LI>The <code>exiting</code> notification of the current state, with the target state
+ * name as type.
+ * <LI>The <code>entering</code> notification of the target state.
+ * <LI>The <code>exited</code> notification of the previous state.
+ * <LI>The <code>changed</code> notification of the new state.
+ * <LI><code>StateMachine.CHANGED</code>, with the new <code>State</code> as body and its name
+ * as type.
+ * </OL>
+ *
+ * The <code>exiting</code> and <code>entering</code> notifications are guards: an observer
+ * sending <code>StateMachine.CANCEL</code> while handling them cancels the transition.
+ *
+ * The states are held by a <code>StateMachineProxy</code>; <code>FSMInjector</code> builds
+ * and registers both from a declarative configuration.
+ */
+export class StateMachine
+	extends Mediator
+{
+	/**
+	 * The <code>Proxy</code> holding the states.
+	 *
+	 * @protected
+	 */
+	#proxy:StateMachineProxy;
+
+	/**
+	 * A transition is in progress, and can be cancelled.
+	 *
+	 * @protected
+	 */
+	#transitioning:boolean = false;
+
+	/**
+	 * The transition in progress was cancelled.
+	 *
+	 * @protected
+	 */
+	#canceled:boolean = false;
+
+	/**
+	 * Constructs a <code>StateMachine</code> instance.
+	 *
+	 * @param proxy
+	 * 		The <code>Proxy</code> holding the states.
+	 *
+	 * @param mediatorName
+	 * 		The name of the <code>Mediator</code>.
+	 */
+	constructor(proxy:StateMachineProxy, mediatorName:string = StateMachine.NAME)
+	{
+		super(mediatorName);
+
+		this.#proxy = proxy;
+	}
+
+	/**
+	 * The <code>StateMachine</code> handles the <code>ACTION</code> and
+	 * <code>CANCEL</code> notifications.
+	 *
+	 * @return
+	 * 		The notifications triggering and cancelling transitions.
+	 */
+	public override listNotificationInterests():string[]
+	{
+		return [ StateMachine.ACTION, StateMachine.CANCEL ];
+	}
+
+	/**
+	 * Trigger or cancel a transition.
+	 *
+	 * @param notification
+	 * 		An <code>ACTION</code> or <code>CANCEL</code> notification.
+	 */
+	public override async handleNotification(notification:INotification):Promise<void>
+	{
+		switch (notification.getName())
+		{
+			case StateMachine.ACTION:
+			{
+				const target = this.getCurrentState()?.getTarget(notification.getType());
+
+				if (target !== undefined)
+					await this.transitionTo(this.#proxy.retrieveState(target), notification.getBody());
+
+				break;
+			}
+
+			case StateMachine.CANCEL:
+				if (this.#transitioning)
+					this.#canceled = true;
+
+				break;
+		}
+	}
+
+	/**
+	 * Enter the initial state when registered.
+	 */
+	public override async onRegister():Promise<void>
+	{
+		const initial = this.#proxy.getInitialState();
+
+		if (initial && !this.getCurrentState())
+			await this.transitionTo(initial);
+	}
+
+	/**
+	 * Get the state the machine is in.
+	 *
+	 * @return
+	 * 		The current state, if the machine has started.
+	 */
+	public getCurrentState():State | undefined
+	{
+		return this.#proxy.getCurrentState();
+	}
+
+	/**
+	 * Transition to a state, sending the notifications of the transition.
+	 *
+	 * @param nextState
+	 * 		The state to enter.
+	 *
+	 * @param data
+	 * 		The body of the notifications sent.
+	 *
+	 * @return
+	 * 		The state was entered; <code>false</code> if the transition was cancelled.
+	 */
+	public async transitionTo(nextState:State, data?:any):Promise<boolean>
+	{
+		if (!nextState)
+			return false;
+
+		const previous = this.getCurrentState();
+
+		this.#transitioning = true;
+		this.#canceled = false;
+
+		try
+		{
+			if (previous?.getExiting())
+				await this.sendNotification(previous.getExiting(), data, nextState.getName());
+
+			if (!this.#canceled && nextState.getEntering())
+				await this.sendNotification(nextState.getEntering(), data);
+
+			if (this.#canceled)
+				return false;
+		}
+		finally
+		{
+			this.#transitioning = false;
+			this.#canceled = false;
+		}
+
+		this.#proxy.setData(nextState.getName());
+
+		if (previous?.getExited())
+			await this.sendNotification(previous.getExited(), data, nextState.getName());
+
+		if (nextState.getChanged())
+			await this.sendNotification(nextState.getChanged(), data);
+
+		await this.sendNotification(StateMachine.CHANGED, nextState, nextState.getName());
+
+		return true;
+	}
+
+	/**
+	 * The default name of the <code>StateMachine</code>.
+	 *
+	 * @constant
+	 */
+	public static NAME:string = "StateMachine";
+
+	/**
+	 * Notification triggering the transition defined for the action given as type.
+	 *
+	 * @constant
+	 */
+	public static ACTION:string = "StateMachine/notes/action";
+
+	/**
+	 * Notification cancelling the transition in progress, sent from an
+	 * <code>exiting</code> or <code>entering</code> observer.
+	 *
+	 * @constant
+	 */
+	public static CANCEL:string = "StateMachine/notes/cancel";
+
+	/**
+	 * Notification sent once a state is entered, with the <code>State</code> as body.
+	 *
+	 * @constant
+	 */
+	public static CHANGED:string = "StateMachine/notes/changed";
+}
@@ -0,0 +1,125 @@
+import { Proxy } from "../proxy/Proxy";
+import { State } from "./State";
+
+/**
+ * The <code>Proxy</code> holding the states of the <code>StateMachine</code>.
+ *
+ * Its data is the name of the current state, so the current state is captured by
+ * <code>Model.snapshot</code> like the rest of the application state.
+ */
+export class StateMachineProxy
+	extends Proxy<string>
+{
+	/**
+	 * The states, by name.
+	 *
+	 * @protected
+	 */
+	#states:Map<string, State> = new Map();
+
+	/**
+	 * The name of the state the machine starts in.
+	 *
+	 * @protected
+	 */
+	#initial?:string;
+
+	/**
+	 * Constructs a <code>StateMachineProxy</code> instance.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code> instance.
+	 */
+	constructor(proxyName:string = StateMachineProxy.NAME)
+	{
+		super(proxyName);
+	}
+
+	/**
+	 * Register a state.
+	 *
+	 * @param state
+	 * 		The state to register.
+	 *
+	 * @param initial
+	 * 		The machine starts in this state.
+	 */
+	public registerState(state:State, initial:boolean = false):void
+	{
+		this.#states.set(state.getName(), state);
+
+		if (initial)
+			this.#initial = state.getName();
+	}
+
+	/**
+	 * Retrieve a state.
+	 *
+	 * @param stateName
+	 * 		The name of the state.
+	 *
+	 * @return
+	 * 		The state registered with this name, if any.
+	 */
+	public retrieveState(stateName:string):State | undefined
+	{
+		return this.#states.get(stateName);
+	}
+
+	/**
+	 * Remove a state.
+	 *
+	 * @param stateName
+	 * 		The name of the state.
+	 */
+	public removeState(stateName:string):void
+	{
+		this.#states.delete(stateName);
+
+		if (this.#initial === stateName)
+			this.#initial = undefined;
+	}
+
+	/**
+	 * Check if a state is registered.
+	 *
+	 * @param stateName
+	 * 		The name of the state.
+	 *
+	 * @return
+	 * 		A state is registered with this name.
+	 */
+	public hasState(stateName:string):boolean
+	{
+		return this.#states.has(stateName);
+	}
+
+	/**
+	 * Get the state the machine starts in.
+	 *
+	 * @return
+	 * 		The initial state, if any.
+	 */
+	public getInitialState():State | undefined
+	{
+		return this.#states.get(this.#initial);
+	}
+
+	/**
+	 * Get the state the machine is in.
+	 *
+	 * @return
+	 * 		The current state, if the machine has started.
+	 */
+	public getCurrentState():State | undefined
+	{
+		return this.#states.get(this.getData());
+	}
+
+	/**
+	 * The default name of the <code>StateMachineProxy</code>.
+	 *
+	 * @constant
+	 */
+	public static NAME:string = "StateMachineProxy";
+}
@@ -0,0 +1,4 @@
+export * from "./FSMInjector";
+export * from "./State";
+export * from "./StateMachine";
+export * from "./StateMachineProxy";
@@ -1,5 +1,13 @@
 export * from "./command";
 export * from "./facade/Facade";
+export * from "./fsm";
+export * from "./instrumentation";
+export * from "./introspection";
 export * from "./mediator/Mediator";
 export * from "./observer";
-export * from "./proxy/Proxy";
\ No newline at end of file
+export * from "./pipes";
+export * from "./proxy/Proxy";
+export * from "./proxy/ObservableProxy";
+export * from "./proxy/PersistentProxy";
+export * from "./proxy/storage";
+export * from "./startup/StartupManager";
\ No newline at end of file
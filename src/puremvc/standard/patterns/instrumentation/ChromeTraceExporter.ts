@@ -0,0 +1,183 @@
+import { ISpan, ISpanListener } from "../../interfaces";
+
+/**
+ * An event of the Chrome Trace Event Format.
+ */
+export interface ChromeTraceEvent
+{
+	name:string;
+	cat?:string;
+	ph:string;
+	ts:number;
+	dur?:number;
+	pid:number;
+	tid:number;
+	args?:{ [key:string]:unknown };
+}
+
+/**
+ * An <code>ISpanListener</code> recording the spans in the Chrome Trace Event Format,
+ * loadable by <code>chrome://tracing</code> and Perfetto.
+ *
+ * Each Core is shown as a thread named after its multiton key; the spans nest by time, so a
+ * command shows under the observer of the <code>Controller</code> that executed it. The
+ * events of a thread must nest, so spans overlapping without nesting, such as those of
+ * concurrent notifications, go to additional threads of the Core, numbered from 2:
+ *
+ * <pre>
+ *		const exporter = new ChromeTraceExporter();
+ *		facade.addSpanListener( exporter );
+ *		await facade.sendNotification( "startup" );
+ *		await exporter.writeFile( "trace.json" );
+ * </pre>
+ */
+export class ChromeTraceExporter
+	implements ISpanListener
+{
+	/**
+	 * The spans ended, in the order they ended.
+	 */
+	#spans:ISpan[] = [];
+
+	/**
+	 * Record a span once it ended.
+	 *
+	 * @param span
+	 * 		The span ended.
+	 */
+	public spanEnded(span:ISpan):void
+	{
+		this.#spans.push(span);
+	}
+
+	/**
+	 * Get the spans recorded.
+	 *
+	 * @return
+	 * 		A copy of the spans, in the order they ended.
+	 */
+	public getSpans():ISpan[]
+	{
+		return this.#spans.slice(0);
+	}
+
+	/**
+	 * Forget the spans recorded.
+	 */
+	public clear():void
+	{
+		this.#spans = [];
+	}
+
+	/**
+	 * Get the trace events of the spans recorded.
+	 *
+	 * @return
+	 * 		A metadata event naming each thread, then a complete event per span, with times in
+	 * 		microseconds.
+	 */
+	public getTraceEvents():ChromeTraceEvent[]
+	{
+		const cores = new Map<string, { tids:number[], lanes:number[][] }>();
+		const threads:ChromeTraceEvent[] = [];
+		const events:ChromeTraceEvent[] = [];
+
+		const addThread = (name:string):number =>
+		{
+			const tid = threads.length + 1;
+			threads.push({ name: "thread_name", ph: "M", ts: 0, pid: 1, tid, args: { name } });
+
+			return tid;
+		};
+
+		for (const span of this.#spans)
+		{
+			if (!cores.has(span.multitonKey))
+				cores.set(span.multitonKey, { tids: [ addThread(span.multitonKey) ], lanes: [ [] ] });
+		}
+
+		// Parents first: by start, then the longest first.
+		const spans = [ ...this.#spans ].sort((a, b) => a.start - b.start || (b.duration ?? 0) - (a.duration ?? 0));
+
+		for (const span of spans)
+		{
+			const core = cores.get(span.multitonKey);
+			const end = span.start + (span.duration ?? 0);
+
+			// Each lane keeps the ends of its open spans; a span goes to the first lane where
+			// it nests in the open span, or follows the spans ended.
+			let lane = core.lanes.findIndex((open) =>
+			{
+				while (open.length > 0 && open[open.length - 1] <= span.start)
+					open.pop();
+
+				return open.length === 0 || open[open.length - 1] >= end;
+			});
+
+			if (lane < 0)
+			{
+				lane = core.lanes.push([]) - 1;
+				core.tids.push(addThread(span.multitonKey + " #" + (lane + 1)));
+			}
+
+			core.lanes[lane].push(end);
+
+			const notification = span.notification;
+			const args:{ [key:string]:unknown } = {
+				notification: notification.getName(),
+				type: notification.getType(),
+				id: notification.getId?.(),
+				correlationId: notification.getCorrelationId?.(),
+				causationId: notification.getCausationId?.()
+			};
+
+			if (span.error !== undefined)
+				args.error = span.error instanceof Error ? span.error.message : String(span.error);
+
+			events.push({
+				name: span.name,
+				cat: span.category,
+				ph: "X",
+				ts: ChromeTraceExporter.#microseconds(span.start),
+				dur: ChromeTraceExporter.#microseconds(span.duration),
+				pid: 1,
+				tid: core.tids[lane],
+				args
+			});
+		}
+
+		return threads.concat(events);
+	}
+
+	/**
+	 * Get the trace, as serialized by <code>JSON.stringify</code>.
+	 *
+	 * @return
+	 * 		The trace, in the JSON Object Format.
+	 */
+	public toJSON():{ traceEvents:ChromeTraceEvent[], displayTimeUnit:string }
+	{
+		return { traceEvents: this.getTraceEvents(), displayTimeUnit: "ms" };
+	}
+
+	/**
+	 * Write the trace to a file, on Node.
+	 *
+	 * @param path
+	 * 		The path of the file.
+	 */
+	public async writeFile(path:string):Promise<void>
+	{
+		const fs = await import("node:fs/promises");
+
+		await fs.writeFile(path, JSON.stringify(this), "utf8");
+	}
+
+	/**
+	 * Convert milliseconds to the whole microseconds of the trace format.
+	 */
+	static #microseconds(milliseconds:number):number
+	{
+		return Math.round(milliseconds * 1000);
+	}
+}
@@ -0,0 +1,225 @@
+import { CommandConstructor, IFacade, IWiringEdge, IWiringNode, NotificationInterest } from "../../interfaces";
+import { MacroCommand } from "../command/MacroCommand";
+import { NotificationPattern } from "../observer/NotificationPattern";
+
+/**
+ * The graph of the notifications of a Core and the mediators and commands handling them,
+ * built from the registrations of its <code>View</code> and <code>Controller</code>.
+ *
+ * The subcommands of a <code>MacroCommand</code> are found by instantiating it, so its
+ * constructor and <code>initializeMacroCommand</code> should have no side effects.
+ *
+ * <pre>
+ *		const graph = new WiringGraph( facade );
+ *		console.log( graph.toMermaid() );
+ * </pre>
+ */
+export class WiringGraph
+{
+	/**
+	 * The nodes, by identifier.
+	 *
+	 * @protected
+	 */
+	#nodes:Map<string, IWiringNode> = new Map();
+
+	/**
+	 * The edges, in the order they were found.
+	 *
+	 * @protected
+	 */
+	#edges:IWiringEdge[] = [];
+
+	/**
+	 * The identifiers of the command classes.
+	 *
+	 * @protected
+	 */
+	#commandIds:Map<CommandConstructor, string> = new Map();
+
+	/**
+	 * Constructs a <code>WiringGraph</code> instance.
+	 *
+	 * @param facade
+	 * 		The facade of the Core to walk.
+	 */
+	constructor(facade:IFacade)
+	{
+		for (const { mediatorName, interests } of facade.listMediators())
+		{
+			const mediatorId = this.#addNode("mediator:" + mediatorName, WiringGraph.MEDIATOR, mediatorName);
+
+			for (const interest of interests)
+				this.#edges.push({ from: this.#addNotification(interest), to: mediatorId });
+		}
+
+		for (const { interest, commandClass } of facade.listCommands())
+			this.#edges.push({ from: this.#addNotification(interest), to: this.#addCommand(commandClass) });
+	}
+
+	/**
+	 * Get the nodes of the graph.
+	 *
+	 * @return
+	 * 		The notifications, mediators and commands, in the order they were found.
+	 */
+	public getNodes():IWiringNode[]
+	{
+		return [...this.#nodes.values()];
+	}
+
+	/**
+	 * Get the edges of the graph.
+	 *
+	 * @return
+	 * 		The edges, in the order they were found.
+	 */
+	public getEdges():IWiringEdge[]
+	{
+		return this.#edges.slice(0);
+	}
+
+	/**
+	 * Write the graph as a Mermaid flowchart.
+	 *
+	 * Notifications are drawn as stadiums, mediators as rectangles and commands as
+	 * subroutines; subcommands are linked with dotted arrows.
+	 *
+	 * @return
+	 * 		The Mermaid text.
+	 */
+	public toMermaid():string
+	{
+		const ids = this.#shortIds();
+		const shapes:{ [kind:string]:[string, string] } = {
+			[WiringGraph.NOTIFICATION]: ["([", "])"],
+			[WiringGraph.MEDIATOR]: ["[", "]"],
+			[WiringGraph.COMMAND]: ["[[", "]]"]
+		};
+
+		const lines = ["flowchart LR"];
+
+		for (const node of this.#nodes.values())
+		{
+			const [open, close] = shapes[node.kind];
+			lines.push(`\t${ids.get(node.id)}${open}"${node.label.replace(/"/g, "#quot;")}"${close}`);
+		}
+
+		for (const { from, to } of this.#edges)
+			lines.push(`\t${ids.get(from)} ${this.#isSubCommand(from) ? "-.->" : "-->"} ${ids.get(to)}`);
+
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Write the graph in the Graphviz DOT language.
+	 *
+	 * Notifications are drawn as ellipses, mediators as boxes and commands as components;
+	 * subcommands are linked with dashed arrows.
+	 *
+	 * @return
+	 * 		The DOT text.
+	 */
+	public toDot():string
+	{
+		const ids = this.#shortIds();
+		const shapes:{ [kind:string]:string } = {
+			[WiringGraph.NOTIFICATION]: "ellipse",
+			[WiringGraph.MEDIATOR]: "box",
+			[WiringGraph.COMMAND]: "component"
+		};
+		const quote = (text:string) => `"${text.replace(/[\\"]/g, "\\$&")}"`;
+
+		const lines = ["digraph wiring {", "\trankdir=LR;"];
+
+		for (const node of this.#nodes.values())
+			lines.push(`\t${ids.get(node.id)} [label=${quote(node.label)}, shape=${shapes[node.kind]}];`);
+
+		for (const { from, to } of this.#edges)
+			lines.push(`\t${ids.get(from)} -> ${ids.get(to)}${this.#isSubCommand(from) ? " [style=dashed]" : ""};`);
+
+		lines.push("}");
+
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Add the node of a notification name or pattern.
+	 */
+	#addNotification(interest:NotificationInterest):string
+	{
+		const key = NotificationPattern.keyOf(interest);
+
+		return this.#addNode("notification:" + key, WiringGraph.NOTIFICATION, key);
+	}
+
+	/**
+	 * Add the node of a command class, and the nodes of its subcommands.
+	 */
+	#addCommand(commandClass:CommandConstructor):string
+	{
+		if (this.#commandIds.has(commandClass))
+			return this.#commandIds.get(commandClass);
+
+		const commandId = this.#addNode("command:" + (this.#commandIds.size + 1), WiringGraph.COMMAND, commandClass.name);
+		this.#commandIds.set(commandClass, commandId);
+
+		if (commandClass.prototype instanceof MacroCommand)
+		{
+			const macroCommand = new commandClass() as MacroCommand;
+
+			for (const subCommand of macroCommand.getSubCommands())
+				this.#edges.push({ from: commandId, to: this.#addCommand(subCommand) });
+		}
+
+		return commandId;
+	}
+
+	/**
+	 * Add a node unless it exists.
+	 */
+	#addNode(id:string, kind:string, label:string):string
+	{
+		if (!this.#nodes.has(id))
+			this.#nodes.set(id, { id, kind, label });
+
+		return id;
+	}
+
+	/**
+	 * Check whether the edges from a node lead to subcommands.
+	 */
+	#isSubCommand(from:string):boolean
+	{
+		return this.#nodes.get(from).kind === WiringGraph.COMMAND;
+	}
+
+	/**
+	 * Give the nodes identifiers valid in Mermaid and DOT.
+	 */
+	#shortIds():Map<string, string>
+	{
+		return new Map([...this.#nodes.keys()].map((id, index) => [id, "n" + index]));
+	}
+
+	/**
+	 * The kind of the nodes of notification names and patterns.
+	 *
+	 * @constant
+	 */
+	public static NOTIFICATION:string = "notification";
+
+	/**
+	 * The kind of the nodes of mediators.
+	 *
+	 * @constant
+	 */
+	public static MEDIATOR:string = "mediator";
+
+	/**
+	 * The kind of the nodes of command classes.
+	 *
+	 * @constant
+	 */
+	public static COMMAND:string = "command";
+}
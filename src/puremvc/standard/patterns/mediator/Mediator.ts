@@ -1,4 +1,4 @@
-import { IMediator, INotification, INotifier } from "../../interfaces";
+import { IMediator, INotifier, NotificationInterest, NotificationMap, TypedNotification } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -6,10 +6,13 @@ import { Notifier } from "../observer";
  * 
  * Typically, a <code>Mediator</code> will be written to serve one specific control or group
  * controls and so, will not have a need to be dynamically named.
+ *
+ * The <code>NotificationMapType</code> parameter is the <code>NotificationMap</code> used to
+ * type-check the notifications sent and handled.
  */
-export class Mediator<ViewType = unknown>
-	extends Notifier
-	implements IMediator<ViewType>, INotifier
+export class Mediator<ViewType = unknown, NotificationMapType extends object = NotificationMap>
+	extends Notifier<NotificationMapType>
+	implements IMediator<ViewType, NotificationMapType>, INotifier<NotificationMapType>
 {
 	/**
 	 * The name of the <code>Mediator</code>.
@@ -94,14 +97,31 @@ export class Mediator<ViewType = unknown>
 	 * List the <code>INotification</code> names this <code>IMediator</code> is interested in
 	 * being notified of.
 	 *
+	 * Besides exact names, the list may hold wildcard strings such as <code>"user/*"</code>
+	 * or <code>RegExp</code>s matching several names.
+	 *
 	 * @return
 	 * 		The list of notifications names in which is interested the <code>Mediator</code>.
 	 */
-	public listNotificationInterests():string[]
+	public listNotificationInterests():NotificationInterest[]
 	{
 		return [];
 	}
 
+	/**
+	 * Get the priority with which this <code>Mediator</code> is notified.
+	 *
+	 * Override in your subclass to be notified before (higher values) or after (lower values)
+	 * other observers of the same <code>INotification</code>s.
+	 *
+	 * @return
+	 * 		The priority of the <code>Mediator</code>, <code>0</code> by default.
+	 */
+	public getNotificationPriority():number
+	{
+		return 0;
+	}
+
 	/**
 	 * Handle <code>INotification</code>s.
 	 * 
@@ -112,7 +132,7 @@ export class Mediator<ViewType = unknown>
 	 * @param notification
 	 * 		The notification instance to be handled.
 	 */ 
-	public async handleNotification( notification:INotification ): Promise<void>
+	public async handleNotification( notification:TypedNotification<NotificationMapType> ): Promise<void>
 	{
 
 	}
@@ -120,8 +140,10 @@ export class Mediator<ViewType = unknown>
 	/**
 	 * Called by the View when the Mediator is registered. This method has to be overridden
 	 * by the subclass to know when the instance is registered.
+	 *
+	 * It may return a promise, which <code>registerMediatorAsync</code> waits for.
 	 */ 
-	public onRegister():void
+	public onRegister():void | Promise<void>
 	{
 
 	}
@@ -129,8 +151,11 @@ export class Mediator<ViewType = unknown>
 	/**
 	 * Called by the View when the Mediator is removed. This method has to be overridden
 	 * by the subclass to know when the instance is removed.
+	 *
+	 * It may return a promise, which <code>removeMediatorAsync</code> and <code>dispose</code>
+	 * wait for.
 	 */ 
-	public onRemove():void
+	public onRemove():void | Promise<void>
 	{
 
 	}
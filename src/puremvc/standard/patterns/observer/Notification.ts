@@ -1,4 +1,5 @@
 import { INotification } from "../../interfaces";
+import { NotificationContext } from "./NotificationContext";
 
 /**
  * A base <code>INotification</code> implementation.
@@ -23,23 +24,27 @@ import { INotification } from "../../interfaces";
  * <code>Event</code>, while PureMVC <code>INotification</code>s follow a 'Publish/Subscribe'
  * pattern. PureMVC classes need not be related to each other in a parent/child relationship in
  * order to communicate with one another using <code>INotification</code>s.
+ *
+ * Each <code>Notification</code> gets a unique id and a timestamp. When created while an
+ * observer handles another notification, it records that notification as its cause and
+ * inherits its correlation id, so the cascade triggered by one action can be reconstructed.
  */
-export class Notification
-	implements INotification
+export class Notification<BodyType = any, NameType extends string = string>
+	implements INotification<BodyType, NameType>
 {
 	/**
 	 * The name of the <code>Notification</code>.
 	 *
 	 * @protected
 	 */
-	#name:string;
+	#name:NameType;
 
 	/**
 	 * The body data to send with the <code>Notification</code>.
 	 *
 	 * @protected
 	 */
-	#body?:any;
+	#body?:BodyType;
 
 	/**
 	 * The type identifier of the <code>Notification</code>.
@@ -48,6 +53,56 @@ export class Notification
 	 */
 	#type?:string;
 
+	/**
+	 * Controls the <code>AbortSignal</code> of the <code>Notification</code>, created on
+	 * first use.
+	 *
+	 * @protected
+	 */
+	#abortController?:AbortController;
+
+	/**
+	 * Whether the <code>Notification</code> has been replied to.
+	 *
+	 * @protected
+	 */
+	#replied:boolean = false;
+
+	/**
+	 * The reply to the <code>Notification</code>.
+	 *
+	 * @protected
+	 */
+	#reply?:any;
+
+	/**
+	 * The unique identifier of the <code>Notification</code>.
+	 *
+	 * @protected
+	 */
+	#id:string;
+
+	/**
+	 * The creation time of the <code>Notification</code>.
+	 *
+	 * @protected
+	 */
+	#timestamp:number;
+
+	/**
+	 * The identifier shared by the notifications of a cascade.
+	 *
+	 * @protected
+	 */
+	#correlationId:string;
+
+	/**
+	 * The identifier of the notification that caused this one.
+	 *
+	 * @protected
+	 */
+	#causationId?:string;
+
 	/**
 	 * Constructs a <code>Notification</code> instance.
 	 *
@@ -60,11 +115,19 @@ export class Notification
 	 * @param type
 	 * 		Type identifier of the <code>Notification</code>.
 	 */
-	constructor( name:string, body?:any, type?:string)
+	constructor( name:NameType, body?:BodyType, type?:string)
 	{
 		this.#name = name;
 		this.#body = body;
 		this.#type = type;
+
+		this.#id = Notification.#createId();
+		this.#timestamp = Date.now();
+
+		const cause = NotificationContext.getCurrent();
+
+		this.#correlationId = cause?.getCorrelationId?.() ?? this.#id;
+		this.#causationId = cause?.getId?.();
 	}
 
 	/**
@@ -73,7 +136,7 @@ export class Notification
 	 * @return
 	 *		The name of the <code>Notification</code> instance.
 		*/
-	public getName():string
+	public getName():NameType
 	{
 		return this.#name;
 	}
@@ -84,7 +147,7 @@ export class Notification
 	 * @param body
 	 * 		The body of the <code>Notification</code> instance.
 	 */
-	public setBody( body:any ):void
+	public setBody( body:BodyType ):void
 	{
 		this.#body = body;
 	}
@@ -95,7 +158,7 @@ export class Notification
 	 * @return
 	 *		The body object of the <code>Notification</code> instance.
 		*/
-	public getBody():any
+	public getBody():BodyType
 	{
 		return this.#body;
 	}
@@ -122,6 +185,117 @@ export class Notification
 		return this.#type;
 	}
 
+	/**
+	 * Get the <code>AbortSignal</code> shared by the commands started by the
+	 * <code>Notification</code>.
+	 *
+	 * @return
+	 * 		The <code>AbortSignal</code> of the <code>Notification</code> instance.
+	 */
+	public getSignal():AbortSignal
+	{
+		if (!this.#abortController)
+			this.#abortController = new AbortController();
+
+		return this.#abortController.signal;
+	}
+
+	/**
+	 * Abort the commands started by the <code>Notification</code>.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation.
+	 */
+	public abort( reason?:any ):void
+	{
+		this.getSignal();
+		this.#abortController.abort( reason );
+	}
+
+	/**
+	 * Reply to the <code>Notification</code>, when it was sent as a request.
+	 *
+	 * Only the first reply is kept; later calls are ignored.
+	 *
+	 * @param value
+	 * 		The result of the request.
+	 */
+	public reply( value?:any ):void
+	{
+		if (this.#replied)
+			return;
+
+		this.#replied = true;
+		this.#reply = value;
+	}
+
+	/**
+	 * Check whether the <code>Notification</code> has been replied to.
+	 *
+	 * @return
+	 * 		<code>reply</code> has been called.
+	 */
+	public hasReply():boolean
+	{
+		return this.#replied;
+	}
+
+	/**
+	 * Get the reply to the <code>Notification</code>.
+	 *
+	 * @return
+	 * 		The value passed to <code>reply</code>, or <code>undefined</code>.
+	 */
+	public getReply():any
+	{
+		return this.#reply;
+	}
+
+	/**
+	 * Get the unique identifier of the <code>Notification</code>.
+	 *
+	 * @return
+	 * 		The identifier of the <code>Notification</code> instance.
+	 */
+	public getId():string
+	{
+		return this.#id;
+	}
+
+	/**
+	 * Get the time the <code>Notification</code> was created.
+	 *
+	 * @return
+	 * 		The creation time, in milliseconds since the epoch.
+	 */
+	public getTimestamp():number
+	{
+		return this.#timestamp;
+	}
+
+	/**
+	 * Get the identifier shared by all the notifications of a cascade.
+	 *
+	 * @return
+	 * 		The correlation identifier of the notification that started the cascade.
+	 */
+	public getCorrelationId():string
+	{
+		return this.#correlationId;
+	}
+
+	/**
+	 * Get the identifier of the notification being handled when this one was created.
+	 *
+	 * @return
+	 * 		The identifier of the cause, or <code>undefined</code> if the
+	 * 		<code>Notification</code> started a cascade.
+	 */
+	public getCausationId():string | undefined
+	{
+		return this.#causationId;
+	}
+
 	/**
 	 * Get a textual representation of the <code>Notification</code> instance.
 	 *
@@ -135,4 +309,49 @@ export class Notification
 		msg += "\nType:" + (( this.getType() == null ) ? "null" : this.getType());
 		return msg;
 	}		
+
+	/**
+	 * Check the name of an <code>INotification</code>, narrowing its type.
+	 *
+	 * TypeScript cannot narrow a <code>TypedNotification</code> union on the result of
+	 * <code>getName()</code>, so use this guard to get the body type of the notification
+	 * handled:
+	 *
+	 * <pre>
+	 *		if( Notification.isNamed( notification, "user/login" ))
+	 *			login( notification.getBody().password );
+	 * </pre>
+	 *
+	 * @param notification
+	 * 		The <code>INotification</code> to check.
+	 *
+	 * @param name
+	 * 		The expected notification name.
+	 *
+	 * @return
+	 * 		The notification has this name.
+	 */
+	public static isNamed<NotificationType extends INotification, Name extends string>( notification:NotificationType, name:Name ):notification is Extract<NotificationType, INotification<any, Name>>
+	{
+		return notification.getName() === name;
+	}
+
+	/**
+	 * The number of identifiers created without <code>crypto.randomUUID</code>.
+	 *
+	 * @protected
+	 */
+	static #count:number = 0;
+
+	/**
+	 * Create a unique identifier, with <code>crypto.randomUUID</code> when available; it is
+	 * not in the browser pages served over plain HTTP.
+	 */
+	static #createId():string
+	{
+		if (typeof globalThis.crypto?.randomUUID === "function")
+			return globalThis.crypto.randomUUID();
+
+		return Date.now().toString(36) + "-" + (++Notification.#count).toString(36) + "-" + Math.random().toString(36).slice(2);
+	}
 }
\ No newline at end of file
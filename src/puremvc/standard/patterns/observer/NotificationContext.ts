@@ -0,0 +1,91 @@
+import { INotification } from "../../interfaces";
+
+/**
+ * The minimal <code>AsyncLocalStorage</code> interface used by <code>NotificationContext</code>.
+ */
+interface AsyncStorage
+{
+	getStore():INotification | undefined;
+	run<Result>(store:INotification, callback:() => Result):Result;
+}
+
+/**
+ * Tracks the <code>INotification</code> being handled, so the notifications sent while
+ * handling it record it as their cause.
+ *
+ * On Node 20.16, 22.3 or later, the context follows the handlers across <code>await</code>s
+ * through <code>AsyncLocalStorage</code>, loaded with <code>process.getBuiltinModule</code>
+ * so that browser bundles do not import <code>node:async_hooks</code>. Elsewhere, in browsers
+ * and on older versions of Node, only the notifications created before the first
+ * <code>await</code> of a handler are tracked.
+ */
+export class NotificationContext
+{
+	/**
+	 * The notifications being handled, when <code>AsyncLocalStorage</code> is unavailable.
+	 *
+	 * @protected
+	 */
+	static #stack:INotification[] = [];
+
+	/**
+	 * The notification being handled, across <code>await</code>s, if available.
+	 *
+	 * @protected
+	 */
+	static #storage?:AsyncStorage = NotificationContext.#createStorage();
+
+	/**
+	 * Get the <code>INotification</code> being handled.
+	 *
+	 * @return
+	 * 		The notification being handled, if any.
+	 */
+	public static getCurrent():INotification | undefined
+	{
+		if (NotificationContext.#storage)
+			return NotificationContext.#storage.getStore();
+
+		return NotificationContext.#stack[NotificationContext.#stack.length - 1];
+	}
+
+	/**
+	 * Run a handler of an <code>INotification</code>.
+	 *
+	 * @param notification
+	 * 		The notification handled.
+	 *
+	 * @param callback
+	 * 		The handler.
+	 *
+	 * @return
+	 * 		What the handler returns.
+	 */
+	public static run<Result>(notification:INotification, callback:() => Result):Result
+	{
+		if (NotificationContext.#storage)
+			return NotificationContext.#storage.run(notification, callback);
+
+		NotificationContext.#stack.push(notification);
+
+		try
+		{
+			return callback();
+		}
+		finally
+		{
+			NotificationContext.#stack.pop();
+		}
+	}
+
+	/**
+	 * Create an <code>AsyncLocalStorage</code> when running on a Node providing
+	 * <code>process.getBuiltinModule</code>.
+	 */
+	static #createStorage():AsyncStorage | undefined
+	{
+		const asyncHooks = globalThis.process?.getBuiltinModule?.("node:async_hooks");
+
+		return asyncHooks ? new asyncHooks.AsyncLocalStorage<INotification>() : undefined;
+	}
+}
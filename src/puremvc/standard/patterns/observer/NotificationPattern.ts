@@ -0,0 +1,125 @@
+import { NotificationInterest } from "../../interfaces";
+
+/**
+ * A <code>NotificationInterest</code> that matches several notification names.
+ *
+ * Interests are either exact notification names, wildcard strings such as
+ * <code>"user/*"</code>, where <code>*</code> matches any sequence of characters, or
+ * <code>RegExp</code>s. <code>NotificationPattern</code> gives the latter two a stable key,
+ * so they can be registered and removed like exact names, and a matcher.
+ */
+export class NotificationPattern
+{
+	/**
+	 * The key identifying the pattern.
+	 *
+	 * @protected
+	 */
+	#key:string;
+
+	/**
+	 * The expression matching notification names.
+	 *
+	 * @protected
+	 */
+	#matcher:RegExp;
+
+	/**
+	 * The wildcard string or <code>RegExp</code> the pattern was created from.
+	 *
+	 * @protected
+	 */
+	#interest:NotificationInterest;
+
+	/**
+	 * Constructs a <code>NotificationPattern</code> instance.
+	 *
+	 * @param interest
+	 * 		A wildcard string or a <code>RegExp</code>.
+	 */
+	constructor(interest:NotificationInterest)
+	{
+		this.#key = NotificationPattern.keyOf(interest);
+		this.#interest = interest;
+
+		if (interest instanceof RegExp)
+		{
+			// Global and sticky expressions keep state between calls to test().
+			this.#matcher = new RegExp(interest.source, interest.flags.replace(/[gy]/g, ""));
+		}
+		else
+		{
+			const source = interest
+				.split("*")
+				.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+				.join(".*");
+
+			this.#matcher = new RegExp(`^${source}$`);
+		}
+	}
+
+	/**
+	 * Get the key identifying the pattern.
+	 *
+	 * @return
+	 * 		The key of the pattern.
+	 */
+	public getKey():string
+	{
+		return this.#key;
+	}
+
+	/**
+	 * Get the interest the pattern was created from.
+	 *
+	 * @return
+	 * 		The wildcard string or <code>RegExp</code>.
+	 */
+	public getInterest():NotificationInterest
+	{
+		return this.#interest;
+	}
+
+	/**
+	 * Check whether a notification name matches the pattern.
+	 *
+	 * @param notificationName
+	 * 		The notification name to test.
+	 *
+	 * @return
+	 * 		The name matches the pattern.
+	 */
+	public matches(notificationName:string):boolean
+	{
+		return this.#matcher.test(notificationName);
+	}
+
+	/**
+	 * Check whether an interest is a pattern rather than an exact notification name.
+	 *
+	 * @param interest
+	 * 		The interest to check.
+	 *
+	 * @return
+	 * 		The interest is a <code>RegExp</code> or a string holding a wildcard.
+	 */
+	public static isPattern(interest:NotificationInterest):boolean
+	{
+		return interest instanceof RegExp || interest.includes("*");
+	}
+
+	/**
+	 * Get the key under which an interest is registered.
+	 *
+	 * @param interest
+	 * 		The interest to get the key of.
+	 *
+	 * @return
+	 * 		The notification name or wildcard string itself, or the literal form of a
+	 * 		<code>RegExp</code>.
+	 */
+	public static keyOf(interest:NotificationInterest):string
+	{
+		return interest instanceof RegExp ? interest.toString() : interest;
+	}
+}
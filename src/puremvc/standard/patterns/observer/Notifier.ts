@@ -1,4 +1,5 @@
-import { IFacade, INotifier } from "../../interfaces";
+import { Multiton } from "../../core/Multiton";
+import { IFacade, INotifier, NotificationArgs, NotificationMap, RequestArgs } from "../../interfaces";
 import { Facade } from "../facade/Facade";
 
 /**
@@ -12,32 +13,60 @@ import { Facade } from "../facade/Facade";
  * construct <code>Notification</code>s.
  *
  * The <code>INotifier</code> interface, which all of the above mentioned classes extend,
- * provides an initialized reference to the <code>Facade</code> singleton, which is required by
+ * provides an initialized reference to the <code>Facade</code> multiton, which is required by
  * the convenience method <code>sendNotification</code>	for sending <code>Notifications</code>,
  * but it also eases implementation as these classes have frequent <code>Facade</code>
  * interactions and usually require access to the facade anyway.
+ *
+ * The <code>Facade</code> is resolved through the multiton key of the <code>Notifier</code>,
+ * which defaults to <code>Multiton.DEFAULT_KEY</code> and is assigned by the Core actors
+ * through <code>initializeNotifier</code>.
+ *
+ * The <code>NotificationMapType</code> parameter is the <code>NotificationMap</code> used to
+ * type-check the names and bodies of the notifications sent.
  */
-export class Notifier
-	implements INotifier
+export class Notifier<NotificationMapType extends object = NotificationMap>
+	implements INotifier<NotificationMapType>
 {
 	/**
-	 * Local reference to the singleton <code>Facade</code>.
+	 * The multiton key of the Core this <code>Notifier</code> belongs to.
 	 *
 	 * @protected
 	 */
-	#facade:IFacade;
+	#multitonKey:string = Multiton.DEFAULT_KEY;
+
+	/**
+	 * Initialize this <code>Notifier</code> instance with the multiton key of its Core.
+	 *
+	 * @param key
+	 * 		The multiton key for this <code>Notifier</code> to use.
+	 */
+	public initializeNotifier(key:string):void
+	{
+		this.#multitonKey = key;
+	}
 
 	/**
-	 * Constructs a <code>Notifier</code> instance.
+	 * The multiton key of the Core this <code>Notifier</code> belongs to.
 	 */
-	constructor()
+	public get multitonKey(): string
 	{
-		this.#facade = Facade.getInstance();
+		return this.#multitonKey;
 	}
 
-	public get facade(): IFacade
+	/**
+	 * The <code>Facade</code> of the Core this <code>Notifier</code> belongs to.
+	 *
+	 * @throws Error
+	 * 		Throws an error if no Core is registered with the multiton key, which was never
+	 * 		created or was removed with <code>Facade.removeCore</code>.
+	 */
+	public get facade(): IFacade<NotificationMapType>
 	{
-		return this.#facade;
+		if (!Facade.hasCore(this.#multitonKey))
+			throw Error( Notifier.MULTITON_MSG + this.#multitonKey );
+
+		return Facade.getInstance<NotificationMapType>(this.#multitonKey);
 	}
 
 	/**
@@ -46,17 +75,35 @@ export class Notifier
 	 * Keeps us from having to construct new <code>Notification</code> instances in our
 	 * implementation code.
 	 * 
-	 * @param name
-	 * 		The name of the notification to send.
-	 * 
-	 * @param body
-	 * 		The body of the notification.
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and type (both optional).
+	 * 		With a typed <code>NotificationMap</code>, the body must match the declared type.
+	 */
+	public async sendNotification(...args:NotificationArgs<NotificationMapType>): Promise<void>
+	{
+		return this.facade.sendNotification( ...args );
+	}
+
+	/**
+	 * Send a <code>Notification</code> as a request and get the reply of its handler.
 	 *
-	 * @param type
-	 * 		The type of the notification.
+	 * @param args
+	 * 		The name of the notification to send, followed by its body and a timeout in
+	 * 		milliseconds (both optional).
+	 *
+	 * @return
+	 * 		The reply to the request.
 	 */
-	public async sendNotification(name:string, body?:any, type?:string): Promise<void>
+	public async request<Result = any>(...args:RequestArgs<NotificationMapType>): Promise<Result>
 	{
-		return this.facade.sendNotification( name, body, type );
+		return this.facade.request<Result>( ...args );
 	}
+
+	/**
+	 * Message of the error thrown when the Core of the <code>Notifier</code> is not
+	 * registered.
+	 *
+	 * @constant
+	 */
+	public static MULTITON_MSG:string = "No Core is registered for the multiton key: ";
 }
@@ -1,4 +1,5 @@
 import { INotification, IObserver } from "../../interfaces";
+import { NotificationContext } from "./NotificationContext";
 
 /**
  * A base <code>IObserver</code> implementation.
@@ -39,6 +40,12 @@ export class Observer
 	 */
 	context:any;
 
+	/**
+	 * The priority of the interested object.
+	 * @protected
+	 */
+	#priority:number;
+
 	/**
 	 * Constructs an <code>Observer</code> instance.
 	 * 
@@ -47,11 +54,15 @@ export class Observer
 	 *
 	 * @param notifyContext
 	 * 		The notification context of the interested object.
+	 *
+	 * @param priority
+	 * 		The priority of the interested object, higher priorities are notified first.
 	 */
-	constructor( notifyMethod:Function, notifyContext:any )
+	constructor( notifyMethod:Function, notifyContext:any, priority:number = 0 )
 	{
 		this.setNotifyMethod( notifyMethod );
 		this.setNotifyContext( notifyContext );
+		this.#priority = priority;
 	}
 
 	/**
@@ -100,16 +111,27 @@ export class Observer
 		this.context = notifyContext;
 	}
 
+	/**
+	 * Get the priority of the interested object.
+	 *
+	 * @return
+	 * 		The priority, higher priorities are notified first.
+	 */
+	public getPriority():number
+	{
+		return this.#priority;
+	}
+
 	/**
 	 * Notify the interested object.
 	 * 
 	 * @param notification
 	 * 		The <code>INotification</code> to pass to the interested object's notification
-	 * 		method.
+	 * 		method. The notifications sent while handling it record it as their cause.
 	 */
 	public async notifyObserver( notification:INotification ): Promise<void>
 	{
-		await this.getNotifyMethod().call( this.getNotifyContext(), notification );
+		await NotificationContext.run( notification, () => this.getNotifyMethod().call( this.getNotifyContext(), notification ));
 	}
 
 	/**
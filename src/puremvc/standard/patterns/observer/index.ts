@@ -1,3 +1,5 @@
 export * from "./Notification";
+export * from "./NotificationContext";
+export * from "./NotificationPattern";
 export * from "./Notifier";
 export * from "./Observer";
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { IPipeFitting, IPipeMessage } from "../../interfaces";
+import { FilterControlMessage } from "./FilterControlMessage";
+import { Pipe } from "./Pipe";
+
+/**
+ * A function deciding whether a <code>Filter</code> lets a message through. It may also
+ * modify the message.
+ */
+export type PipeFilter<ParamsType = unknown> = (message:IPipeMessage, params:ParamsType | undefined) => boolean;
+
+/**
+ * A fitting passing on only the messages accepted by its filter function.
+ *
+ * A <code>FilterControlMessage</code> of the same name changes the filter function or its
+ * parameters, or switches the <code>Filter</code> to bypass mode; control messages addressed
+ * to other filters are passed on.
+ */
+export class Filter<ParamsType = unknown>
+	extends Pipe
+{
+	/**
+	 * The name of the <code>Filter</code>, addressed by the control messages.
+	 *
+	 * @protected
+	 */
+	#name:string;
+
+	/**
+	 * The filter function.
+	 *
+	 * @protected
+	 */
+	#filter:PipeFilter<ParamsType>;
+
+	/**
+	 * The parameters of the filter function.
+	 *
+	 * @protected
+	 */
+	#params?:ParamsType;
+
+	/**
+	 * <code>FilterControlMessage.FILTER</code> or <code>FilterControlMessage.BYPASS</code>.
+	 *
+	 * @protected
+	 */
+	#mode:string = FilterControlMessage.FILTER;
+
+	/**
+	 * Constructs a <code>Filter</code> instance.
+	 *
+	 * @param name
+	 * 		The name of the <code>Filter</code>.
+	 *
+	 * @param output
+	 * 		The fitting to connect as output.
+	 *
+	 * @param filter
+	 * 		The filter function, letting every message through by default.
+	 *
+	 * @param params
+	 * 		The parameters of the filter function.
+	 */
+	constructor(name:string, output?:IPipeFitting, filter:PipeFilter<ParamsType> = () => true, params?:ParamsType)
+	{
+		super(output);
+
+		this.#name = name;
+		this.#filter = filter;
+		this.#params = params;
+	}
+
+	/**
+	 * Get the name of the <code>Filter</code>.
+	 */
+	public getName():string
+	{
+		return this.#name;
+	}
+
+	/**
+	 * Handle the control messages addressed to this <code>Filter</code>, and pass on the
+	 * other messages the filter function accepts.
+	 *
+	 * @param message
+	 * 		The message to filter.
+	 *
+	 * @return
+	 * 		The message was handled or passed on successfully; <code>false</code> if it was
+	 * 		filtered out.
+	 */
+	public override write(message:IPipeMessage):boolean
+	{
+		if (message instanceof FilterControlMessage && message.getName() === this.#name)
+		{
+			switch (message.getType())
+			{
+				case FilterControlMessage.SET_FILTER:
+					this.#filter = message.getFilter() as PipeFilter<ParamsType>;
+					return true;
+
+				case FilterControlMessage.SET_PARAMS:
+					this.#params = message.getParams() as ParamsType;
+					return true;
+
+				case FilterControlMessage.BYPASS:
+				case FilterControlMessage.FILTER:
+					this.#mode = message.getType();
+					return true;
+			}
+		}
+
+		if (message instanceof FilterControlMessage || this.#mode === FilterControlMessage.BYPASS)
+			return super.write(message);
+
+		return this.#filter(message, this.#params) && super.write(message);
+	}
+}
@@ -0,0 +1,107 @@
+import { PipeFilter } from "./Filter";
+import { Message } from "./Message";
+
+/**
+ * A message controlling the <code>Filter</code> of the same name it goes through.
+ */
+export class FilterControlMessage<ParamsType = unknown>
+	extends Message
+{
+	/**
+	 * The name of the <code>Filter</code> controlled.
+	 *
+	 * @protected
+	 */
+	#name:string;
+
+	/**
+	 * The filter function to set.
+	 *
+	 * @protected
+	 */
+	#filter?:PipeFilter<ParamsType>;
+
+	/**
+	 * The filter parameters to set.
+	 *
+	 * @protected
+	 */
+	#params?:ParamsType;
+
+	/**
+	 * Constructs a <code>FilterControlMessage</code> instance.
+	 *
+	 * @param type
+	 * 		<code>SET_PARAMS</code>, <code>SET_FILTER</code>, <code>BYPASS</code> or
+	 * 		<code>FILTER</code>.
+	 *
+	 * @param name
+	 * 		The name of the <code>Filter</code> controlled.
+	 *
+	 * @param filter
+	 * 		The filter function, for <code>SET_FILTER</code>.
+	 *
+	 * @param params
+	 * 		The filter parameters, for <code>SET_PARAMS</code>.
+	 */
+	constructor(type:string, name:string, filter?:PipeFilter<ParamsType>, params?:ParamsType)
+	{
+		super(type);
+
+		this.#name = name;
+		this.#filter = filter;
+		this.#params = params;
+	}
+
+	/**
+	 * Get the name of the <code>Filter</code> controlled.
+	 */
+	public getName():string
+	{
+		return this.#name;
+	}
+
+	/**
+	 * Get the filter function to set.
+	 */
+	public getFilter():PipeFilter<ParamsType> | undefined
+	{
+		return this.#filter;
+	}
+
+	/**
+	 * Get the filter parameters to set.
+	 */
+	public getParams():ParamsType | undefined
+	{
+		return this.#params;
+	}
+
+	/**
+	 * Set the parameters of the <code>Filter</code>.
+	 *
+	 * @constant
+	 */
+	public static SET_PARAMS:string = "pipes/filter/setParams";
+
+	/**
+	 * Set the filter function of the <code>Filter</code>.
+	 *
+	 * @constant
+	 */
+	public static SET_FILTER:string = "pipes/filter/setFilter";
+
+	/**
+	 * Let every message through the <code>Filter</code>.
+	 *
+	 * @constant
+	 */
+	public static BYPASS:string = "pipes/filter/bypass";
+
+	/**
+	 * Filter the messages again, the default.
+	 *
+	 * @constant
+	 */
+	public static FILTER:string = "pipes/filter/filter";
+}
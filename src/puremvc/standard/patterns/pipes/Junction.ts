@@ -0,0 +1,175 @@
+import { IPipeFitting, IPipeMessage } from "../../interfaces";
+import { PipeListener } from "./PipeListener";
+
+/**
+ * The named input and output pipes of a Core.
+ *
+ * A <code>Junction</code> is usually the view component of a <code>JunctionMediator</code>,
+ * which listens to its input pipes and sends messages through its output pipes.
+ */
+export class Junction
+{
+	/**
+	 * The pipes, by name.
+	 *
+	 * @protected
+	 */
+	#pipes:Map<string, IPipeFitting> = new Map();
+
+	/**
+	 * The types of the pipes, <code>INPUT</code> or <code>OUTPUT</code>, by name.
+	 *
+	 * @protected
+	 */
+	#pipeTypes:Map<string, string> = new Map();
+
+	/**
+	 * Register a pipe.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 *
+	 * @param type
+	 * 		<code>INPUT</code> or <code>OUTPUT</code>.
+	 *
+	 * @param pipe
+	 * 		The pipe.
+	 *
+	 * @return
+	 * 		The pipe was registered; <code>false</code> if a pipe already has this name.
+	 */
+	public registerPipe(name:string, type:string, pipe:IPipeFitting):boolean
+	{
+		if (this.#pipes.has(name))
+			return false;
+
+		this.#pipes.set(name, pipe);
+		this.#pipeTypes.set(name, type);
+
+		return true;
+	}
+
+	/**
+	 * Check if a pipe is registered.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 */
+	public hasPipe(name:string):boolean
+	{
+		return this.#pipes.has(name);
+	}
+
+	/**
+	 * Check if an input pipe is registered.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 */
+	public hasInputPipe(name:string):boolean
+	{
+		return this.#pipeTypes.get(name) === Junction.INPUT;
+	}
+
+	/**
+	 * Check if an output pipe is registered.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 */
+	public hasOutputPipe(name:string):boolean
+	{
+		return this.#pipeTypes.get(name) === Junction.OUTPUT;
+	}
+
+	/**
+	 * Retrieve a pipe.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 *
+	 * @return
+	 * 		The pipe registered with this name, if any.
+	 */
+	public retrievePipe(name:string):IPipeFitting | undefined
+	{
+		return this.#pipes.get(name);
+	}
+
+	/**
+	 * Remove a pipe, disconnecting its output.
+	 *
+	 * @param name
+	 * 		The name of the pipe.
+	 *
+	 * @return
+	 * 		The pipe that was registered, if any.
+	 */
+	public removePipe(name:string):IPipeFitting | undefined
+	{
+		const pipe = this.#pipes.get(name);
+
+		pipe?.disconnect();
+
+		this.#pipes.delete(name);
+		this.#pipeTypes.delete(name);
+
+		return pipe;
+	}
+
+	/**
+	 * Connect a listener to the end of an input pipe.
+	 *
+	 * @param inputPipeName
+	 * 		The name of the input pipe.
+	 *
+	 * @param listener
+	 * 		The function receiving the messages.
+	 *
+	 * @return
+	 * 		The listener was connected; <code>false</code> if there is no such input pipe, or
+	 * 		it already has an output.
+	 */
+	public addPipeListener(inputPipeName:string, listener:(message:IPipeMessage) => void):boolean
+	{
+		if (!this.hasInputPipe(inputPipeName))
+			return false;
+
+		return this.#pipes.get(inputPipeName).connect(new PipeListener(listener));
+	}
+
+	/**
+	 * Send a message through an output pipe.
+	 *
+	 * @param outputPipeName
+	 * 		The name of the output pipe.
+	 *
+	 * @param message
+	 * 		The message to send.
+	 *
+	 * @return
+	 * 		The message was passed on successfully; <code>false</code> if there is no such
+	 * 		output pipe.
+	 */
+	public sendMessage(outputPipeName:string, message:IPipeMessage):boolean
+	{
+		if (!this.hasOutputPipe(outputPipeName))
+			return false;
+
+		return this.#pipes.get(outputPipeName).write(message);
+	}
+
+	/**
+	 * The type of the pipes receiving messages.
+	 *
+	 * @constant
+	 */
+	public static INPUT:string = "input";
+
+	/**
+	 * The type of the pipes sending messages.
+	 *
+	 * @constant
+	 */
+	public static OUTPUT:string = "output";
+}
@@ -0,0 +1,128 @@
+import { INotification, IPipeFitting, IPipeMessage, NotificationInterest } from "../../interfaces";
+import { Mediator } from "../mediator/Mediator";
+import { Junction } from "./Junction";
+
+/**
+ * A <code>Mediator</code> bridging its Core to other Cores through the pipes of a
+ * <code>Junction</code>.
+ *
+ * The pipes are given through the <code>ACCEPT_INPUT_PIPE</code> and
+ * <code>ACCEPT_OUTPUT_PIPE</code> notifications, with the pipe as body and its name as type.
+ * The messages received from the input pipes are handed to <code>handlePipeMessage</code>.
+ *
+ * Subclasses add the notifications to send to other Cores to the interests, and turn the
+ * messages received back into notifications:
+ *
+ * <pre>
+ *		public override listNotificationInterests():NotificationInterest[]
+ *		{
+ *			return [ ...super.listNotificationInterests(), ShellFacade.LOG ];
+ *		}
+ *
+ *		public override async handleNotification( notification:INotification ):Promise<void>
+ *		{
+ *			if ( notification.getName() === ShellFacade.LOG )
+ *				this.junction.sendMessage( "toLogger", new Message( Message.NORMAL, undefined, notification.getBody() ) );
+ *			else
+ *				await super.handleNotification( notification );
+ *		}
+ *
+ *		public override handlePipeMessage( message:IPipeMessage ):void
+ *		{
+ *			this.sendNotification( ShellFacade.LOGGED, message.getBody() );
+ *		}
+ * </pre>
+ */
+export class JunctionMediator
+	extends Mediator<Junction>
+{
+	/**
+	 * Constructs a <code>JunctionMediator</code> instance.
+	 *
+	 * @param mediatorName
+	 * 		The name of the <code>Mediator</code>.
+	 *
+	 * @param junction
+	 * 		The <code>Junction</code> holding the pipes.
+	 */
+	constructor(mediatorName:string = JunctionMediator.NAME, junction:Junction = new Junction())
+	{
+		super(mediatorName, junction);
+	}
+
+	/**
+	 * Get the <code>Junction</code> holding the pipes.
+	 */
+	public get junction():Junction
+	{
+		return this.getViewComponent();
+	}
+
+	/**
+	 * The <code>JunctionMediator</code> handles the <code>ACCEPT_INPUT_PIPE</code> and
+	 * <code>ACCEPT_OUTPUT_PIPE</code> notifications.
+	 *
+	 * @return
+	 * 		The notifications giving pipes to the <code>Junction</code>.
+	 */
+	public override listNotificationInterests():NotificationInterest[]
+	{
+		return [ JunctionMediator.ACCEPT_INPUT_PIPE, JunctionMediator.ACCEPT_OUTPUT_PIPE ];
+	}
+
+	/**
+	 * Register the pipes given to the <code>Junction</code>, listening to the input pipes.
+	 *
+	 * @param notification
+	 * 		An <code>ACCEPT_INPUT_PIPE</code> or <code>ACCEPT_OUTPUT_PIPE</code> notification.
+	 */
+	public override async handleNotification(notification:INotification<IPipeFitting>):Promise<void>
+	{
+		switch (notification.getName())
+		{
+			case JunctionMediator.ACCEPT_INPUT_PIPE:
+				if (this.junction.registerPipe(notification.getType(), Junction.INPUT, notification.getBody()))
+					this.junction.addPipeListener(notification.getType(), (message) => this.handlePipeMessage(message));
+
+				break;
+
+			case JunctionMediator.ACCEPT_OUTPUT_PIPE:
+				this.junction.registerPipe(notification.getType(), Junction.OUTPUT, notification.getBody());
+
+				break;
+		}
+	}
+
+	/**
+	 * Handle a message received from an input pipe. Override to turn the messages into
+	 * notifications of the Core.
+	 *
+	 * @param message
+	 * 		The message received.
+	 */
+	public handlePipeMessage(message:IPipeMessage):void
+	{
+
+	}
+
+	/**
+	 * Default name of the <code>JunctionMediator</code>.
+	 *
+	 * @constant
+	 */
+	public static NAME:string = "JunctionMediator";
+
+	/**
+	 * Notification giving an input pipe, as body, named by the type.
+	 *
+	 * @constant
+	 */
+	public static ACCEPT_INPUT_PIPE:string = "acceptInputPipe";
+
+	/**
+	 * Notification giving an output pipe, as body, named by the type.
+	 *
+	 * @constant
+	 */
+	public static ACCEPT_OUTPUT_PIPE:string = "acceptOutputPipe";
+}
@@ -0,0 +1,155 @@
+import { IPipeMessage } from "../../interfaces";
+
+/**
+ * A base <code>IPipeMessage</code> implementation.
+ *
+ * Messages of the <code>NORMAL</code> type carry application data; the fittings act upon the
+ * control messages addressed to them, such as <code>QueueControlMessage</code> and
+ * <code>FilterControlMessage</code>.
+ */
+export class Message<BodyType = unknown, HeaderType = unknown>
+	implements IPipeMessage<BodyType, HeaderType>
+{
+	/**
+	 * The type of the message.
+	 *
+	 * @protected
+	 */
+	#type:string;
+
+	/**
+	 * The priority of the message.
+	 *
+	 * @protected
+	 */
+	#priority:number;
+
+	/**
+	 * The header of the message.
+	 *
+	 * @protected
+	 */
+	#header?:HeaderType;
+
+	/**
+	 * The body of the message.
+	 *
+	 * @protected
+	 */
+	#body?:BodyType;
+
+	/**
+	 * Constructs a <code>Message</code> instance.
+	 *
+	 * @param type
+	 * 		The type of the message.
+	 *
+	 * @param header
+	 * 		The header of the message.
+	 *
+	 * @param body
+	 * 		The body of the message.
+	 *
+	 * @param priority
+	 * 		The priority of the message, <code>PRIORITY_MED</code> by default.
+	 */
+	constructor(type:string = Message.NORMAL, header?:HeaderType, body?:BodyType, priority:number = Message.PRIORITY_MED)
+	{
+		this.#type = type;
+		this.#header = header;
+		this.#body = body;
+		this.#priority = priority;
+	}
+
+	/**
+	 * Get the type of the message.
+	 */
+	public getType():string
+	{
+		return this.#type;
+	}
+
+	/**
+	 * Set the type of the message.
+	 */
+	public setType(type:string):void
+	{
+		this.#type = type;
+	}
+
+	/**
+	 * Get the priority of the message, lower values coming first.
+	 */
+	public getPriority():number
+	{
+		return this.#priority;
+	}
+
+	/**
+	 * Set the priority of the message.
+	 */
+	public setPriority(priority:number):void
+	{
+		this.#priority = priority;
+	}
+
+	/**
+	 * Get the header of the message.
+	 */
+	public getHeader():HeaderType | undefined
+	{
+		return this.#header;
+	}
+
+	/**
+	 * Set the header of the message.
+	 */
+	public setHeader(header:HeaderType):void
+	{
+		this.#header = header;
+	}
+
+	/**
+	 * Get the body of the message.
+	 */
+	public getBody():BodyType | undefined
+	{
+		return this.#body;
+	}
+
+	/**
+	 * Set the body of the message.
+	 */
+	public setBody(body:BodyType):void
+	{
+		this.#body = body;
+	}
+
+	/**
+	 * The type of the messages carrying application data.
+	 *
+	 * @constant
+	 */
+	public static NORMAL:string = "pipes/messages/normal";
+
+	/**
+	 * The priority of urgent messages.
+	 *
+	 * @constant
+	 */
+	public static PRIORITY_HIGH:number = 1;
+
+	/**
+	 * The default priority.
+	 *
+	 * @constant
+	 */
+	public static PRIORITY_MED:number = 5;
+
+	/**
+	 * The priority of messages that can wait.
+	 *
+	 * @constant
+	 */
+	public static PRIORITY_LOW:number = 10;
+}
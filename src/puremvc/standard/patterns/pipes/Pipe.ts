@@ -0,0 +1,82 @@
+import { IPipeFitting, IPipeMessage } from "../../interfaces";
+
+/**
+ * A base <code>IPipeFitting</code> implementation, passing the messages written to it on to
+ * its output.
+ *
+ * Fittings are chained by connecting each one to the next:
+ *
+ * <pre>
+ *		const pipe = new Pipe();
+ *		pipe.connect( new Filter( "errorsOnly", new PipeListener( log ), isError ) );
+ * </pre>
+ */
+export class Pipe
+	implements IPipeFitting
+{
+	/**
+	 * The fitting receiving the messages.
+	 *
+	 * @protected
+	 */
+	#output?:IPipeFitting;
+
+	/**
+	 * Constructs a <code>Pipe</code> instance.
+	 *
+	 * @param output
+	 * 		The fitting to connect as output.
+	 */
+	constructor(output?:IPipeFitting)
+	{
+		if (output)
+			this.connect(output);
+	}
+
+	/**
+	 * Connect the output of this fitting to another fitting.
+	 *
+	 * @param output
+	 * 		The fitting receiving the messages written to this one.
+	 *
+	 * @return
+	 * 		The fitting was connected; <code>false</code> if an output was already connected.
+	 */
+	public connect(output:IPipeFitting):boolean
+	{
+		if (this.#output)
+			return false;
+
+		this.#output = output;
+
+		return true;
+	}
+
+	/**
+	 * Disconnect the output of this fitting.
+	 *
+	 * @return
+	 * 		The fitting that was connected, if any.
+	 */
+	public disconnect():IPipeFitting | undefined
+	{
+		const output = this.#output;
+		this.#output = undefined;
+
+		return output;
+	}
+
+	/**
+	 * Write a message to the output.
+	 *
+	 * @param message
+	 * 		The message to pass on.
+	 *
+	 * @return
+	 * 		The message was passed on successfully; <code>false</code> if no output is connected.
+	 */
+	public write(message:IPipeMessage):boolean
+	{
+		return this.#output?.write(message) ?? false;
+	}
+}
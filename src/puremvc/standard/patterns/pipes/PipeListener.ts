@@ -0,0 +1,64 @@
+import { IPipeFitting, IPipeMessage } from "../../interfaces";
+
+/**
+ * The end of a pipe, calling a function with every message written to it.
+ */
+export class PipeListener
+	implements IPipeFitting
+{
+	/**
+	 * The function receiving the messages.
+	 *
+	 * @protected
+	 */
+	#listener:(message:IPipeMessage) => void;
+
+	/**
+	 * Constructs a <code>PipeListener</code> instance.
+	 *
+	 * @param listener
+	 * 		The function receiving the messages.
+	 */
+	constructor(listener:(message:IPipeMessage) => void)
+	{
+		this.#listener = listener;
+	}
+
+	/**
+	 * A <code>PipeListener</code> has no output.
+	 *
+	 * @return
+	 * 		Always <code>false</code>.
+	 */
+	public connect(output:IPipeFitting):boolean
+	{
+		return false;
+	}
+
+	/**
+	 * A <code>PipeListener</code> has no output.
+	 *
+	 * @return
+	 * 		Always <code>undefined</code>.
+	 */
+	public disconnect():IPipeFitting | undefined
+	{
+		return undefined;
+	}
+
+	/**
+	 * Call the listener with a message.
+	 *
+	 * @param message
+	 * 		The message received.
+	 *
+	 * @return
+	 * 		Always <code>true</code>.
+	 */
+	public write(message:IPipeMessage):boolean
+	{
+		this.#listener(message);
+
+		return true;
+	}
+}
@@ -0,0 +1,89 @@
+import { IPipeMessage } from "../../interfaces";
+import { Pipe } from "./Pipe";
+import { QueueControlMessage } from "./QueueControlMessage";
+
+/**
+ * A fitting holding the messages written to it until a <code>QueueControlMessage.FLUSH</code>
+ * writes them to its output.
+ *
+ * The messages are flushed in the order they were written, or by priority once a
+ * <code>QueueControlMessage.SORT</code> is received.
+ */
+export class Queue
+	extends Pipe
+{
+	/**
+	 * The messages waiting for a flush.
+	 *
+	 * @protected
+	 */
+	#messages:IPipeMessage[] = [];
+
+	/**
+	 * <code>QueueControlMessage.FIFO</code> or <code>QueueControlMessage.SORT</code>.
+	 *
+	 * @protected
+	 */
+	#mode:string = QueueControlMessage.FIFO;
+
+	/**
+	 * Queue a message, or handle a <code>QueueControlMessage</code>.
+	 *
+	 * @param message
+	 * 		The message to queue.
+	 *
+	 * @return
+	 * 		The message was queued or handled; for a flush, every message was passed on
+	 * 		successfully.
+	 */
+	public override write(message:IPipeMessage):boolean
+	{
+		switch (message.getType())
+		{
+			case QueueControlMessage.SORT:
+			case QueueControlMessage.FIFO:
+				this.#mode = message.getType();
+				return true;
+
+			case QueueControlMessage.FLUSH:
+				return this.flush();
+
+			default:
+				this.#messages.push(message);
+				return true;
+		}
+	}
+
+	/**
+	 * Write the queued messages to the output.
+	 *
+	 * @return
+	 * 		Every message was passed on successfully.
+	 */
+	public flush():boolean
+	{
+		const messages = this.#messages;
+		this.#messages = [];
+
+		if (this.#mode === QueueControlMessage.SORT)
+			messages.sort((a, b) => a.getPriority() - b.getPriority());
+
+		let success = true;
+
+		for (const message of messages)
+		{
+			if (!super.write(message))
+				success = false;
+		}
+
+		return success;
+	}
+
+	/**
+	 * Get the number of messages waiting for a flush.
+	 */
+	public getSize():number
+	{
+		return this.#messages.length;
+	}
+}
@@ -0,0 +1,40 @@
+import { Message } from "./Message";
+
+/**
+ * A message controlling the <code>Queue</code>s it goes through.
+ */
+export class QueueControlMessage
+	extends Message
+{
+	/**
+	 * Constructs a <code>QueueControlMessage</code> instance.
+	 *
+	 * @param type
+	 * 		<code>FLUSH</code>, <code>SORT</code> or <code>FIFO</code>.
+	 */
+	constructor(type:string)
+	{
+		super(type);
+	}
+
+	/**
+	 * Write the queued messages to the output of the <code>Queue</code>.
+	 *
+	 * @constant
+	 */
+	public static FLUSH:string = "pipes/queue/flush";
+
+	/**
+	 * Flush the queued messages by priority.
+	 *
+	 * @constant
+	 */
+	public static SORT:string = "pipes/queue/sort";
+
+	/**
+	 * Flush the queued messages in the order they were written, the default.
+	 *
+	 * @constant
+	 */
+	public static FIFO:string = "pipes/queue/fifo";
+}
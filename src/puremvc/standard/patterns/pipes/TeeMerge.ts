@@ -0,0 +1,39 @@
+import { IPipeFitting } from "../../interfaces";
+import { Pipe } from "./Pipe";
+
+/**
+ * A fitting merging several inputs into its output.
+ *
+ * The inputs are connected to the <code>TeeMerge</code>, which passes on everything they write.
+ */
+export class TeeMerge
+	extends Pipe
+{
+	/**
+	 * Constructs a <code>TeeMerge</code> instance.
+	 *
+	 * @param inputs
+	 * 		The fittings to connect as inputs.
+	 */
+	constructor(...inputs:IPipeFitting[])
+	{
+		super();
+
+		for (const input of inputs)
+			this.connectInput(input);
+	}
+
+	/**
+	 * Connect another input.
+	 *
+	 * @param input
+	 * 		The fitting to merge into the output.
+	 *
+	 * @return
+	 * 		The input was connected; <code>false</code> if it already had an output.
+	 */
+	public connectInput(input:IPipeFitting):boolean
+	{
+		return input.connect(this);
+	}
+}
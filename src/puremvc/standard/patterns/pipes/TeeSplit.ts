@@ -0,0 +1,97 @@
+import { IPipeFitting, IPipeMessage } from "../../interfaces";
+
+/**
+ * A fitting writing every message to all its outputs.
+ */
+export class TeeSplit
+	implements IPipeFitting
+{
+	/**
+	 * The fittings receiving the messages.
+	 *
+	 * @protected
+	 */
+	#outputs:IPipeFitting[] = [];
+
+	/**
+	 * Constructs a <code>TeeSplit</code> instance.
+	 *
+	 * @param outputs
+	 * 		The fittings to connect as outputs.
+	 */
+	constructor(...outputs:IPipeFitting[])
+	{
+		for (const output of outputs)
+			this.connect(output);
+	}
+
+	/**
+	 * Connect another output.
+	 *
+	 * @param output
+	 * 		The fitting receiving the messages written to this one.
+	 *
+	 * @return
+	 * 		Always <code>true</code>.
+	 */
+	public connect(output:IPipeFitting):boolean
+	{
+		this.#outputs.push(output);
+
+		return true;
+	}
+
+	/**
+	 * Disconnect the last output connected.
+	 *
+	 * @return
+	 * 		The fitting that was connected, if any.
+	 */
+	public disconnect():IPipeFitting | undefined
+	{
+		return this.#outputs.pop();
+	}
+
+	/**
+	 * Disconnect a given output.
+	 *
+	 * @param target
+	 * 		The fitting to disconnect.
+	 *
+	 * @return
+	 * 		The fitting disconnected, if it was connected.
+	 */
+	public disconnectFitting(target:IPipeFitting):IPipeFitting | undefined
+	{
+		const index = this.#outputs.indexOf(target);
+
+		if (index < 0)
+			return undefined;
+
+		this.#outputs.splice(index, 1);
+
+		return target;
+	}
+
+	/**
+	 * Write a message to all the outputs.
+	 *
+	 * @param message
+	 * 		The message to pass on.
+	 *
+	 * @return
+	 * 		Every output received the message successfully.
+	 */
+	public write(message:IPipeMessage):boolean
+	{
+		let success = true;
+
+		for (const output of [ ...this.#outputs ])
+		{
+			if (!output.write(message))
+				success = false;
+		}
+
+		return success;
+	}
+}
@@ -0,0 +1,11 @@
+export * from "./Filter";
+export * from "./FilterControlMessage";
+export * from "./Junction";
+export * from "./JunctionMediator";
+export * from "./Message";
+export * from "./Pipe";
+export * from "./PipeListener";
+export * from "./Queue";
+export * from "./QueueControlMessage";
+export * from "./TeeMerge";
+export * from "./TeeSplit";
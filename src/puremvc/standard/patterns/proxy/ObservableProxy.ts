@@ -0,0 +1,183 @@
+import { IDataChange, IObservableProxy, NotificationMap } from "../../interfaces";
+import { Notification } from "../observer";
+import { Proxy } from "./Proxy";
+
+/**
+ * A <code>Proxy</code> broadcasting the changes of its data.
+ *
+ * <code>setData</code> sends the change notification of the <code>ObservableProxy</code>,
+ * with an <code>IDataChange</code> holding the previous and next data as body. The change
+ * notification is named after the <code>Proxy</code>, <code>&lt;proxyName&gt;/changed</code>,
+ * unless another name is given to the constructor.
+ *
+ * When the data is an object, <code>update</code> merges some keys into it, and each key that
+ * changed is also broadcast as <code>&lt;changeNotification&gt;/&lt;key&gt;</code>.
+ *
+ * <code>batch</code> groups several mutations into a single change, sent when the outermost
+ * batch completes. No notification is sent when the data did not change.
+ */
+export class ObservableProxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends Proxy<DataType, NotificationMapType>
+	implements IObservableProxy<DataType, NotificationMapType>
+{
+	/**
+	 * The name of the notification sent when the data changes.
+	 *
+	 * @protected
+	 */
+	#changeNotification:string;
+
+	/**
+	 * The number of batches in progress.
+	 *
+	 * @protected
+	 */
+	#batchDepth:number = 0;
+
+	/**
+	 * The data when the outermost batch started.
+	 *
+	 * @protected
+	 */
+	#batchStart?:DataType;
+
+	/**
+	 * Constructs an <code>ObservableProxy</code> instance.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code> instance.
+	 *
+	 * @param data
+	 * 		An initial data object to be held by the <code>Proxy</code>. Setting it is not
+	 * 		broadcast.
+	 *
+	 * @param changeNotification
+	 * 		The name of the notification sent when the data changes.
+	 */
+	constructor(proxyName:string, data?:DataType, changeNotification?:string)
+	{
+		super(proxyName);
+
+		this.#changeNotification = changeNotification ?? this.getProxyName() + "/changed";
+
+		if (data !== undefined)
+			super.setData(data);
+	}
+
+	/**
+	 * Get the name of the notification sent when the data changes.
+	 *
+	 * @return
+	 * 		The name of the change notification.
+	 */
+	public getChangeNotification():string
+	{
+		return this.#changeNotification;
+	}
+
+	/**
+	 * Set the data of the <code>ObservableProxy</code> instance and broadcast the change.
+	 *
+	 * @param data
+	 * 		The data to set for the <code>ObservableProxy</code> instance.
+	 */
+	public override async setData( data:DataType ):Promise<void>
+	{
+		const previous = this.getData();
+		super.setData(data);
+
+		if (this.#batchDepth === 0)
+			await this.#broadcast(previous, data);
+	}
+
+	/**
+	 * Merge some keys into the object data, broadcasting the keys changed.
+	 *
+	 * @param changes
+	 * 		The keys to set and their new values.
+	 */
+	public async update( changes:Partial<DataType> ):Promise<void>
+	{
+		await this.setData({ ...this.getData(), ...changes } as DataType);
+	}
+
+	/**
+	 * Apply several mutations, broadcasting a single change once they are all done.
+	 *
+	 * Batches can be nested; the change is broadcast when the outermost batch completes, even
+	 * if the mutations throw.
+	 *
+	 * @param mutations
+	 * 		Calls <code>setData</code> and <code>update</code> as many times as needed.
+	 */
+	public async batch( mutations:() => void | Promise<void> ):Promise<void>
+	{
+		if (this.#batchDepth++ === 0)
+			this.#batchStart = this.getData();
+
+		try
+		{
+			await mutations();
+		}
+		finally
+		{
+			if (--this.#batchDepth === 0)
+			{
+				const previous = this.#batchStart;
+				this.#batchStart = undefined;
+
+				await this.#broadcast(previous, this.getData());
+			}
+		}
+	}
+
+	/**
+	 * Send the change notification, then one notification per changed key.
+	 */
+	async #broadcast(previous:DataType, next:DataType):Promise<void>
+	{
+		const keys = ObservableProxy.#changedKeys(previous, next);
+
+		if (keys ? keys.length === 0 : Object.is(previous, next))
+			return;
+
+		const proxyName = this.getProxyName();
+
+		await this.#send(this.#changeNotification, { proxyName, previous, next, keys: keys ?? [] });
+
+		for (const key of keys ?? [])
+			await this.#send(this.#changeNotification + "/" + key, { proxyName, previous: previous[key], next: next[key], keys: [key] });
+	}
+
+	/**
+	 * Broadcast a change through the Core of the <code>ObservableProxy</code>.
+	 */
+	async #send(name:string, change:IDataChange):Promise<void>
+	{
+		await this.facade.notifyObservers(new Notification(name, change));
+	}
+
+	/**
+	 * Get the keys whose values differ between two plain objects, or <code>undefined</code>
+	 * when the values compared are not both plain objects: arrays, <code>Map</code>s,
+	 * <code>Date</code>s and class instances are compared as a whole.
+	 */
+	static #changedKeys(previous:any, next:any):string[] | undefined
+	{
+		const isPlainObject = (value:any) =>
+		{
+			if (value === null || typeof value !== "object")
+				return false;
+
+			const prototype = Object.getPrototypeOf(value);
+			return prototype === Object.prototype || prototype === null;
+		};
+
+		if (!isPlainObject(previous) || !isPlainObject(next))
+			return undefined;
+
+		const keys = new Set([ ...Object.keys(previous), ...Object.keys(next) ]);
+
+		return [ ...keys ].filter(key => !Object.is(previous[key], next[key]));
+	}
+}
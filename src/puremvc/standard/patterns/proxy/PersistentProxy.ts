@@ -0,0 +1,344 @@
+import { SystemClock } from "../../core/SystemClock";
+import { DataMigration, IClock, IPersistenceOptions, IPersistentProxy, IStorageAdapter, NotificationMap } from "../../interfaces";
+import { Notification } from "../observer";
+import { Proxy } from "./Proxy";
+
+/**
+ * A <code>Proxy</code> saving its data through an <code>IStorageAdapter</code>.
+ *
+ * The stored data is loaded when the <code>PersistentProxy</code> is registered; use
+ * <code>whenLoaded</code> to wait for it. Every <code>setData</code> then writes the data
+ * through, immediately or once no change happened for the <code>debounce</code> delay.
+ *
+ * The data is stored along with the version of its schema. Data stored by an older version
+ * is upgraded by the <code>migrations</code> when loaded, then written back.
+ *
+ * A <code>setData</code> made while the stored data is loading wins over the stored data.
+ * A failed write rejects the promise returned by <code>setData</code>, and is broadcast as a
+ * <code>WRITE_FAILED</code> notification, with the error as body and the name of the
+ * <code>Proxy</code> as type, for the callers ignoring that promise.
+ */
+export class PersistentProxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends Proxy<DataType, NotificationMapType>
+	implements IPersistentProxy<DataType, NotificationMapType>
+{
+	/**
+	 * Where the data is stored.
+	 *
+	 * @protected
+	 */
+	#adapter:IStorageAdapter;
+
+	/**
+	 * The key of the data in the storage.
+	 *
+	 * @protected
+	 */
+	#storageKey:string;
+
+	/**
+	 * The delay of the debounced writes, in milliseconds.
+	 *
+	 * @protected
+	 */
+	#debounce:number;
+
+	/**
+	 * The current version of the schema of the data.
+	 *
+	 * @protected
+	 */
+	#version:number;
+
+	/**
+	 * The upgrades of stored data, by the version they upgrade to.
+	 *
+	 * @protected
+	 */
+	#migrations:{ [version:number]:DataMigration };
+
+	/**
+	 * The timers debouncing the writes.
+	 *
+	 * @protected
+	 */
+	#clock:IClock;
+
+	/**
+	 * The <code>PersistentProxy</code> is registered with a Model, and may report failed
+	 * writes through its Core.
+	 *
+	 * @protected
+	 */
+	#registered:boolean = false;
+
+	/**
+	 * The load started when the <code>PersistentProxy</code> was registered.
+	 *
+	 * @protected
+	 */
+	#loading?:Promise<void>;
+
+	/**
+	 * The timer of the debounced write.
+	 *
+	 * @protected
+	 */
+	#timer?:unknown;
+
+	/**
+	 * Settles the promises returned by <code>setData</code> while a write is debounced.
+	 *
+	 * @protected
+	 */
+	#pending?:{ promise:Promise<void>, resolve:() => void, reject:(error:unknown) => void };
+
+	/**
+	 * The number of calls to <code>setData</code>, telling a load whether the data changed
+	 * while it was reading.
+	 *
+	 * @protected
+	 */
+	#changes:number = 0;
+
+	/**
+	 * Constructs a <code>PersistentProxy</code> instance.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code> instance.
+	 *
+	 * @param options
+	 * 		How the data is stored.
+	 *
+	 * @param data
+	 * 		The data held until stored data is loaded. Setting it is not written.
+	 */
+	constructor(proxyName:string, options:IPersistenceOptions, data?:DataType)
+	{
+		super(proxyName);
+
+		this.#adapter = options.adapter;
+		this.#storageKey = options.key ?? this.getProxyName();
+		this.#debounce = options.debounce ?? 0;
+		this.#version = options.version ?? 0;
+		this.#migrations = options.migrations ?? {};
+		this.#clock = options.clock ?? new SystemClock();
+
+		if (data !== undefined)
+			super.setData(data);
+	}
+
+	/**
+	 * Set the data of the <code>PersistentProxy</code> instance and write it through.
+	 *
+	 * @param data
+	 * 		The data to set for the <code>PersistentProxy</code> instance.
+	 *
+	 * @return
+	 * 		Settles once the data is written.
+	 */
+	public override setData( data:DataType ):Promise<void>
+	{
+		this.#changes++;
+		super.setData(data);
+
+		if (this.#debounce <= 0)
+			return this.#report(this.#write());
+
+		if (!this.#pending)
+		{
+			let resolve:() => void, reject:(error:unknown) => void;
+			const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+
+			this.#pending = { promise, resolve, reject };
+			this.#report(promise);
+		}
+
+		this.#clock.clearTimeout(this.#timer);
+		this.#timer = this.#clock.setTimeout(() => this.flush().catch(() => {}), this.#debounce);
+
+		return this.#pending.promise;
+	}
+
+	/**
+	 * Read the stored data, migrating it to the current version.
+	 *
+	 * Nothing changes when no data is stored yet, or when <code>setData</code> was called while
+	 * reading it.
+	 *
+	 * @throws Error
+	 * 		The stored data has a newer version, or a migration is missing.
+	 */
+	public async load():Promise<void>
+	{
+		const changes = this.#changes;
+		const stored = await this.#adapter.read(this.#storageKey);
+
+		if (stored === undefined)
+			return;
+
+		let { version, data } = JSON.parse(stored);
+
+		if (version > this.#version)
+			throw Error(PersistentProxy.VERSION_MSG + version);
+
+		const migrated = version < this.#version;
+
+		while (version < this.#version)
+		{
+			const migration = this.#migrations[++version];
+
+			if (!migration)
+				throw Error(PersistentProxy.MIGRATION_MSG + version);
+
+			data = await migration(data);
+		}
+
+		if (this.#changes !== changes)
+			return;
+
+		super.setData(data);
+
+		if (migrated)
+			await this.save();
+	}
+
+	/**
+	 * Wait for the data loaded when the <code>PersistentProxy</code> was registered.
+	 *
+	 * @return
+	 * 		Settles once the stored data is loaded, rejecting if it could not be.
+	 */
+	public whenLoaded():Promise<void>
+	{
+		return this.#loading ?? Promise.resolve();
+	}
+
+	/**
+	 * Store the data now, without waiting for a debounced write.
+	 */
+	public async save():Promise<void>
+	{
+		if (this.#pending)
+			return this.flush();
+
+		return this.#write();
+	}
+
+	/**
+	 * Store the data now if a debounced write is pending.
+	 */
+	public async flush():Promise<void>
+	{
+		const pending = this.#pending;
+
+		if (!pending)
+			return;
+
+		this.#clock.clearTimeout(this.#timer);
+		this.#pending = undefined;
+
+		try
+		{
+			await this.#write();
+			pending.resolve();
+		}
+		catch (error)
+		{
+			pending.reject(error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove the stored data, cancelling a pending write.
+	 */
+	public async clear():Promise<void>
+	{
+		this.#clock.clearTimeout(this.#timer);
+
+		this.#pending?.resolve();
+		this.#pending = undefined;
+
+		await this.#adapter.remove(this.#storageKey);
+	}
+
+	/**
+	 * Called by the Model when the <code>PersistentProxy</code> is registered, loads the
+	 * stored data.
+	 *
+	 * @return
+	 * 		Settles once the stored data is loaded, like <code>whenLoaded</code>.
+	 */
+	public override onRegister():Promise<void>
+	{
+		this.#registered = true;
+		this.#loading = this.load();
+		this.#loading.catch(() => {});
+
+		return this.#loading;
+	}
+
+	/**
+	 * Called by the Model when the <code>PersistentProxy</code> is removed, writes a pending
+	 * debounced change.
+	 *
+	 * @return
+	 * 		Settles once the pending change is written.
+	 */
+	public override async onRemove():Promise<void>
+	{
+		try
+		{
+			await this.flush();
+		}
+		finally
+		{
+			this.#registered = false;
+		}
+	}
+
+	/**
+	 * Write the data and its version to the storage.
+	 */
+	async #write():Promise<void>
+	{
+		await this.#adapter.write(this.#storageKey, JSON.stringify({ version: this.#version, data: this.getData() }));
+	}
+
+	/**
+	 * Broadcast the failure of a write, once registered.
+	 */
+	#report(written:Promise<void>):Promise<void>
+	{
+		written.catch((error) =>
+		{
+			if (this.#registered)
+				this.facade.notifyObservers(new Notification(PersistentProxy.WRITE_FAILED, error, this.getProxyName())).catch(() => {});
+		});
+
+		return written;
+	}
+
+	/**
+	 * Notification sent when writing the data failed, with the error as body and the name of
+	 * the <code>Proxy</code> as type.
+	 *
+	 * @constant
+	 */
+	public static WRITE_FAILED:string = "persistentProxyWriteFailed";
+
+	/**
+	 * Message of the error thrown when the stored data has a newer version.
+	 *
+	 * @constant
+	 */
+	public static VERSION_MSG:string = "The stored data has an unknown version: ";
+
+	/**
+	 * Message of the error thrown when no migration upgrades the stored data.
+	 *
+	 * @constant
+	 */
+	public static MIGRATION_MSG:string = "No migration to version: ";
+}
@@ -1,4 +1,4 @@
-import { INotifier, IProxy } from "../../interfaces";
+import { INotifier, IProxy, NotificationMap } from "../../interfaces";
 import { Notifier } from "../observer";
 
 /**
@@ -19,9 +19,9 @@ import { Notifier } from "../observer";
  * <LI>Encapsulate interaction with local or remote services used to fetch and persist model
  * data.
  */
-export class Proxy<DataType = unknown>
-	extends Notifier
-	implements IProxy<DataType>, INotifier
+export class Proxy<DataType = unknown, NotificationMapType extends object = NotificationMap>
+	extends Notifier<NotificationMapType>
+	implements IProxy<DataType, NotificationMapType>, INotifier<NotificationMapType>
 {
 	/**
 	 * The data object controlled by the <code>Proxy</code>.
@@ -92,8 +92,10 @@ export class Proxy<DataType = unknown>
 	/**
 	 * Called by the Model when the <code>Proxy</code> is registered. This method has to be
 	 * overridden by the subclass to know when the instance is registered.
+	 *
+	 * It may return a promise, which <code>registerProxyAsync</code> waits for.
 	 */
-	public onRegister():void
+	public onRegister():void | Promise<void>
 	{
 
 	}
@@ -101,8 +103,11 @@ export class Proxy<DataType = unknown>
 	/**
 	 * Called by the Model when the <code>Proxy</code> is removed. This method has to be
 	 * overridden by the subclass to know when the instance is removed.
+	 *
+	 * It may return a promise, which <code>removeProxyAsync</code> and <code>dispose</code>
+	 * wait for.
 	 */
-	public onRemove():void
+	public onRemove():void | Promise<void>
 	{
 
 	}
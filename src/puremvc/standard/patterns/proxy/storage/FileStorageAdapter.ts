@@ -0,0 +1,94 @@
+import { IStorageAdapter } from "../../../interfaces";
+
+/**
+ * An <code>IStorageAdapter</code> for the Node file system, storing the data of each key in
+ * a JSON file of a directory.
+ *
+ * The <code>fs</code> module is only loaded on first use, so the adapter does not prevent
+ * bundling the framework for the browser.
+ */
+export class FileStorageAdapter
+	implements IStorageAdapter
+{
+	/**
+	 * The directory holding the files.
+	 *
+	 * @protected
+	 */
+	#directory:string;
+
+	/**
+	 * Constructs a <code>FileStorageAdapter</code> instance.
+	 *
+	 * @param directory
+	 * 		The directory holding the files, created when first written to.
+	 */
+	constructor(directory:string)
+	{
+		this.#directory = directory;
+	}
+
+	/**
+	 * Read the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @return
+	 * 		The stored data, or <code>undefined</code> if nothing is stored under the key.
+	 */
+	public async read(key:string):Promise<string | undefined>
+	{
+		const fs = await import("node:fs/promises");
+
+		try
+		{
+			return await fs.readFile(this.#getPath(key), "utf8");
+		}
+		catch (error:any)
+		{
+			if (error?.code === "ENOENT")
+				return undefined;
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Store data under a key, replacing what was stored.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @param value
+	 * 		The serialized data.
+	 */
+	public async write(key:string, value:string):Promise<void>
+	{
+		const fs = await import("node:fs/promises");
+
+		await fs.mkdir(this.#directory, { recursive: true });
+		await fs.writeFile(this.#getPath(key), value, "utf8");
+	}
+
+	/**
+	 * Remove the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 */
+	public async remove(key:string):Promise<void>
+	{
+		const fs = await import("node:fs/promises");
+
+		await fs.rm(this.#getPath(key), { force: true });
+	}
+
+	/**
+	 * Get the path of the file storing a key.
+	 */
+	#getPath(key:string):string
+	{
+		return this.#directory + "/" + encodeURIComponent(key) + ".json";
+	}
+}
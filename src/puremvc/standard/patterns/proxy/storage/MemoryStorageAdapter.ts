@@ -0,0 +1,57 @@
+import { IStorageAdapter } from "../../../interfaces";
+
+/**
+ * An <code>IStorageAdapter</code> keeping the data in memory.
+ *
+ * The data is lost with the adapter, which makes it handy for tests and for data that only
+ * has to outlive the <code>Proxy</code> holding it.
+ */
+export class MemoryStorageAdapter
+	implements IStorageAdapter
+{
+	/**
+	 * The stored data, by key.
+	 *
+	 * @protected
+	 */
+	#items:Map<string, string> = new Map();
+
+	/**
+	 * Read the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @return
+	 * 		The stored data, or <code>undefined</code> if nothing is stored under the key.
+	 */
+	public async read(key:string):Promise<string | undefined>
+	{
+		return this.#items.get(key);
+	}
+
+	/**
+	 * Store data under a key, replacing what was stored.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @param value
+	 * 		The serialized data.
+	 */
+	public async write(key:string, value:string):Promise<void>
+	{
+		this.#items.set(key, value);
+	}
+
+	/**
+	 * Remove the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 */
+	public async remove(key:string):Promise<void>
+	{
+		this.#items.delete(key);
+	}
+}
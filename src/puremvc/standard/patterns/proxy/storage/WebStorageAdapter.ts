@@ -0,0 +1,81 @@
+import { IStorageAdapter } from "../../../interfaces";
+
+/**
+ * An <code>IStorageAdapter</code> for the Web Storage API, that is <code>localStorage</code>
+ * or <code>sessionStorage</code>:
+ *
+ * <pre>
+ *		new PersistentProxy( "settings", { adapter: new WebStorageAdapter( localStorage ) } );
+ * </pre>
+ */
+export class WebStorageAdapter
+	implements IStorageAdapter
+{
+	/**
+	 * The Web Storage holding the data.
+	 *
+	 * @protected
+	 */
+	#storage:Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+	/**
+	 * Prepended to the keys of the data, to share the storage with other applications.
+	 *
+	 * @protected
+	 */
+	#prefix:string;
+
+	/**
+	 * Constructs a <code>WebStorageAdapter</code> instance.
+	 *
+	 * @param storage
+	 * 		The Web Storage holding the data.
+	 *
+	 * @param prefix
+	 * 		Prepended to the keys of the data.
+	 */
+	constructor(storage:Pick<Storage, "getItem" | "setItem" | "removeItem">, prefix:string = "")
+	{
+		this.#storage = storage;
+		this.#prefix = prefix;
+	}
+
+	/**
+	 * Read the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @return
+	 * 		The stored data, or <code>undefined</code> if nothing is stored under the key.
+	 */
+	public async read(key:string):Promise<string | undefined>
+	{
+		return this.#storage.getItem(this.#prefix + key) ?? undefined;
+	}
+
+	/**
+	 * Store data under a key, replacing what was stored.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 *
+	 * @param value
+	 * 		The serialized data.
+	 */
+	public async write(key:string, value:string):Promise<void>
+	{
+		this.#storage.setItem(this.#prefix + key, value);
+	}
+
+	/**
+	 * Remove the data stored under a key.
+	 *
+	 * @param key
+	 * 		The key of the data.
+	 */
+	public async remove(key:string):Promise<void>
+	{
+		this.#storage.removeItem(this.#prefix + key);
+	}
+}
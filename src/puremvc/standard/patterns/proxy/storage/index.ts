@@ -0,0 +1,3 @@
+export * from "./FileStorageAdapter";
+export * from "./MemoryStorageAdapter";
+export * from "./WebStorageAdapter";
@@ -0,0 +1,405 @@
+import { IStartupManager, IStartupOptions, IStartupProgress, IStartupResource } from "../../interfaces";
+import { Notifier } from "../observer";
+
+/**
+ * A base <code>IStartupManager</code> implementation, the async successor of the PureMVC
+ * Loadup utility.
+ *
+ * Resources are initialized as soon as the resources they depend on are, up to the
+ * <code>concurrency</code> limit. A failed initialization is retried, and an attempt taking
+ * longer than the <code>timeout</code> fails.
+ *
+ * The progress is broadcast through the Core of the <code>StartupManager</code>, with an
+ * <code>IStartupProgress</code> as body:
+ * <UL>
+ * <LI><code>RESOURCE_LOADED</code> when a resource is initialized.
+ * <LI><code>RESOURCE_FAILED</code> when a resource failed, after its retries.
+ * <LI><code>READY</code> once every resource is initialized.
+ * <LI><code>FAILED</code> when the startup stops, because a resource failed, the
+ * dependencies are invalid, or it was aborted.
+ * </UL>
+ *
+ * Bind the <code>StartupManager</code> to a Core with <code>initializeNotifier</code>, for
+ * instance from the command starting the application:
+ *
+ * <pre>
+ *		const startup = new StartupManager({ concurrency: 4, retries: 2, timeout: 5000 });
+ *		startup.initializeNotifier( this.multitonKey );
+ *		startup.addResource({ name: "config", initialize: () => this.facade.registerProxyAsync( new ConfigProxy() ) });
+ *		startup.addResource({ name: "user", dependencies: [ "config" ], initialize: () => this.facade.registerProxyAsync( new UserProxy() ) });
+ *		await startup.start();
+ * </pre>
+ */
+export class StartupManager
+	extends Notifier
+	implements IStartupManager
+{
+	/**
+	 * The resources to initialize, by name.
+	 *
+	 * @protected
+	 */
+	#resources:Map<string, IStartupResource> = new Map();
+
+	/**
+	 * How the resources are initialized.
+	 *
+	 * @protected
+	 */
+	#options:Required<IStartupOptions>;
+
+	/**
+	 * Aborts the running startup.
+	 *
+	 * @protected
+	 */
+	#abortController?:AbortController;
+
+	/**
+	 * Constructs a <code>StartupManager</code> instance.
+	 *
+	 * @param options
+	 * 		How the resources are initialized.
+	 *
+	 * @throws Error
+	 * 		The concurrency is not a positive number.
+	 */
+	constructor(options:IStartupOptions = {})
+	{
+		super();
+
+		if (!((options.concurrency ?? Infinity) > 0))
+			throw Error(StartupManager.CONCURRENCY_MSG + options.concurrency);
+
+		this.#options = {
+			concurrency: options.concurrency ?? Infinity,
+			retries: options.retries ?? 0,
+			retryDelay: options.retryDelay ?? 0,
+			timeout: options.timeout ?? 0
+		};
+	}
+
+	/**
+	 * Add a resource to initialize on <code>start</code>.
+	 *
+	 * @param resource
+	 * 		The resource to initialize.
+	 *
+	 * @throws Error
+	 * 		A resource with the same name was already added.
+	 */
+	public addResource(resource:IStartupResource):void
+	{
+		if (this.#resources.has(resource.name))
+			throw Error(StartupManager.DUPLICATE_MSG + resource.name);
+
+		this.#resources.set(resource.name, resource);
+	}
+
+	/**
+	 * Check if a resource was added.
+	 *
+	 * @param resourceName
+	 * 		The name of the resource.
+	 *
+	 * @return
+	 * 		A resource with the given name was added.
+	 */
+	public hasResource(resourceName:string):boolean
+	{
+		return this.#resources.has(resourceName);
+	}
+
+	/**
+	 * Initialize every resource once its dependencies are initialized.
+	 *
+	 * @return
+	 * 		Resolves once all the resources are initialized, rejects with the error of the
+	 * 		first resource that failed.
+	 *
+	 * @throws Error
+	 * 		A dependency is unknown or circular.
+	 */
+	public async start():Promise<void>
+	{
+		const controller = new AbortController();
+		this.#abortController = controller;
+
+		const total = this.#resources.size;
+		const loaded = new Set<string>();
+		const pending = new Map<string, Promise<string>>();
+		let failedName:string | undefined;
+
+		const aborted = new Promise<never>((resolve, reject) =>
+			controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true }));
+		aborted.catch(() => {});
+
+		try
+		{
+			this.#validate();
+
+			while (loaded.size < total)
+			{
+				for (const resource of this.#resources.values())
+				{
+					if (pending.size >= this.#options.concurrency)
+						break;
+
+					const name = resource.name;
+
+					if (loaded.has(name) || pending.has(name) || !(resource.dependencies ?? []).every((dependency) => loaded.has(dependency)))
+						continue;
+
+					const initialized = this.#initialize(resource, controller.signal, () => loaded.size, total).then(() => name, (error) =>
+					{
+						failedName ??= name;
+						throw error;
+					});
+					initialized.catch(() => {});
+
+					pending.set(name, initialized);
+				}
+
+				const name = await Promise.race([ aborted, ...pending.values() ]);
+
+				pending.delete(name);
+				loaded.add(name);
+
+				await this.sendNotification(StartupManager.RESOURCE_LOADED, this.#progress(name, loaded.size, total));
+			}
+		}
+		catch (error)
+		{
+			controller.abort(error);
+
+			await this.sendNotification(StartupManager.FAILED, this.#progress(failedName, loaded.size, total, error));
+			throw error;
+		}
+		finally
+		{
+			if (this.#abortController === controller)
+				this.#abortController = undefined;
+		}
+
+		await this.sendNotification(StartupManager.READY, this.#progress(undefined, loaded.size, total));
+	}
+
+	/**
+	 * Abort the startup, aborting the signal passed to the resources being initialized.
+	 *
+	 * @param reason
+	 * 		The reason of the cancellation, rejecting <code>start</code>.
+	 */
+	public abort(reason?:any):void
+	{
+		this.#abortController?.abort(reason ?? Error(StartupManager.ABORTED_MSG));
+	}
+
+	/**
+	 * Initialize a resource, retrying the failed attempts.
+	 */
+	async #initialize(resource:IStartupResource, signal:AbortSignal, getLoaded:() => number, total:number):Promise<void>
+	{
+		const retries = resource.retries ?? this.#options.retries;
+
+		for (let attempt = 0; ; attempt++)
+		{
+			try
+			{
+				return await this.#attempt(resource, signal);
+			}
+			catch (error)
+			{
+				if (attempt >= retries || signal.aborted)
+				{
+					await this.sendNotification(StartupManager.RESOURCE_FAILED, this.#progress(resource.name, getLoaded(), total, error));
+					throw error;
+				}
+			}
+
+			if (this.#options.retryDelay > 0)
+				await this.#wait(this.#options.retryDelay, signal);
+		}
+	}
+
+	/**
+	 * Make one attempt at initializing a resource, failing it once the timeout elapses.
+	 */
+	async #attempt(resource:IStartupResource, signal:AbortSignal):Promise<void>
+	{
+		const timeout = resource.timeout ?? this.#options.timeout;
+		const controller = new AbortController();
+		const forward = () => controller.abort(signal.reason);
+
+		signal.throwIfAborted();
+		signal.addEventListener("abort", forward, { once: true });
+
+		let timer:ReturnType<typeof setTimeout>;
+
+		const timedOut = new Promise<never>((resolve, reject) =>
+		{
+			if (timeout > 0)
+			{
+				timer = setTimeout(() =>
+				{
+					const error = Error(StartupManager.TIMEOUT_MSG + resource.name);
+					controller.abort(error);
+					reject(error);
+				}, timeout);
+			}
+		});
+
+		try
+		{
+			await Promise.race([ Promise.resolve().then(() => resource.initialize(controller.signal)), timedOut ]);
+		}
+		finally
+		{
+			clearTimeout(timer);
+			signal.removeEventListener("abort", forward);
+		}
+	}
+
+	/**
+	 * Wait before retrying a failed attempt, until the delay elapses or the signal is aborted.
+	 */
+	#wait(delay:number, signal:AbortSignal):Promise<void>
+	{
+		return new Promise<void>((resolve) =>
+		{
+			if (signal.aborted)
+				return resolve();
+
+			const abort = () =>
+			{
+				clearTimeout(timer);
+				resolve();
+			};
+
+			const timer = setTimeout(() =>
+			{
+				signal.removeEventListener("abort", abort);
+				resolve();
+			}, delay);
+
+			signal.addEventListener("abort", abort, { once: true });
+		});
+	}
+
+	/**
+	 * Check that every dependency is known, and that none is circular.
+	 */
+	#validate():void
+	{
+		const visited = new Set<string>();
+		const path:string[] = [];
+
+		const visit = (name:string) =>
+		{
+			if (path.includes(name))
+				throw Error(StartupManager.CIRCULAR_MSG + [ ...path.slice(path.indexOf(name)), name ].join(" -> "));
+
+			if (visited.has(name))
+				return;
+
+			path.push(name);
+
+			for (const dependency of this.#resources.get(name).dependencies ?? [])
+			{
+				if (!this.#resources.has(dependency))
+					throw Error(StartupManager.UNKNOWN_DEPENDENCY_MSG + name + " -> " + dependency);
+
+				visit(dependency);
+			}
+
+			path.pop();
+			visited.add(name);
+		};
+
+		for (const name of this.#resources.keys())
+			visit(name);
+	}
+
+	/**
+	 * Build the body of a progress notification.
+	 */
+	#progress(resourceName:string | undefined, loaded:number, total:number, error?:unknown):IStartupProgress
+	{
+		const progress:IStartupProgress = { resourceName, loaded, total };
+
+		if (error !== undefined)
+			progress.error = error;
+
+		return progress;
+	}
+
+	/**
+	 * Notification sent when a resource is initialized.
+	 *
+	 * @constant
+	 */
+	public static RESOURCE_LOADED:string = "startupResourceLoaded";
+
+	/**
+	 * Notification sent when a resource failed to initialize, after its retries.
+	 *
+	 * @constant
+	 */
+	public static RESOURCE_FAILED:string = "startupResourceFailed";
+
+	/**
+	 * Notification sent once every resource is initialized.
+	 *
+	 * @constant
+	 */
+	public static READY:string = "startupReady";
+
+	/**
+	 * Notification sent when the startup stops before every resource is initialized.
+	 *
+	 * @constant
+	 */
+	public static FAILED:string = "startupFailed";
+
+	/**
+	 * Message of the error thrown when a resource name is added twice.
+	 *
+	 * @constant
+	 */
+	public static DUPLICATE_MSG:string = "A startup resource is already added with the name: ";
+
+	/**
+	 * Message of the error thrown when a resource depends on one that was not added.
+	 *
+	 * @constant
+	 */
+	public static UNKNOWN_DEPENDENCY_MSG:string = "Unknown startup dependency: ";
+
+	/**
+	 * Message of the error thrown when resources depend on each other.
+	 *
+	 * @constant
+	 */
+	public static CIRCULAR_MSG:string = "Circular startup dependency: ";
+
+	/**
+	 * Message of the error failing an attempt that took longer than the timeout.
+	 *
+	 * @constant
+	 */
+	public static TIMEOUT_MSG:string = "The startup resource timed out: ";
+
+	/**
+	 * Message of the error rejecting an aborted startup, when no reason is given.
+	 *
+	 * @constant
+	 */
+	public static ABORTED_MSG:string = "The startup was aborted";
+
+	/**
+	 * Message of the error thrown when the concurrency is not a positive number.
+	 *
+	 * @constant
+	 */
+	public static CONCURRENCY_MSG:string = "The startup concurrency must be a positive number: ";
+}
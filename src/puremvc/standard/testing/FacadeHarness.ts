@@ -0,0 +1,343 @@
+import { View } from "../core/View";
+import { ICommandStub, IFacade, IFacadeHarness, INotification, IProxy, ITestHooks } from "../interfaces";
+import { SimpleCommand } from "../patterns/command/SimpleCommand";
+import { Facade } from "../patterns/facade/Facade";
+import { Proxy } from "../patterns/proxy/Proxy";
+
+/**
+ * A <code>View</code> reporting every notification before notifying its observers.
+ */
+class RecordingView
+	extends View
+{
+	/**
+	 * Called with every notification.
+	 *
+	 * @protected
+	 */
+	#record:(notification:INotification) => void;
+
+	constructor(key:string, record:(notification:INotification) => void)
+	{
+		super(key);
+
+		this.#record = record;
+	}
+
+	public override async notifyObservers(notification:INotification):Promise<void>
+	{
+		this.#record(notification);
+
+		return super.notifyObservers(notification);
+	}
+}
+
+/**
+ * A base <code>IFacadeHarness</code> implementation.
+ *
+ * It does not depend on a test framework; <code>install</code> registers the hooks
+ * creating a fresh harness before each test and disposing it after, with the
+ * <code>beforeEach</code> and <code>afterEach</code> of the test runner. It is published by
+ * the <code>puremvc/testing</code> entry point:
+ *
+ * <pre>
+ *		import { FacadeHarness } from "puremvc/testing";
+ *
+ *		const harness = FacadeHarness.install({ beforeEach, afterEach });
+ *
+ *		it( "Logs In", async () =>
+ *		{
+ *			const { facade } = harness();
+ *			harness().stubCommand( "user/login", () => true );
+ *
+ *			await facade.sendNotification( "form/submitted", { name: "ada" });
+ *
+ *			harness().expectNotification( "user/login", { name: "ada" });
+ *		});
+ * </pre>
+ */
+export class FacadeHarness
+	implements IFacadeHarness
+{
+	/**
+	 * The facade of the isolated Core.
+	 *
+	 * @protected
+	 */
+	#facade:IFacade;
+
+	/**
+	 * The notifications sent through the Core.
+	 *
+	 * @protected
+	 */
+	#notifications:INotification[] = [];
+
+	/**
+	 * Constructs a <code>FacadeHarness</code> instance, creating its Core.
+	 *
+	 * @param factory
+	 * 		Creates the facade of the Core, a plain <code>Facade</code> by default.
+	 *
+	 * @param prefix
+	 * 		The prefix of the unique multiton key of the Core.
+	 */
+	constructor(factory:(key:string) => IFacade = (key) => new Facade(key), prefix:string = "FacadeHarness")
+	{
+		const key = `${prefix}/${++FacadeHarness.#count}`;
+
+		View.getInstance(key, (key) => new RecordingView(key, (notification) => this.#notifications.push(notification)));
+		this.#facade = Facade.getInstance(key, factory);
+	}
+
+	/**
+	 * The facade of the isolated Core.
+	 */
+	public get facade():IFacade
+	{
+		return this.#facade;
+	}
+
+	/**
+	 * Get the notifications sent through the Core.
+	 *
+	 * @param notificationName
+	 * 		Only get the notifications with this name.
+	 *
+	 * @return
+	 * 		The notifications, in the order they were sent.
+	 */
+	public getNotifications(notificationName?:string):INotification[]
+	{
+		if (notificationName === undefined)
+			return this.#notifications.slice(0);
+
+		return this.#notifications.filter((notification) => notification.getName() === notificationName);
+	}
+
+	/**
+	 * Forget the notifications recorded so far.
+	 */
+	public clearNotifications():void
+	{
+		this.#notifications = [];
+	}
+
+	/**
+	 * Assert that a notification was sent.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @param matcher
+	 * 		The expected body, compared deeply; a function called with the body and the
+	 * 		notification, returning whether it matches; or an asymmetric matcher such as
+	 * 		<code>expect.objectContaining</code>.
+	 *
+	 * @return
+	 * 		The first matching notification.
+	 *
+	 * @throws Error
+	 * 		No notification with this name and a matching body was sent.
+	 */
+	public expectNotification(notificationName:string, matcher?:unknown):INotification
+	{
+		const sent = this.getNotifications(notificationName);
+		const found = arguments.length < 2 ? sent[0] : sent.find((notification) => FacadeHarness.#matches(matcher, notification));
+
+		if (!found)
+			throw Error(FacadeHarness.NOT_SENT_MSG + notificationName + this.#describeSent());
+
+		return found;
+	}
+
+	/**
+	 * Assert that no notification with a given name was sent.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification.
+	 *
+	 * @throws Error
+	 * 		A notification with this name was sent.
+	 */
+	public expectNoNotification(notificationName:string):void
+	{
+		if (this.getNotifications(notificationName).length > 0)
+			throw Error(FacadeHarness.SENT_MSG + notificationName);
+	}
+
+	/**
+	 * Register a plain <code>Proxy</code> holding some data, replacing the
+	 * <code>IProxy</code> registered with the same name.
+	 *
+	 * @param proxyName
+	 * 		The name of the <code>Proxy</code>.
+	 *
+	 * @param data
+	 * 		The data of the <code>Proxy</code>.
+	 *
+	 * @return
+	 * 		The <code>Proxy</code> registered.
+	 */
+	public registerFakeProxy<DataType = unknown>(proxyName:string, data?:DataType):IProxy<DataType>
+	{
+		const proxy = new Proxy<DataType>(proxyName, data);
+
+		this.#facade.removeProxy(proxyName);
+		this.#facade.registerProxy(proxy);
+
+		return proxy;
+	}
+
+	/**
+	 * Register a command recording its executions, replacing the <code>ICommand</code>
+	 * registered for the same name.
+	 *
+	 * @param notificationName
+	 * 		The name of the notification executing the command.
+	 *
+	 * @param implementation
+	 * 		Called on execution; what it returns replies to requests.
+	 *
+	 * @return
+	 * 		The record of the executions.
+	 */
+	public stubCommand(notificationName:string, implementation?:(notification:INotification) => any):ICommandStub
+	{
+		const stub:ICommandStub = { calls: [] };
+
+		class CommandStub
+			extends SimpleCommand
+		{
+			public override async execute(notification:INotification):Promise<any>
+			{
+				stub.calls.push(notification);
+
+				return implementation?.(notification);
+			}
+		}
+
+		this.#facade.removeCommand(notificationName);
+		this.#facade.registerCommand(notificationName, CommandStub);
+
+		return stub;
+	}
+
+	/**
+	 * Remove the Core.
+	 */
+	public async dispose():Promise<void>
+	{
+		await Facade.removeCore(this.#facade.getMultitonKey());
+	}
+
+	/**
+	 * List the names of the notifications sent, for the error messages.
+	 */
+	#describeSent():string
+	{
+		const names = this.#notifications.map((notification) => notification.getName());
+
+		return "\nSent: " + (names.length > 0 ? names.join(", ") : "nothing");
+	}
+
+	/**
+	 * Create a fresh harness before each test and dispose it after.
+	 *
+	 * @param hooks
+	 * 		The <code>beforeEach</code> and <code>afterEach</code> of the test runner.
+	 *
+	 * @param factory
+	 * 		Creates the facade of each Core, a plain <code>Facade</code> by default.
+	 *
+	 * @return
+	 * 		Gets the harness of the running test.
+	 */
+	public static install(hooks:ITestHooks, factory?:(key:string) => IFacade):() => FacadeHarness
+	{
+		let harness:FacadeHarness | undefined;
+
+		hooks.beforeEach(() =>
+		{
+			harness = new FacadeHarness(factory);
+		});
+
+		hooks.afterEach(async () =>
+		{
+			await harness?.dispose();
+			harness = undefined;
+		});
+
+		return () =>
+		{
+			if (!harness)
+				throw Error(FacadeHarness.NO_TEST_MSG);
+
+			return harness;
+		};
+	}
+
+	/**
+	 * Check whether a notification matches a matcher of <code>expectNotification</code>.
+	 */
+	static #matches(matcher:unknown, notification:INotification):boolean
+	{
+		if (typeof matcher === "function")
+			return Boolean(matcher(notification.getBody(), notification));
+
+		return FacadeHarness.#equals(matcher, notification.getBody());
+	}
+
+	/**
+	 * Compare values deeply, supporting asymmetric matchers.
+	 */
+	static #equals(expected:any, actual:any):boolean
+	{
+		if (typeof expected?.asymmetricMatch === "function")
+			return expected.asymmetricMatch(actual);
+
+		if (Object.is(expected, actual))
+			return true;
+
+		if (typeof expected !== "object" || typeof actual !== "object" || expected === null || actual === null)
+			return false;
+
+		if (Array.isArray(expected) !== Array.isArray(actual) || Object.getPrototypeOf(expected) !== Object.getPrototypeOf(actual))
+			return false;
+
+		const keys = Object.keys(expected);
+
+		if (keys.length !== Object.keys(actual).length)
+			return false;
+
+		return keys.every((key) => Object.hasOwn(actual, key) && FacadeHarness.#equals(expected[key], actual[key]));
+	}
+
+	/**
+	 * The number of harnesses created, making the multiton keys unique.
+	 *
+	 * @protected
+	 */
+	static #count:number = 0;
+
+	/**
+	 * Message of the error thrown when an expected notification was not sent.
+	 *
+	 * @constant
+	 */
+	public static NOT_SENT_MSG:string = "The notification was not sent: ";
+
+	/**
+	 * Message of the error thrown when an unexpected notification was sent.
+	 *
+	 * @constant
+	 */
+	public static SENT_MSG:string = "The notification was sent: ";
+
+	/**
+	 * Message of the error thrown when the harness is used outside of a test.
+	 *
+	 * @constant
+	 */
+	public static NO_TEST_MSG:string = "No FacadeHarness outside of a test";
+}
@@ -0,0 +1,164 @@
+import { IClock } from "../interfaces";
+
+/**
+ * An <code>IClock</code> whose time only advances when told, to test the
+ * <code>ICommandPolicy</code>s without waiting:
+ *
+ * <pre>
+ *		const clock = new FakeClock();
+ *		facade.setCommandClock( clock );
+ *
+ *		const sent = facade.sendNotification( "load" );
+ *		await clock.tick( 1000 );
+ *		await sent;
+ * </pre>
+ */
+export class FakeClock
+	implements IClock
+{
+	/**
+	 * The current time, in milliseconds.
+	 *
+	 * @protected
+	 */
+	#now:number = 0;
+
+	/**
+	 * The scheduled calls, by handle.
+	 *
+	 * @protected
+	 */
+	#timers:Map<number, { time:number, callback:() => void }> = new Map();
+
+	/**
+	 * The handle of the next scheduled call.
+	 *
+	 * @protected
+	 */
+	#nextHandle:number = 1;
+
+	/**
+	 * The number returned by <code>random</code>.
+	 *
+	 * @protected
+	 */
+	#random:number;
+
+	/**
+	 * Constructs a <code>FakeClock</code> instance.
+	 *
+	 * @param random
+	 * 		The number returned by <code>random</code>, <code>0.5</code> by default, so the
+	 * 		jitter adds nothing.
+	 */
+	constructor(random:number = 0.5)
+	{
+		this.#random = random;
+	}
+
+	/**
+	 * Get the current time.
+	 *
+	 * @return
+	 * 		The milliseconds elapsed since the <code>FakeClock</code> was created.
+	 */
+	public now():number
+	{
+		return this.#now;
+	}
+
+	/**
+	 * Call a function once the time advanced by a delay.
+	 *
+	 * @param callback
+	 * 		The function to call.
+	 *
+	 * @param delay
+	 * 		The delay, in milliseconds.
+	 *
+	 * @return
+	 * 		The handle cancelling the call with <code>clearTimeout</code>.
+	 */
+	public setTimeout(callback:() => void, delay:number):number
+	{
+		const handle = this.#nextHandle++;
+		this.#timers.set(handle, { time: this.#now + Math.max(delay, 0), callback });
+
+		return handle;
+	}
+
+	/**
+	 * Cancel a call scheduled with <code>setTimeout</code>.
+	 *
+	 * @param handle
+	 * 		The handle returned by <code>setTimeout</code>.
+	 */
+	public clearTimeout(handle:unknown):void
+	{
+		this.#timers.delete(handle as number);
+	}
+
+	/**
+	 * Get the number given to the constructor.
+	 *
+	 * @return
+	 * 		The same number on every call.
+	 */
+	public random():number
+	{
+		return this.#random;
+	}
+
+	/**
+	 * Get the number of calls still scheduled.
+	 *
+	 * @return
+	 * 		The number of pending timers.
+	 */
+	public getPendingTimers():number
+	{
+		return this.#timers.size;
+	}
+
+	/**
+	 * Advance the time, calling the scheduled functions in order.
+	 *
+	 * The pending promise callbacks run before and after each call, so the calls scheduled by
+	 * the code they resume are called too when due.
+	 *
+	 * @param milliseconds
+	 * 		How much to advance the time.
+	 */
+	public async tick(milliseconds:number):Promise<void>
+	{
+		const target = this.#now + milliseconds;
+
+		await FakeClock.#settle();
+
+		for (;;)
+		{
+			const due = [...this.#timers].filter(([, timer]) => timer.time <= target).sort(([, a], [, b]) => a.time - b.time)[0];
+
+			if (!due)
+				break;
+
+			const [handle, timer] = due;
+
+			this.#timers.delete(handle);
+			this.#now = timer.time;
+			timer.callback();
+
+			await FakeClock.#settle();
+		}
+
+		this.#now = target;
+	}
+
+	/**
+	 * Wait for the pending promise callbacks to run.
+	 */
+	static #settle():Promise<void>
+	{
+		return new Promise((resolve) => setTimeout(resolve, 0));
+	}
+}
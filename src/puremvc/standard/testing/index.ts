@@ -0,0 +1,2 @@
+export * from "./FacadeHarness";
+export * from "./FakeClock";